@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('protected_items', (table) => {
+    table.increments('id').primary()
+    table.string('guid').notNullable().unique()
+    table.string('title')
+    table.string('reason')
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.index('guid')
+  })
+
+  await knex.schema.alterTable('configs', (table) => {
+    table.string('protectionTag').defaultTo('pulsarr-keep')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('configs', (table) => {
+    table.dropColumn('protectionTag')
+  })
+  await knex.schema.dropTable('protected_items')
+}
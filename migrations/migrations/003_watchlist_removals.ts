@@ -0,0 +1,34 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('watchlist_items', (table) => {
+    table.timestamp('removed_at').nullable()
+  })
+
+  await knex.schema.createTable('pending_deletions', (table) => {
+    table.increments('id').primary()
+    table.string('guid').notNullable().unique()
+    table.string('title').notNullable()
+    table.enum('type', ['show', 'movie']).notNullable()
+    table.json('guids').notNullable()
+    table.timestamp('delete_after').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.index('delete_after')
+  })
+
+  await knex.schema.alterTable('configs', (table) => {
+    table.string('removedItemAction').defaultTo('none')
+    table.integer('removedItemGraceDays').defaultTo(7)
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('configs', (table) => {
+    table.dropColumn('removedItemAction')
+    table.dropColumn('removedItemGraceDays')
+  })
+  await knex.schema.dropTable('pending_deletions')
+  await knex.schema.alterTable('watchlist_items', (table) => {
+    table.dropColumn('removed_at')
+  })
+}
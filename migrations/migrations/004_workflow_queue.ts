@@ -0,0 +1,29 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('workflow_queue', (table) => {
+    table.increments('id').primary()
+    table.string('guid').notNullable().unique()
+    table.string('title').notNullable()
+    table.string('type').notNullable()
+    table.string('key').notNullable()
+    table.string('thumb')
+    table.json('guids').notNullable()
+    table.json('genres')
+    table.enum('source', ['self', 'friends'])
+    table
+      .enum('status', ['pending', 'in_progress', 'done', 'failed'])
+      .notNullable()
+      .defaultTo('pending')
+    table.integer('attempts').notNullable().defaultTo(0)
+    table.text('last_error')
+    table.timestamp('next_attempt_at').defaultTo(knex.fn.now())
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.index(['status', 'next_attempt_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('workflow_queue')
+}
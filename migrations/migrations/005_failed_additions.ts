@@ -0,0 +1,30 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('failed_additions', (table) => {
+    table.increments('id').primary()
+    table.enum('instance_type', ['sonarr', 'radarr']).notNullable()
+    table.integer('instance_id').notNullable()
+    table.string('guid').notNullable()
+    table.string('title').notNullable()
+    table.string('key').notNullable()
+    table.json('guids').notNullable()
+    table.json('genres')
+    table.string('root_folder')
+    table.string('quality_profile')
+    table.integer('status_code')
+    table.text('error_message').notNullable()
+    table.text('error_body')
+    table.integer('attempts').notNullable().defaultTo(0)
+    table.enum('status', ['retrying', 'dead']).notNullable().defaultTo('retrying')
+    table.timestamp('next_attempt_at')
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.unique(['instance_type', 'instance_id', 'guid'])
+    table.index(['status', 'next_attempt_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('failed_additions')
+}
@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('sync_checkpoints', (table) => {
+    table.string('name').primary()
+    table.timestamp('last_synced_at').notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('sync_checkpoints')
+}
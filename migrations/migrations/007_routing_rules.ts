@@ -0,0 +1,26 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('routing_rules', (table) => {
+    table.increments('id').primary()
+    table.string('name').notNullable()
+    table.enum('target_type', ['sonarr', 'radarr']).notNullable()
+    table.integer('instance_id').notNullable()
+    table.integer('priority').notNullable().defaultTo(0)
+    table.boolean('enabled').notNullable().defaultTo(true)
+    table.json('condition').notNullable()
+    table.string('root_folder')
+    table.integer('quality_profile')
+    table.json('tags').defaultTo('[]')
+    table.string('season_monitoring')
+    table.boolean('monitored').notNullable().defaultTo(true)
+    table.boolean('search_on_add').notNullable().defaultTo(true)
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.index(['target_type', 'enabled', 'priority'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('routing_rules')
+}
@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('user_routing', (table) => {
+    table.increments('id').primary()
+    table.integer('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+    table.enum('target_type', ['sonarr', 'radarr']).notNullable()
+    table.integer('instance_id').notNullable()
+    table.string('root_folder')
+    table.integer('quality_profile')
+    table.boolean('exclusive').notNullable().defaultTo(true)
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.unique(['user_id', 'target_type', 'instance_id'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('user_routing')
+}
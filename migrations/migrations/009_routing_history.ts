@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('routing_history', (table) => {
+    table.increments('id').primary()
+    table.string('key').notNullable()
+    table.string('title').notNullable()
+    table.enum('instance_type', ['sonarr', 'radarr']).notNullable()
+    table.integer('instance_id').notNullable()
+    table.string('source').notNullable()
+    table.string('route_name').notNullable()
+    table.string('root_folder')
+    table.string('quality_profile')
+    table.enum('status', ['success', 'failed']).notNullable()
+    table.text('error_message')
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.index(['key', 'created_at'])
+    table.index('created_at')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('routing_history')
+}
@@ -0,0 +1,47 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('watchlist_item_instances', (table) => {
+    table.increments('id').primary()
+    table.integer('watchlist_item_id')
+      .notNullable()
+      .references('id')
+      .inTable('watchlist_items')
+      .onDelete('CASCADE')
+    table.enum('instance_type', ['sonarr', 'radarr']).notNullable()
+    table.integer('instance_id').notNullable()
+    table.enum('status', ['requested', 'grabbed', 'available'])
+      .notNullable()
+      .defaultTo('requested')
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.unique(['watchlist_item_id', 'instance_type', 'instance_id'])
+    table.index(['instance_type', 'instance_id'])
+  })
+
+  // Carry over the single instance each item was previously tracked against
+  for (const instanceType of ['sonarr', 'radarr'] as const) {
+    const column = `${instanceType}_instance_id`
+    const items = await knex('watchlist_items')
+      .whereNotNull(column)
+      .select('id', column, 'status')
+
+    for (const item of items) {
+      await knex('watchlist_item_instances').insert({
+        watchlist_item_id: item.id,
+        instance_type: instanceType,
+        instance_id: item[column],
+        status:
+          item.status === 'notified'
+            ? 'available'
+            : item.status === 'grabbed'
+              ? 'grabbed'
+              : 'requested',
+      })
+    }
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('watchlist_item_instances')
+}
@@ -0,0 +1,32 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sonarr_instances', (table) => {
+    table.string('series_type').defaultTo('standard')
+    table.boolean('season_folder').defaultTo(true)
+    table.boolean('search_on_add').defaultTo(true)
+  })
+
+  // Null genre route options fall back to the instance settings
+  await knex.schema.alterTable('sonarr_genre_routing', (table) => {
+    table.string('season_monitoring')
+    table.string('series_type')
+    table.boolean('season_folder')
+    table.boolean('search_on_add')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sonarr_genre_routing', (table) => {
+    table.dropColumn('season_monitoring')
+    table.dropColumn('series_type')
+    table.dropColumn('season_folder')
+    table.dropColumn('search_on_add')
+  })
+
+  await knex.schema.alterTable('sonarr_instances', (table) => {
+    table.dropColumn('series_type')
+    table.dropColumn('season_folder')
+    table.dropColumn('search_on_add')
+  })
+}
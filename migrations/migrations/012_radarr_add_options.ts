@@ -0,0 +1,30 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('radarr_instances', (table) => {
+    table.string('minimum_availability').defaultTo('released')
+    table.string('monitor').defaultTo('movieOnly')
+    table.boolean('search_on_add').defaultTo(true)
+  })
+
+  // Null genre route options fall back to the instance settings
+  await knex.schema.alterTable('radarr_genre_routing', (table) => {
+    table.string('minimum_availability')
+    table.string('monitor')
+    table.boolean('search_on_add')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('radarr_genre_routing', (table) => {
+    table.dropColumn('minimum_availability')
+    table.dropColumn('monitor')
+    table.dropColumn('search_on_add')
+  })
+
+  await knex.schema.alterTable('radarr_instances', (table) => {
+    table.dropColumn('minimum_availability')
+    table.dropColumn('monitor')
+    table.dropColumn('search_on_add')
+  })
+}
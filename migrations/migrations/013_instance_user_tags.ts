@@ -0,0 +1,21 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sonarr_instances', (table) => {
+    table.boolean('user_tags').defaultTo(false)
+  })
+
+  await knex.schema.alterTable('radarr_instances', (table) => {
+    table.boolean('user_tags').defaultTo(false)
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('radarr_instances', (table) => {
+    table.dropColumn('user_tags')
+  })
+
+  await knex.schema.alterTable('sonarr_instances', (table) => {
+    table.dropColumn('user_tags')
+  })
+}
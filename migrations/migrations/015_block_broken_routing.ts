@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('configs', (table) => {
+    table.boolean('blockBrokenRouting').defaultTo(false)
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('configs', (table) => {
+    table.dropColumn('blockBrokenRouting')
+  })
+}
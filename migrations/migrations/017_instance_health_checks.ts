@@ -0,0 +1,18 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('instance_health_checks', (table) => {
+    table.increments('id').primary()
+    table.enum('instance_type', ['sonarr', 'radarr']).notNullable()
+    table.integer('instance_id').notNullable()
+    table.boolean('healthy').notNullable()
+    table.integer('latency_ms')
+    table.text('error')
+    table.timestamp('checked_at').defaultTo(knex.fn.now())
+    table.index(['instance_type', 'instance_id', 'checked_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('instance_health_checks')
+}
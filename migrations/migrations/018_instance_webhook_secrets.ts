@@ -0,0 +1,21 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sonarr_instances', (table) => {
+    table.string('webhook_secret')
+  })
+
+  await knex.schema.alterTable('radarr_instances', (table) => {
+    table.string('webhook_secret')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('radarr_instances', (table) => {
+    table.dropColumn('webhook_secret')
+  })
+
+  await knex.schema.alterTable('sonarr_instances', (table) => {
+    table.dropColumn('webhook_secret')
+  })
+}
@@ -0,0 +1,13 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('failed_additions', (table) => {
+    table.json('add_options')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('failed_additions', (table) => {
+    table.dropColumn('add_options')
+  })
+}
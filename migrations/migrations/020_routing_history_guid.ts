@@ -0,0 +1,29 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('routing_history', (table) => {
+    table.string('guid')
+    table.index(['guid', 'created_at'])
+  })
+
+  // Existing entries take the primary GUID of the watchlist item their key
+  // belongs to; random RSS keys match nothing and keep the key instead
+  const keys = await knex('routing_history').distinct('key')
+  for (const { key } of keys) {
+    const item = await knex('watchlist_items')
+      .where('key', key)
+      .select('guids')
+      .first()
+    const guids = item ? JSON.parse(item.guids || '[]') : []
+    await knex('routing_history')
+      .where('key', key)
+      .update({ guid: guids[0] ?? key })
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('routing_history', (table) => {
+    table.dropIndex(['guid', 'created_at'])
+    table.dropColumn('guid')
+  })
+}
@@ -0,0 +1,23 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('media_backend_instances')
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.createTable('media_backend_instances', (table) => {
+    table.increments('id').primary()
+    table.string('backend_type').notNullable()
+    table.string('name').notNullable()
+    table.string('base_url').notNullable()
+    table.string('api_key').notNullable()
+    table.string('quality_profile')
+    table.string('root_folder')
+    table.boolean('is_default').defaultTo(false)
+    table.json('settings')
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+    table.unique(['backend_type', 'name'])
+    table.index('backend_type')
+  })
+}
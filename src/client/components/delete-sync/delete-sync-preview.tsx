@@ -0,0 +1,105 @@
+import { Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useDeleteSyncPreview } from '@/hooks/delete-sync/useDeleteSyncPreview'
+
+export function DeleteSyncPreviewPanel() {
+  const { preview, isLoading, fetchPreview } = useDeleteSyncPreview()
+
+  const candidates = preview ? [...preview.shows, ...preview.movies] : []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Deletion Preview</CardTitle>
+          <CardDescription>
+            Dry run of what the delete sync would remove. Nothing is deleted.
+          </CardDescription>
+        </div>
+        <Button
+          onClick={fetchPreview}
+          disabled={isLoading}
+          variant="neutral"
+          className="flex items-center gap-2"
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Trash2 className="h-4 w-4" />
+          )}
+          <span>Generate Preview</span>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!preview ? (
+          <p className="text-sm text-text">
+            Generate a preview to see which items would be deleted.
+          </p>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-text">
+            Nothing would be deleted with the current delete settings.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader className="font-heading">
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Instance</TableHead>
+                <TableHead>GUIDs</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Files</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {candidates.map((candidate) => (
+                <TableRow
+                  key={`${candidate.instanceType}-${candidate.instanceId}-${candidate.guids.join(',')}`}
+                >
+                  <TableCell className="font-medium">
+                    {candidate.title}
+                  </TableCell>
+                  <TableCell>{candidate.instanceName}</TableCell>
+                  <TableCell className="text-xs break-all">
+                    {candidate.guids.join(', ')}
+                  </TableCell>
+                  <TableCell>{candidate.reason}</TableCell>
+                  <TableCell>
+                    <Badge variant={candidate.deleteFiles ? 'warn' : 'neutral'}>
+                      {candidate.deleteFiles ? 'Removed' : 'Kept'}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {preview && (
+          <p className="text-xs text-text mt-4">
+            {preview.shows.length} shows and {preview.movies.length} movies
+            would be deleted. {preview.skipped.shows} unwatchlisted shows are
+            kept by the current settings and{' '}
+            {preview.protected.shows + preview.protected.movies} items are
+            protected. Generated{' '}
+            {new Date(preview.generatedAt).toLocaleString()}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
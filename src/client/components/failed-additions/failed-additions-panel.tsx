@@ -0,0 +1,133 @@
+import { Loader2, RefreshCw, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useFailedAdditions } from '@/hooks/failed-additions/useFailedAdditions'
+
+export function FailedAdditionsPanel() {
+  const { items, isLoading, pendingId, fetchItems, retryItem, dismissItem } =
+    useFailedAdditions()
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Failed Additions</CardTitle>
+          <CardDescription>
+            Items Sonarr or Radarr rejected. Retrying items are retried
+            automatically, dead items need a manual retry.
+          </CardDescription>
+        </div>
+        <Button
+          onClick={fetchItems}
+          disabled={isLoading}
+          variant="neutral"
+          className="flex items-center gap-2"
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          <span>Refresh</span>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-text">No failed additions.</p>
+        ) : (
+          <Table>
+            <TableHeader className="font-heading">
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Instance</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">
+                    {item.title}
+                    <div className="text-xs break-all">
+                      {item.guids.join(', ')}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {item.instanceType === 'sonarr' ? 'Sonarr' : 'Radarr'}{' '}
+                    {item.instanceId}
+                  </TableCell>
+                  <TableCell className="text-xs break-all">
+                    {item.statusCode ? `${item.statusCode}: ` : ''}
+                    {item.errorMessage}
+                    {item.errorBody && (
+                      <div className="mt-1 max-h-20 overflow-auto">
+                        {item.errorBody}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{item.attempts}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={item.status === 'dead' ? 'warn' : 'neutral'}
+                    >
+                      {item.status === 'dead' ? 'Dead' : 'Retrying'}
+                    </Badge>
+                    {item.nextAttemptAt && (
+                      <div className="text-xs mt-1">
+                        Next: {new Date(item.nextAttemptAt).toLocaleString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="neutral"
+                        disabled={pendingId === item.id}
+                        onClick={() => retryItem(item.id)}
+                        aria-label="Retry"
+                      >
+                        {pendingId === item.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="neutral"
+                        disabled={pendingId === item.id}
+                        onClick={() => dismissItem(item.id)}
+                        aria-label="Dismiss"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { useInstanceHealth } from '@/hooks/health/useInstanceHealth'
+
+interface InstanceHealthStatusProps {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+}
+
+export function InstanceHealthStatus({
+  instanceType,
+  instanceId,
+}: InstanceHealthStatusProps) {
+  const health = useInstanceHealth(instanceType, instanceId)
+
+  if (!health) {
+    return null
+  }
+
+  // History is newest first, the strip reads left to right in time
+  const checks = [...health.history].reverse()
+  const healthyChecks = checks.filter((check) => check.healthy)
+  const uptime =
+    checks.length > 0
+      ? Math.round((healthyChecks.length / checks.length) * 100)
+      : null
+  const averageLatency =
+    healthyChecks.length > 0
+      ? Math.round(
+          healthyChecks.reduce(
+            (sum, check) => sum + (check.latencyMs ?? 0),
+            0,
+          ) / healthyChecks.length,
+        )
+      : null
+
+  return (
+    <div className="grid gap-2 mb-6">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-text">
+        {health.status === 'up' && <Badge variant="default">Healthy</Badge>}
+        {health.status === 'down' && (
+          <Badge className="bg-error text-mtext">Down</Badge>
+        )}
+        {health.status === 'unknown' && (
+          <Badge variant="neutral">Not checked yet</Badge>
+        )}
+        {health.latencyMs !== null && <span>{health.latencyMs} ms</span>}
+        {uptime !== null && (
+          <span>
+            {uptime}% up over the last {checks.length} checks
+            {averageLatency !== null && `, ${averageLatency} ms average`}
+          </span>
+        )}
+      </div>
+      {checks.length > 0 && (
+        <div className="flex gap-0.5">
+          {checks.map((check) => (
+            <div
+              key={check.checkedAt}
+              title={`${new Date(check.checkedAt).toLocaleString()}: ${
+                check.healthy ? `${check.latencyMs} ms` : check.error
+              }`}
+              className={cn(
+                'h-4 w-1.5 rounded-sm border border-border',
+                check.healthy ? 'bg-main' : 'bg-error',
+              )}
+            />
+          ))}
+        </div>
+      )}
+      {health.status === 'down' && health.lastError && (
+        <p className="text-sm text-error">
+          {health.lastError}. New items fail over to a healthy synced instance
+          or wait until this instance recovers.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -19,10 +19,22 @@ import EditableCardHeader from '@/components/ui/editable-card-header'
 import GenreRouteCardSkeleton from '@/components/radarr/radarr-genre-route-skeleton'
 import { useRadarrStore } from '@/stores/radarrStore'
 import useRadarrGenreForm from '@/hooks/radarr/useRadarrGenreForm'
+import {
+  RADARR_MINIMUM_AVAILABILITY_OPTIONS,
+  RADARR_MONITOR_OPTIONS,
+} from '@/types/radarr/constants'
 import type { GenreRouteFormValues } from '@/types/radarr/schemas'
 import type { GenreRoute } from '@/types/radarr/types'
 import { useRadarrGenreRouting } from '@/hooks/radarr/useRadarrGenreRouting'
 
+const DEFAULT_OPTION = 'default'
+
+const toOptionValue = (value: string | boolean | null) =>
+  value === null ? DEFAULT_OPTION : String(value)
+
+const fromBooleanOption = (value: string) =>
+  value === DEFAULT_OPTION ? null : value === 'true'
+
 interface GenreRouteCardProps {
   route: GenreRoute
   isNew?: boolean
@@ -237,6 +249,116 @@ const GenreRouteCard = ({
                     )}
                   />
                 </div>
+                {/* Add Options */}
+                <div className="grid gap-4 md:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="minimumAvailability"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Minimum Availability
+                        </FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(
+                              value === DEFAULT_OPTION ? null : value,
+                            )
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            {Object.entries(
+                              RADARR_MINIMUM_AVAILABILITY_OPTIONS,
+                            ).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="monitor"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Monitor</FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(
+                              value === DEFAULT_OPTION ? null : value,
+                            )
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            {Object.entries(RADARR_MONITOR_OPTIONS).map(
+                              ([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ),
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="searchOnAdd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Search on Add
+                        </FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(fromBooleanOption(value))
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            <SelectItem value="true">
+                              Search immediately
+                            </SelectItem>
+                            <SelectItem value="false">Don't search</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </div>
             </CardContent>
           </form>
@@ -11,11 +11,24 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  RADARR_MINIMUM_AVAILABILITY_OPTIONS,
+  RADARR_MONITOR_OPTIONS,
+} from '@/types/radarr/constants'
 import {
   QualityProfileSelect,
   RootFolderSelect,
 } from '@/components/radarr/radarr-selects'
 import { useRadarrStore } from '@/stores/radarrStore'
+import { TagPicker } from '@/components/tag-picker'
+import { InstanceHealthStatus } from '@/components/instance-health-status'
 import { useRadarrConnection } from '@/hooks/radarr/useRadarrConnection'
 import { useRadarrInstanceForm } from '@/hooks/radarr/useRadarrForms'
 import { useRadarrInstance } from '@/hooks/radarr/useRadarrInstance'
@@ -41,6 +54,7 @@ export function InstanceCard({
 
   const instances = useRadarrStore((state) => state.instances)
   const instancesLoading = useRadarrStore((state) => state.instancesLoading)
+  const createTag = useRadarrStore((state) => state.createTag)
   const setLoadingWithMinDuration = useRadarrStore(
     (state) => state.setLoadingWithMinDuration,
   )
@@ -170,6 +184,10 @@ export function InstanceCard({
             }
           />
           <CardContent>
+            <InstanceHealthStatus
+              instanceType="radarr"
+              instanceId={instance.id}
+            />
             <Form {...form}>
               <form onSubmit={handleSave} className="space-y-8">
                 <ConnectionSettings
@@ -270,6 +288,141 @@ export function InstanceCard({
                     )}
                   />
                 </div>
+
+                {/* Add Options */}
+                <div className="grid lg:grid-cols-3 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="minimumAvailability"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Minimum Availability
+                        </FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          disabled={!isConnectionValid}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select minimum availability" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(
+                              RADARR_MINIMUM_AVAILABILITY_OPTIONS,
+                            ).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="monitor"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Monitor</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          disabled={!isConnectionValid}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select monitor mode" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(RADARR_MONITOR_OPTIONS).map(
+                              ([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ),
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="searchOnAdd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Search on Add
+                        </FormLabel>
+                        <div className="flex h-10 items-center gap-2 px-3 py-2">
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={!isConnectionValid}
+                            />
+                          </FormControl>
+                          <span className="text-sm text-text text-muted-foreground">
+                            Search for the movie when added
+                          </span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Tags */}
+                <div className="grid lg:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Tags</FormLabel>
+                        <TagPicker
+                          value={field.value}
+                          onChange={field.onChange}
+                          tags={
+                            instances.find((inst) => inst.id === instance.id)
+                              ?.data?.tags ?? []
+                          }
+                          onCreate={(label) => createTag(instance.id, label)}
+                          disabled={!isConnectionValid || instance.id === -1}
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="userTags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">User Tags</FormLabel>
+                        <div className="flex h-10 items-center gap-2 px-3 py-2">
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={!isConnectionValid}
+                            />
+                          </FormControl>
+                          <span className="text-sm text-text text-muted-foreground">
+                            Tag items with pulsarr-user-&lt;name&gt; for each
+                            watchlisting user
+                          </span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </form>
             </Form>
           </CardContent>
@@ -0,0 +1,137 @@
+import { useEffect } from 'react'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Switch } from '@/components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useConfigHealth } from '@/hooks/routing/useConfigHealth'
+import { useConfigStore } from '@/stores/configStore'
+import type {
+  ConfigIssueField,
+  ConfigReferenceScope,
+} from '@root/types/config-health.types'
+
+const SCOPE_LABELS: Record<ConfigReferenceScope, string> = {
+  instance: 'Instance',
+  'genre-route': 'Genre route',
+  'user-route': 'User route',
+  'routing-rule': 'Routing rule',
+}
+
+const FIELD_LABELS: Record<ConfigIssueField, string> = {
+  connection: 'Connection',
+  rootFolder: 'Root folder',
+  qualityProfile: 'Quality profile',
+}
+
+export function ConfigHealthPanel() {
+  const { report, isLoading, revalidate } = useConfigHealth()
+  const config = useConfigStore((state) => state.config)
+  const updateConfig = useConfigStore((state) => state.updateConfig)
+  const initialize = useConfigStore((state) => state.initialize)
+
+  useEffect(() => {
+    initialize()
+  }, [initialize])
+
+  const issues = report?.issues ?? []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            Configuration Health
+            {report && (
+              <Badge variant={report.healthy ? 'default' : 'warn'}>
+                {report.healthy ? 'Healthy' : `${issues.length} broken`}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Root folders and quality profiles referenced by instances, routes
+            and rules are checked against Sonarr and Radarr every hour.
+          </CardDescription>
+        </div>
+        <Button
+          onClick={revalidate}
+          disabled={isLoading}
+          variant="neutral"
+          className="flex items-center gap-2"
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          <span>Check Now</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {issues.length > 0 && (
+          <Table>
+            <TableHeader className="font-heading">
+              <TableRow>
+                <TableHead>Instance</TableHead>
+                <TableHead>Used By</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.map((issue) => (
+                <TableRow
+                  key={`${issue.instanceType}-${issue.scope}-${issue.scopeId}-${issue.field}`}
+                >
+                  <TableCell>
+                    {issue.instanceType === 'sonarr' ? 'Sonarr' : 'Radarr'}:{' '}
+                    {issue.instanceName}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {SCOPE_LABELS[issue.scope]}: {issue.scopeName}
+                  </TableCell>
+                  <TableCell>{FIELD_LABELS[issue.field]}</TableCell>
+                  <TableCell>{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={config?.blockBrokenRouting ?? false}
+            disabled={!config}
+            onCheckedChange={(checked) =>
+              updateConfig({ blockBrokenRouting: checked })
+            }
+          />
+          <span className="text-sm text-text">
+            Block routing to broken targets instead of falling back to the first
+            root folder and quality profile
+          </span>
+        </div>
+
+        {report?.checkedAt && (
+          <p className="text-xs text-text">
+            Last checked {new Date(report.checkedAt).toLocaleString()}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { ArrowRight, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useGenreAliases } from '@/hooks/routing/useGenreAliases'
+import type { GenreAliasInput } from '@root/types/genre-alias.types'
+
+const EMPTY_ALIAS: GenreAliasInput = { alias: '', genre: '' }
+
+export function GenreAliasesPanel() {
+  const { aliases, createAlias, deleteAlias } = useGenreAliases()
+  const [draft, setDraft] = useState<GenreAliasInput>(EMPTY_ALIAS)
+
+  const handleAdd = async () => {
+    if (await createAlias(draft)) {
+      setDraft(EMPTY_ALIAS)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Genre Aliases</CardTitle>
+        <CardDescription>
+          Plex metadata and RSS feeds name some genres differently. Aliased
+          genres are stored as the target genre, and genre routes and rules
+          match either name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {aliases.length > 0 && (
+          <Table>
+            <TableHeader className="font-heading">
+              <TableRow>
+                <TableHead>Alias</TableHead>
+                <TableHead>Genre</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aliases.map((alias) => (
+                <TableRow key={alias.id}>
+                  <TableCell className="font-medium">{alias.alias}</TableCell>
+                  <TableCell>{alias.genre}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="neutral"
+                      size="sm"
+                      onClick={() => deleteAlias(alias.id)}
+                      aria-label="Delete genre alias"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            className="w-48"
+            value={draft.alias}
+            placeholder="Alias, e.g. Science Fiction"
+            onChange={(event) =>
+              setDraft((current) => ({ ...current, alias: event.target.value }))
+            }
+          />
+          <ArrowRight className="h-4 w-4 text-text" />
+          <Input
+            className="w-48"
+            value={draft.genre}
+            placeholder="Genre, e.g. Sci-Fi & Fantasy"
+            onChange={(event) =>
+              setDraft((current) => ({ ...current, genre: event.target.value }))
+            }
+          />
+          <Button
+            onClick={handleAdd}
+            disabled={!draft.alias.trim() || !draft.genre.trim()}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Alias</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
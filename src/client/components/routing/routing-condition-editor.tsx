@@ -0,0 +1,287 @@
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type {
+  RoutingRuleCondition,
+  RoutingRuleField,
+  RoutingRuleOperator,
+} from '@root/types/routing-rule.types'
+
+const FIELD_LABELS: Record<RoutingRuleField, string> = {
+  genre: 'Genre',
+  user: 'User',
+  year: 'Year',
+  language: 'Original Language',
+  certification: 'Certification',
+  contentType: 'Content Type',
+}
+
+const OPERATOR_LABELS: Record<RoutingRuleOperator, string> = {
+  equals: 'equals',
+  in: 'is one of',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+}
+
+const NUMERIC_OPERATORS: RoutingRuleOperator[] = ['gt', 'gte', 'lt', 'lte']
+
+export const DEFAULT_MATCH_CONDITION: RoutingRuleCondition = {
+  type: 'match',
+  field: 'genre',
+  operator: 'equals',
+  value: '',
+}
+
+// Stable React keys for conditions, carried over as conditions are replaced
+const conditionKeys = new WeakMap<RoutingRuleCondition, number>()
+let nextConditionKey = 0
+
+function conditionKey(condition: RoutingRuleCondition) {
+  let key = conditionKeys.get(condition)
+  if (key === undefined) {
+    key = nextConditionKey++
+    conditionKeys.set(condition, key)
+  }
+  return key
+}
+
+function convertCondition(
+  condition: RoutingRuleCondition,
+  type: RoutingRuleCondition['type'],
+): RoutingRuleCondition {
+  if (type === condition.type) return condition
+
+  const children =
+    condition.type === 'and' || condition.type === 'or'
+      ? condition.conditions
+      : condition.type === 'not'
+        ? [condition.condition]
+        : [condition]
+
+  if (type === 'and' || type === 'or') {
+    return { type, conditions: children }
+  }
+  if (type === 'not') {
+    return { type, condition: children[0] ?? { ...DEFAULT_MATCH_CONDITION } }
+  }
+  return children[0]?.type === 'match'
+    ? children[0]
+    : { ...DEFAULT_MATCH_CONDITION }
+}
+
+function formatValue(value: string | number | Array<string | number>) {
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+function parseValue(
+  raw: string,
+  field: RoutingRuleField,
+  operator: RoutingRuleOperator,
+): string | number | Array<string | number> {
+  if (operator === 'in') {
+    return raw.split(',').map((part) => part.trim())
+  }
+  if (field === 'year' || NUMERIC_OPERATORS.includes(operator)) {
+    const numeric = Number(raw)
+    return raw !== '' && !Number.isNaN(numeric) ? numeric : raw
+  }
+  return raw
+}
+
+interface RoutingConditionEditorProps {
+  condition: RoutingRuleCondition
+  onChange: (condition: RoutingRuleCondition) => void
+  onRemove?: () => void
+  depth?: number
+}
+
+export function RoutingConditionEditor({
+  condition,
+  onChange,
+  onRemove,
+  depth = 0,
+}: RoutingConditionEditorProps) {
+  return (
+    <div
+      className={
+        depth > 0
+          ? 'grid gap-2 border-l-4 border-border pl-3 dark:border-darkBorder'
+          : 'grid gap-2'
+      }
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={condition.type}
+          onValueChange={(value) =>
+            onChange(
+              convertCondition(
+                condition,
+                value as RoutingRuleCondition['type'],
+              ),
+            )
+          }
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="match">Match</SelectItem>
+            <SelectItem value="and">All of (AND)</SelectItem>
+            <SelectItem value="or">Any of (OR)</SelectItem>
+            <SelectItem value="not">Not</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {condition.type === 'match' && (
+          <>
+            <Select
+              value={condition.field}
+              onValueChange={(value) =>
+                onChange({ ...condition, field: value as RoutingRuleField })
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FIELD_LABELS).map(([field, label]) => (
+                  <SelectItem key={field} value={field}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.operator}
+              onValueChange={(value) => {
+                const operator = value as RoutingRuleOperator
+                onChange({
+                  ...condition,
+                  operator,
+                  value: parseValue(
+                    formatValue(condition.value),
+                    condition.field,
+                    operator,
+                  ),
+                })
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(OPERATOR_LABELS).map(([operator, label]) => (
+                  <SelectItem key={operator} value={operator}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-56"
+              value={formatValue(condition.value)}
+              placeholder={
+                condition.operator === 'in'
+                  ? 'Comma separated values'
+                  : condition.field === 'contentType'
+                    ? 'show or movie'
+                    : 'Value'
+              }
+              onChange={(event) =>
+                onChange({
+                  ...condition,
+                  value: parseValue(
+                    event.target.value,
+                    condition.field,
+                    condition.operator,
+                  ),
+                })
+              }
+            />
+          </>
+        )}
+
+        {onRemove && (
+          <Button
+            type="button"
+            variant="neutral"
+            size="sm"
+            onClick={onRemove}
+            aria-label="Remove condition"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {(condition.type === 'and' || condition.type === 'or') && (
+        <>
+          {condition.conditions.map((child, index) => (
+            <RoutingConditionEditor
+              key={conditionKey(child)}
+              condition={child}
+              depth={depth + 1}
+              onChange={(updated) => {
+                conditionKeys.set(updated, conditionKey(child))
+                onChange({
+                  ...condition,
+                  conditions: condition.conditions.map((existing, i) =>
+                    i === index ? updated : existing,
+                  ),
+                })
+              }}
+              onRemove={
+                condition.conditions.length > 1
+                  ? () =>
+                      onChange({
+                        ...condition,
+                        conditions: condition.conditions.filter(
+                          (_, i) => i !== index,
+                        ),
+                      })
+                  : undefined
+              }
+            />
+          ))}
+          <div>
+            <Button
+              type="button"
+              variant="neutral"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() =>
+                onChange({
+                  ...condition,
+                  conditions: [
+                    ...condition.conditions,
+                    { ...DEFAULT_MATCH_CONDITION },
+                  ],
+                })
+              }
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Condition</span>
+            </Button>
+          </div>
+        </>
+      )}
+
+      {condition.type === 'not' && (
+        <RoutingConditionEditor
+          condition={condition.condition}
+          depth={depth + 1}
+          onChange={(updated) => onChange({ ...condition, condition: updated })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Credenza,
+  CredenzaContent,
+  CredenzaHeader,
+  CredenzaTitle,
+  CredenzaDescription,
+  CredenzaBody,
+} from '@/components/ui/credenza'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useRoutingHistory } from '@/hooks/routing/useRoutingHistory'
+import type {
+  RoutedItemSummary,
+  RoutingHistoryEntry,
+} from '@root/types/routing-history.types'
+
+interface RoutingHistoryDetailProps {
+  item: RoutedItemSummary | null
+  history: RoutingHistoryEntry[]
+  isLoading: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function RoutingHistoryDetail({
+  item,
+  history,
+  isLoading,
+  onOpenChange,
+}: RoutingHistoryDetailProps) {
+  return (
+    <Credenza open={item !== null} onOpenChange={onOpenChange}>
+      <CredenzaContent className="max-w-4xl">
+        <CredenzaHeader>
+          <CredenzaTitle className="text-text">{item?.title}</CredenzaTitle>
+          <CredenzaDescription>
+            Every instance this item was sent to, newest first.
+          </CredenzaDescription>
+        </CredenzaHeader>
+        <CredenzaBody>
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-6 w-6 animate-spin text-text" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader className="font-heading">
+                <TableRow>
+                  <TableHead>Instance</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Root Folder</TableHead>
+                  <TableHead>Quality Profile</TableHead>
+                  <TableHead>Routed At</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">
+                      {entry.instanceName ?? `#${entry.instanceId} (removed)`}
+                      <span className="block text-xs capitalize">
+                        {entry.instanceType}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {entry.routeName}
+                      <span className="block text-xs">{entry.source}</span>
+                    </TableCell>
+                    <TableCell className="text-xs break-all">
+                      {entry.rootFolder ?? 'Default'}
+                    </TableCell>
+                    <TableCell>{entry.qualityProfile ?? 'Default'}</TableCell>
+                    <TableCell className="text-xs">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={entry.status === 'failed' ? 'warn' : 'default'}
+                        title={entry.errorMessage ?? undefined}
+                      >
+                        {entry.status === 'failed' ? 'Failed' : 'Added'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CredenzaBody>
+      </CredenzaContent>
+    </Credenza>
+  )
+}
+
+export function RoutingHistoryPanel() {
+  const { items, isLoading, fetchItems, fetchItemHistory } = useRoutingHistory()
+  const [selected, setSelected] = useState<RoutedItemSummary | null>(null)
+  const [history, setHistory] = useState<RoutingHistoryEntry[]>([])
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+
+  const openItem = async (item: RoutedItemSummary) => {
+    setSelected(item)
+    setHistory([])
+    setIsLoadingHistory(true)
+    setHistory(await fetchItemHistory(item.guid))
+    setIsLoadingHistory(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Routing History</CardTitle>
+          <CardDescription>
+            Recently routed watchlist items. Select an item to see every
+            instance it was sent to.
+          </CardDescription>
+        </div>
+        <Button
+          onClick={fetchItems}
+          disabled={isLoading}
+          variant="neutral"
+          className="flex items-center gap-2"
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          <span>Refresh</span>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-text">No items have been routed yet.</p>
+        ) : (
+          <Table>
+            <TableHeader className="font-heading">
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Instances</TableHead>
+                <TableHead>Failures</TableHead>
+                <TableHead>Last Routed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow
+                  key={item.guid}
+                  className="cursor-pointer"
+                  onClick={() => openItem(item)}
+                >
+                  <TableCell className="font-medium">{item.title}</TableCell>
+                  <TableCell>{item.instanceCount}</TableCell>
+                  <TableCell>
+                    {item.failureCount > 0 ? (
+                      <Badge variant="warn">{item.failureCount}</Badge>
+                    ) : (
+                      0
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {new Date(item.lastRoutedAt).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <RoutingHistoryDetail
+        item={selected}
+        history={history}
+        isLoading={isLoadingHistory}
+        onOpenChange={(open) => {
+          if (!open) setSelected(null)
+        }}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,317 @@
+import { useState } from 'react'
+import { Loader2, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RoutingConditionEditor } from '@/components/routing/routing-condition-editor'
+import { TagPicker } from '@/components/tag-picker'
+import { useSonarrStore } from '@/stores/sonarrStore'
+import { useRadarrStore } from '@/stores/radarrStore'
+import { SONARR_MONITORING_OPTIONS } from '@/types/sonarr/constants'
+import type {
+  RoutingRuleCondition,
+  RoutingRuleInput,
+} from '@root/types/routing-rule.types'
+
+const DEFAULT_OPTION = 'default'
+
+function cleanCondition(condition: RoutingRuleCondition): RoutingRuleCondition {
+  switch (condition.type) {
+    case 'and':
+    case 'or':
+      return {
+        ...condition,
+        conditions: condition.conditions.map(cleanCondition),
+      }
+    case 'not':
+      return { ...condition, condition: cleanCondition(condition.condition) }
+    case 'match':
+      return Array.isArray(condition.value)
+        ? {
+            ...condition,
+            value: condition.value.filter((value) => value !== ''),
+          }
+        : condition
+  }
+}
+
+interface RoutingRuleCardProps {
+  rule: RoutingRuleInput
+  isNew?: boolean
+  onSave: (rule: RoutingRuleInput) => Promise<boolean>
+  onDelete?: () => Promise<void>
+  onCancel?: () => void
+}
+
+export function RoutingRuleCard({
+  rule,
+  isNew = false,
+  onSave,
+  onDelete,
+  onCancel,
+}: RoutingRuleCardProps) {
+  const [draft, setDraft] = useState<RoutingRuleInput>(rule)
+  const [isSaving, setIsSaving] = useState(false)
+  const sonarrInstances = useSonarrStore((state) => state.instances)
+  const radarrInstances = useRadarrStore((state) => state.instances)
+  const createSonarrTag = useSonarrStore((state) => state.createTag)
+  const createRadarrTag = useRadarrStore((state) => state.createTag)
+
+  const instances = (
+    draft.targetType === 'sonarr' ? sonarrInstances : radarrInstances
+  ).filter((instance) => instance.apiKey !== 'placeholder')
+  const instance = instances.find((inst) => inst.id === draft.instanceId)
+
+  const update = (updates: Partial<RoutingRuleInput>) =>
+    setDraft((current) => ({ ...current, ...updates }))
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const saved = await onSave({
+      ...draft,
+      condition: cleanCondition(draft.condition),
+    })
+    setIsSaving(false)
+    if (saved && isNew) {
+      onCancel?.()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          {isNew ? 'New Rule' : draft.name}
+          <Badge variant="neutral">Priority {draft.priority}</Badge>
+          {!draft.enabled && <Badge variant="warn">Disabled</Badge>}
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button
+            variant="default"
+            onClick={handleSave}
+            disabled={isSaving || !draft.name || !draft.instanceId}
+            className="flex items-center gap-2"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            <span>Save</span>
+          </Button>
+          {isNew ? (
+            <Button variant="neutral" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              variant="neutral"
+              onClick={onDelete}
+              aria-label="Delete rule"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div className="grid grid-cols-2 gap-4 w600:grid-cols-1">
+          <div className="grid gap-1">
+            <Label className="text-text">Name</Label>
+            <Input
+              value={draft.name}
+              onChange={(event) => update({ name: event.target.value })}
+            />
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-text">Priority (lower runs first)</Label>
+            <Input
+              type="number"
+              value={draft.priority}
+              onChange={(event) =>
+                update({ priority: Number(event.target.value) || 0 })
+              }
+            />
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-text">Target</Label>
+            <Select
+              value={draft.targetType}
+              onValueChange={(value) =>
+                update({
+                  targetType: value as RoutingRuleInput['targetType'],
+                  instanceId: 0,
+                  rootFolder: null,
+                  qualityProfile: null,
+                  seasonMonitoring: null,
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sonarr">Sonarr</SelectItem>
+                <SelectItem value="radarr">Radarr</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-text">Instance</Label>
+            <Select
+              value={draft.instanceId ? draft.instanceId.toString() : ''}
+              onValueChange={(value) =>
+                update({
+                  instanceId: Number(value),
+                  rootFolder: null,
+                  qualityProfile: null,
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select instance" />
+              </SelectTrigger>
+              <SelectContent>
+                {instances.map((inst) => (
+                  <SelectItem key={inst.id} value={inst.id.toString()}>
+                    {inst.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-text">Root Folder</Label>
+            <Select
+              value={draft.rootFolder ?? DEFAULT_OPTION}
+              onValueChange={(value) =>
+                update({ rootFolder: value === DEFAULT_OPTION ? null : value })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_OPTION}>Instance default</SelectItem>
+                {instance?.data?.rootFolders?.map((folder) => (
+                  <SelectItem key={folder.path} value={folder.path}>
+                    {folder.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-text">Quality Profile</Label>
+            <Select
+              value={draft.qualityProfile?.toString() ?? DEFAULT_OPTION}
+              onValueChange={(value) =>
+                update({
+                  qualityProfile:
+                    value === DEFAULT_OPTION ? null : Number(value),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_OPTION}>Instance default</SelectItem>
+                {instance?.data?.qualityProfiles?.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id.toString()}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-text">Tags</Label>
+            <TagPicker
+              key={`${draft.targetType}-${draft.instanceId}`}
+              value={draft.tags}
+              onChange={(tags) => update({ tags })}
+              tags={instance?.data?.tags ?? []}
+              onCreate={(label) =>
+                draft.targetType === 'sonarr'
+                  ? createSonarrTag(draft.instanceId, label)
+                  : createRadarrTag(draft.instanceId, label)
+              }
+              placeholder="Instance default"
+              disabled={!instance}
+            />
+          </div>
+          {draft.targetType === 'sonarr' && (
+            <div className="grid gap-1">
+              <Label className="text-text">Season Monitoring</Label>
+              <Select
+                value={draft.seasonMonitoring ?? DEFAULT_OPTION}
+                onValueChange={(value) =>
+                  update({
+                    seasonMonitoring: value === DEFAULT_OPTION ? null : value,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_OPTION}>
+                    Instance default
+                  </SelectItem>
+                  {Object.entries(SONARR_MONITORING_OPTIONS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={draft.enabled}
+              onCheckedChange={(checked) => update({ enabled: checked })}
+            />
+            <Label className="text-text">Enabled</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={draft.monitored}
+              onCheckedChange={(checked) => update({ monitored: checked })}
+            />
+            <Label className="text-text">Monitored</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={draft.searchOnAdd}
+              onCheckedChange={(checked) => update({ searchOnAdd: checked })}
+            />
+            <Label className="text-text">Search on add</Label>
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-text">Conditions</Label>
+          <RoutingConditionEditor
+            condition={draft.condition}
+            onChange={(condition) => update({ condition })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
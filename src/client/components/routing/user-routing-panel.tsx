@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useUserRoutes } from '@/hooks/routing/useUserRoutes'
+import { useConfigStore } from '@/stores/configStore'
+import { useSonarrStore } from '@/stores/sonarrStore'
+import { useRadarrStore } from '@/stores/radarrStore'
+import type { UserRouteInput } from '@root/types/user-routing.types'
+
+const DEFAULT_OPTION = 'default'
+
+const EMPTY_ROUTE: UserRouteInput = {
+  userId: 0,
+  targetType: 'radarr',
+  instanceId: 0,
+  rootFolder: null,
+  qualityProfile: null,
+  exclusive: true,
+}
+
+export function UserRoutingPanel() {
+  const { routes, createRoute, updateRoute, deleteRoute } = useUserRoutes()
+  const users = useConfigStore((state) => state.users)
+  const fetchUserData = useConfigStore((state) => state.fetchUserData)
+  const sonarrInstances = useSonarrStore((state) => state.instances)
+  const radarrInstances = useRadarrStore((state) => state.instances)
+  const [draft, setDraft] = useState<UserRouteInput>(EMPTY_ROUTE)
+
+  useEffect(() => {
+    if (!users) {
+      fetchUserData().catch(console.error)
+    }
+  }, [users, fetchUserData])
+
+  const instancesFor = (targetType: UserRouteInput['targetType']) =>
+    (targetType === 'sonarr' ? sonarrInstances : radarrInstances).filter(
+      (instance) => instance.apiKey !== 'placeholder',
+    )
+
+  const instanceName = (
+    targetType: UserRouteInput['targetType'],
+    instanceId: number,
+  ) =>
+    instancesFor(targetType).find((instance) => instance.id === instanceId)
+      ?.name ?? `#${instanceId}`
+
+  const draftInstance = instancesFor(draft.targetType).find(
+    (instance) => instance.id === draft.instanceId,
+  )
+
+  const handleAdd = async () => {
+    if (await createRoute(draft)) {
+      setDraft(EMPTY_ROUTE)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>User Routing</CardTitle>
+        <CardDescription>
+          Send a user's watchlist to a specific instance. Exclusive routes
+          replace genre and default routing; others add to it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {routes.length > 0 && (
+          <Table>
+            <TableHeader className="font-heading">
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Instance</TableHead>
+                <TableHead>Root Folder</TableHead>
+                <TableHead>Quality Profile</TableHead>
+                <TableHead>Exclusive</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {routes.map((route) => {
+                const instance = instancesFor(route.targetType).find(
+                  (inst) => inst.id === route.instanceId,
+                )
+                const profile = instance?.data?.qualityProfiles?.find(
+                  (p) => p.id === route.qualityProfile,
+                )
+                return (
+                  <TableRow key={route.id}>
+                    <TableCell className="font-medium">
+                      {route.userName}
+                    </TableCell>
+                    <TableCell>
+                      {route.targetType === 'sonarr' ? 'Sonarr' : 'Radarr'}:{' '}
+                      {instanceName(route.targetType, route.instanceId)}
+                    </TableCell>
+                    <TableCell>{route.rootFolder ?? 'Default'}</TableCell>
+                    <TableCell>
+                      {route.qualityProfile === null
+                        ? 'Default'
+                        : (profile?.name ?? route.qualityProfile)}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={route.exclusive}
+                        onCheckedChange={(checked) =>
+                          updateRoute(route.id, { exclusive: checked })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="neutral"
+                        size="sm"
+                        onClick={() => deleteRoute(route.id)}
+                        aria-label="Delete user route"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={draft.userId ? draft.userId.toString() : ''}
+            onValueChange={(value) =>
+              setDraft((current) => ({ ...current, userId: Number(value) }))
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="User" />
+            </SelectTrigger>
+            <SelectContent>
+              {users?.map((user) => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.alias || user.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.targetType}
+            onValueChange={(value) =>
+              setDraft((current) => ({
+                ...current,
+                targetType: value as UserRouteInput['targetType'],
+                instanceId: 0,
+                rootFolder: null,
+                qualityProfile: null,
+              }))
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sonarr">Sonarr</SelectItem>
+              <SelectItem value="radarr">Radarr</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.instanceId ? draft.instanceId.toString() : ''}
+            onValueChange={(value) =>
+              setDraft((current) => ({
+                ...current,
+                instanceId: Number(value),
+                rootFolder: null,
+                qualityProfile: null,
+              }))
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Instance" />
+            </SelectTrigger>
+            <SelectContent>
+              {instancesFor(draft.targetType).map((instance) => (
+                <SelectItem key={instance.id} value={instance.id.toString()}>
+                  {instance.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.rootFolder ?? DEFAULT_OPTION}
+            onValueChange={(value) =>
+              setDraft((current) => ({
+                ...current,
+                rootFolder: value === DEFAULT_OPTION ? null : value,
+              }))
+            }
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_OPTION}>
+                Default root folder
+              </SelectItem>
+              {draftInstance?.data?.rootFolders?.map((folder) => (
+                <SelectItem key={folder.path} value={folder.path}>
+                  {folder.path}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.qualityProfile?.toString() ?? DEFAULT_OPTION}
+            onValueChange={(value) =>
+              setDraft((current) => ({
+                ...current,
+                qualityProfile: value === DEFAULT_OPTION ? null : Number(value),
+              }))
+            }
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_OPTION}>
+                Default quality profile
+              </SelectItem>
+              {draftInstance?.data?.qualityProfiles?.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id.toString()}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={draft.exclusive}
+              onCheckedChange={(checked) =>
+                setDraft((current) => ({ ...current, exclusive: checked }))
+              }
+            />
+            <span className="text-sm text-text">Exclusive</span>
+          </div>
+          <Button
+            onClick={handleAdd}
+            disabled={!draft.userId || !draft.instanceId}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Route</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
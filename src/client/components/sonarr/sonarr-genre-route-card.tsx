@@ -19,10 +19,22 @@ import EditableCardHeader from '@/components/ui/editable-card-header'
 import GenreRouteCardSkeleton from '@/components/sonarr/sonarr-genre-route-skeleton'
 import { useSonarrStore } from '@/stores/sonarrStore'
 import useSonarrGenreForm from '@/hooks/sonarr/useSonarrGenreForm'
+import {
+  SONARR_ROUTE_MONITORING_OPTIONS,
+  SONARR_SERIES_TYPE_OPTIONS,
+} from '@/types/sonarr/constants'
 import type { GenreRouteFormValues } from '@/types/sonarr/schemas'
 import type { GenreRoute } from '@/types/sonarr/types'
 import { useSonarrGenreRouting } from '@/hooks/sonarr/useSonarrGenreRouting'
 
+const DEFAULT_OPTION = 'default'
+
+const toOptionValue = (value: string | boolean | null) =>
+  value === null ? DEFAULT_OPTION : String(value)
+
+const fromBooleanOption = (value: string) =>
+  value === DEFAULT_OPTION ? null : value === 'true'
+
 interface GenreRouteCardProps {
   route: GenreRoute
   isNew?: boolean
@@ -237,6 +249,149 @@ const GenreRouteCard = ({
                     )}
                   />
                 </div>
+                {/* Add Options */}
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                  <FormField
+                    control={form.control}
+                    name="seasonMonitoring"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Monitoring</FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(
+                              value === DEFAULT_OPTION ? null : value,
+                            )
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            {Object.entries(
+                              SONARR_ROUTE_MONITORING_OPTIONS,
+                            ).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="seriesType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Series Type</FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(
+                              value === DEFAULT_OPTION ? null : value,
+                            )
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            {Object.entries(SONARR_SERIES_TYPE_OPTIONS).map(
+                              ([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ),
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="seasonFolder"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Season Folder
+                        </FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(fromBooleanOption(value))
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            <SelectItem value="true">
+                              Use season folders
+                            </SelectItem>
+                            <SelectItem value="false">
+                              No season folders
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="searchOnAdd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Search on Add
+                        </FormLabel>
+                        <Select
+                          value={toOptionValue(field.value)}
+                          onValueChange={(value) =>
+                            field.onChange(fromBooleanOption(value))
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_OPTION}>
+                              Instance default
+                            </SelectItem>
+                            <SelectItem value="true">
+                              Search immediately
+                            </SelectItem>
+                            <SelectItem value="false">Don't search</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </div>
             </CardContent>
           </form>
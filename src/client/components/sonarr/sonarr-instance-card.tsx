@@ -18,8 +18,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { SONARR_MONITORING_OPTIONS } from '@/types/sonarr/constants'
+import {
+  SONARR_MONITORING_OPTIONS,
+  SONARR_SERIES_TYPE_OPTIONS,
+} from '@/types/sonarr/constants'
 import { useSonarrStore } from '@/stores/sonarrStore'
+import { TagPicker } from '@/components/tag-picker'
+import { InstanceHealthStatus } from '@/components/instance-health-status'
 import { useSonarrConnection } from '@/hooks/sonarr/useSonarrConnection'
 import { useSonarrInstanceForm } from '@/hooks/sonarr/useSonarrForms'
 import { useSonarrInstance } from '@/hooks/sonarr/useSonarrInstance'
@@ -49,6 +54,7 @@ export function InstanceCard({
 
   const instances = useSonarrStore((state) => state.instances)
   const instancesLoading = useSonarrStore((state) => state.instancesLoading)
+  const createTag = useSonarrStore((state) => state.createTag)
   const setLoadingWithMinDuration = useSonarrStore(
     (state) => state.setLoadingWithMinDuration,
   )
@@ -178,6 +184,10 @@ export function InstanceCard({
             }
           />
           <CardContent>
+            <InstanceHealthStatus
+              instanceType="sonarr"
+              instanceId={instance.id}
+            />
             <Form {...form}>
               <form onSubmit={handleSave} className="space-y-8">
                 <ConnectionSettings
@@ -310,6 +320,132 @@ export function InstanceCard({
                     )}
                   />
                 </div>
+
+                {/* Add Options */}
+                <div className="grid lg:grid-cols-3 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="seriesType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Series Type</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          disabled={!isConnectionValid}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select series type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(SONARR_SERIES_TYPE_OPTIONS).map(
+                              ([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ),
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="seasonFolder"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Season Folder
+                        </FormLabel>
+                        <div className="flex h-10 items-center gap-2 px-3 py-2">
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={!isConnectionValid}
+                            />
+                          </FormControl>
+                          <span className="text-sm text-text text-muted-foreground">
+                            Sort episodes into season folders
+                          </span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="searchOnAdd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">
+                          Search on Add
+                        </FormLabel>
+                        <div className="flex h-10 items-center gap-2 px-3 py-2">
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={!isConnectionValid}
+                            />
+                          </FormControl>
+                          <span className="text-sm text-text text-muted-foreground">
+                            Search for missing episodes when added
+                          </span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Tags */}
+                <div className="grid lg:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">Tags</FormLabel>
+                        <TagPicker
+                          value={field.value}
+                          onChange={field.onChange}
+                          tags={
+                            instances.find((inst) => inst.id === instance.id)
+                              ?.data?.tags ?? []
+                          }
+                          onCreate={(label) => createTag(instance.id, label)}
+                          disabled={!isConnectionValid || instance.id === -1}
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="userTags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-text">User Tags</FormLabel>
+                        <div className="flex h-10 items-center gap-2 px-3 py-2">
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={!isConnectionValid}
+                            />
+                          </FormControl>
+                          <span className="text-sm text-text text-muted-foreground">
+                            Tag items with pulsarr-user-&lt;name&gt; for each
+                            watchlisting user
+                          </span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </form>
             </Form>
           </CardContent>
@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { Loader2, Plus, Tag as TagIcon } from 'lucide-react'
+import { MultiSelect } from '@/components/multi-select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useToast } from '@/hooks/use-toast'
+import type { Tag } from '@root/types/sonarr.types'
+
+interface TagPickerProps {
+  value: string[]
+  onChange: (labels: string[]) => void
+  tags: Tag[]
+  onCreate: (label: string) => Promise<Tag>
+  placeholder?: string
+  disabled?: boolean
+}
+
+// Sonarr and Radarr only accept lowercase letters, digits and dashes
+const normalizeLabel = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+
+export function TagPicker({
+  value,
+  onChange,
+  tags,
+  onCreate,
+  placeholder = 'Select tags',
+  disabled = false,
+}: TagPickerProps) {
+  const { toast } = useToast()
+  const [newLabel, setNewLabel] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [version, setVersion] = useState(0)
+
+  // Older configurations stored raw tag IDs, show those by label
+  const selected = value.map((tag) =>
+    /^\d+$/.test(tag)
+      ? (tags.find((existing) => existing.id === Number(tag))?.label ?? tag)
+      : tag,
+  )
+
+  // Saved labels the instance does not have yet still need an option
+  const options = [
+    ...new Set([...tags.map((tag) => tag.label), ...selected]),
+  ].map((label) => ({ value: label, label, icon: TagIcon }))
+
+  const handleCreate = async () => {
+    const label = normalizeLabel(newLabel)
+    if (!label) return
+
+    setIsCreating(true)
+    try {
+      const tag = await onCreate(label)
+      if (!selected.includes(tag.label)) {
+        onChange([...selected, tag.label])
+      }
+      setNewLabel('')
+      // The multi select only reads its value on mount
+      setVersion((current) => current + 1)
+    } catch {
+      toast({
+        title: 'Tag Creation Failed',
+        description: `Failed to create tag "${label}"`,
+        variant: 'destructive',
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <MultiSelect
+        key={`${version}-${tags.length}`}
+        options={options}
+        onValueChange={onChange}
+        defaultValue={selected}
+        placeholder={placeholder}
+        variant="default"
+        maxCount={2}
+        disabled={disabled}
+      />
+      <div className="flex gap-2">
+        <Input
+          value={newLabel}
+          placeholder="New tag"
+          disabled={disabled || isCreating}
+          onChange={(event) => setNewLabel(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault()
+              handleCreate()
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="noShadow"
+          size="icon"
+          disabled={disabled || isCreating || !normalizeLabel(newLabel)}
+          onClick={handleCreate}
+        >
+          {isCreating ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -12,11 +12,13 @@ export function WatchlistStatusBadge() {
   const [actionStatus, setActionStatus] = useState<'idle' | 'loading'>('idle')
   const [currentAction, setCurrentAction] = useState<'start' | 'stop' | null>(null)
   const [lastStableStatus, setLastStableStatus] = useState<string>(status)
+  // A paused workflow still holds its RSS snapshots, so it is stopped like a running one
+  const isActive = status === 'running' || status === 'paused'
   
   // Track transitions between stable and transitional states
   useEffect(() => {
     // If we're in a stable state, update the last stable state
-    if (status === 'running' || status === 'stopped') {
+    if (status === 'running' || status === 'stopped' || status === 'paused') {
       setLastStableStatus(status)
       
       // If we were in a loading state and now reached a stable state,
@@ -35,6 +37,8 @@ export function WatchlistStatusBadge() {
         return 'bg-yellow-500 hover:bg-yellow-500 text-white'
       case 'stopping':
         return 'bg-orange-500 hover:bg-orange-500 text-white'
+      case 'paused':
+        return 'bg-blue-500 hover:bg-blue-500 text-white'
       case 'stopped':
         return 'bg-red-500 hover:bg-red-500 text-white'
       default:
@@ -45,7 +49,7 @@ export function WatchlistStatusBadge() {
   const handleToggle = async () => {
     setActionStatus('loading')
     
-    if (status === 'running') {
+    if (isActive) {
       setCurrentAction('stop')
     } else {
       setCurrentAction('start')
@@ -54,7 +58,7 @@ export function WatchlistStatusBadge() {
     try {
       const minimumLoadingTime = new Promise(resolve => setTimeout(resolve, 500))
       
-      if (status === 'running') {
+      if (isActive) {
         const response = await fetch('/v1/watchlist-workflow/stop', { method: 'POST' })
         await minimumLoadingTime
         
@@ -89,7 +93,7 @@ export function WatchlistStatusBadge() {
       setActionStatus('idle')
       
       // Error toast
-      if (status !== 'running') {
+      if (!isActive) {
         toast({
           description: 'Failed to start Watchlist workflow. Please check your configuration.',
           variant: 'destructive',
@@ -132,7 +136,7 @@ export function WatchlistStatusBadge() {
             <Loader2 className="h-4 w-4 animate-spin mr-1" />
             <span>{currentAction === 'stop' ? 'Stopping...' : 'Starting...'}</span>
           </>
-        ) : status === 'running' ? (
+        ) : isActive ? (
           <>
             <Square className="h-4 w-4 mr-1 fill-red-500 text-red-500" />
             <span>Stop</span>
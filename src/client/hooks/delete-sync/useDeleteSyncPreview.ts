@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type { DeleteSyncPreview } from '@root/types/delete-sync.types'
+
+interface DeleteSyncPreviewResponse {
+  success: boolean
+  message: string
+  preview: DeleteSyncPreview
+}
+
+export function useDeleteSyncPreview() {
+  const [preview, setPreview] = useState<DeleteSyncPreview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const fetchPreview = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/v1/delete-sync/preview')
+      if (!response.ok) {
+        throw new Error('Failed to generate deletion preview')
+      }
+      const data: DeleteSyncPreviewResponse = await response.json()
+      setPreview(data.preview)
+    } catch (error) {
+      toast({
+        title: 'Preview Failed',
+        description:
+          error instanceof Error ? error.message : 'Failed to generate deletion preview',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  return {
+    preview,
+    isLoading,
+    fetchPreview,
+  }
+}
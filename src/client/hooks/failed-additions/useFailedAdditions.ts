@@ -0,0 +1,105 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type { FailedAddition } from '@root/types/failed-addition.types'
+
+interface FailedAdditionsResponse {
+  success: boolean
+  items: FailedAddition[]
+}
+
+interface RetryFailedAdditionResponse {
+  success: boolean
+  message: string
+  item: FailedAddition | null
+}
+
+export function useFailedAdditions() {
+  const [items, setItems] = useState<FailedAddition[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingId, setPendingId] = useState<number | null>(null)
+  const { toast } = useToast()
+
+  const fetchItems = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/v1/failed-additions/items')
+      if (!response.ok) {
+        throw new Error('Failed to fetch failed additions')
+      }
+      const data: FailedAdditionsResponse = await response.json()
+      setItems(data.items)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to fetch failed additions',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  const retryItem = useCallback(async (id: number) => {
+    setPendingId(id)
+    try {
+      const response = await fetch(`/v1/failed-additions/items/${id}/retry`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to retry addition')
+      }
+      const data: RetryFailedAdditionResponse = await response.json()
+      toast({
+        title: data.success ? 'Retry Succeeded' : 'Retry Failed',
+        description: data.message,
+        variant: data.success ? 'default' : 'destructive',
+      })
+      await fetchItems()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to retry addition',
+        variant: 'destructive',
+      })
+    } finally {
+      setPendingId(null)
+    }
+  }, [toast, fetchItems])
+
+  const dismissItem = useCallback(async (id: number) => {
+    setPendingId(id)
+    try {
+      const response = await fetch(`/v1/failed-additions/items/${id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to dismiss addition')
+      }
+      setItems(current => current.filter(item => item.id !== id))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to dismiss addition',
+        variant: 'destructive',
+      })
+    } finally {
+      setPendingId(null)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  return {
+    items,
+    isLoading,
+    pendingId,
+    fetchItems,
+    retryItem,
+    dismissItem,
+  }
+}
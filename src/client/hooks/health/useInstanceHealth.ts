@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react'
+import type { InstanceHealth } from '@root/types/instance-health.types'
+
+interface InstanceHealthResponse {
+  success: boolean
+  instance: InstanceHealth
+}
+
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+/**
+ * Health of one instance, refreshed on the server's check interval. Unsaved
+ * instances (negative IDs) are not fetched.
+ */
+export function useInstanceHealth(
+  instanceType: 'sonarr' | 'radarr',
+  instanceId: number,
+) {
+  const [health, setHealth] = useState<InstanceHealth | null>(null)
+
+  useEffect(() => {
+    if (instanceId < 0) {
+      setHealth(null)
+      return
+    }
+
+    let cancelled = false
+    const fetchHealth = async () => {
+      try {
+        const response = await fetch(
+          `/v1/health/instances/${instanceType}/${instanceId}`,
+        )
+        if (!response.ok) {
+          return
+        }
+        const data: InstanceHealthResponse = await response.json()
+        if (!cancelled) {
+          setHealth(data.instance)
+        }
+      } catch (error) {
+        console.error('Failed to fetch instance health:', error)
+      }
+    }
+
+    fetchHealth()
+    const interval = setInterval(fetchHealth, REFRESH_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [instanceType, instanceId])
+
+  return health
+}
@@ -26,7 +26,11 @@ export function useRadarrInstanceForm({
       qualityProfile: instance.qualityProfile || '',
       rootFolder: instance.rootFolder || '',
       bypassIgnored: instance.bypassIgnored,
+      minimumAvailability: instance.minimumAvailability,
+      monitor: instance.monitor,
+      searchOnAdd: instance.searchOnAdd,
       tags: instance.tags,
+      userTags: instance.userTags,
       isDefault: isNew 
         ? instances.length === 1 && instances[0].apiKey === API_KEY_PLACEHOLDER
         : instance.isDefault,
@@ -50,7 +54,11 @@ export function useRadarrInstanceForm({
       qualityProfile: instance.qualityProfile || '',
       rootFolder: instance.rootFolder || '',
       bypassIgnored: instance.bypassIgnored,
+      minimumAvailability: instance.minimumAvailability,
+      monitor: instance.monitor,
+      searchOnAdd: instance.searchOnAdd,
       tags: instance.tags,
+      userTags: instance.userTags,
       isDefault: instance.isDefault,
       syncedInstances: instance.syncedInstances || [],
     })
@@ -116,7 +124,11 @@ export function useRadarrInstanceForm({
         qualityProfile: instance.qualityProfile || '',
         rootFolder: instance.rootFolder || '',
         bypassIgnored: instance.bypassIgnored,
+        minimumAvailability: instance.minimumAvailability,
+        monitor: instance.monitor,
+        searchOnAdd: instance.searchOnAdd,
         tags: instance.tags,
+        userTags: instance.userTags,
         isDefault: instance.isDefault,
         syncedInstances: instance.syncedInstances || [],
       })
@@ -27,6 +27,9 @@ const useRadarrGenreForm = ({
         radarrInstanceId: route.radarrInstanceId,
         rootFolder: route.rootFolder,
         qualityProfile: route.qualityProfile?.toString() || '',
+        minimumAvailability: route.minimumAvailability ?? null,
+        monitor: route.monitor ?? null,
+        searchOnAdd: route.searchOnAdd ?? null,
       },
       mode: 'all'
     })
@@ -38,6 +41,9 @@ const useRadarrGenreForm = ({
         radarrInstanceId: route.radarrInstanceId,
         rootFolder: route.rootFolder,
         qualityProfile: route.qualityProfile?.toString() || '',
+        minimumAvailability: route.minimumAvailability ?? null,
+        monitor: route.monitor ?? null,
+        searchOnAdd: route.searchOnAdd ?? null,
       })
 
     }, [form, route])
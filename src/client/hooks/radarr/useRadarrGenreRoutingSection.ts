@@ -33,6 +33,9 @@ export function useRadarrGenreRoutingSection() {
         genre: '',
         rootFolder: '',
         qualityProfile: '',
+        minimumAvailability: null,
+        monitor: null,
+        searchOnAdd: null,
       },
     ])
   }, [instances])
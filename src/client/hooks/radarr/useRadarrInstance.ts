@@ -48,7 +48,11 @@ export function useRadarrInstance(instanceId: number) {
           qualityProfile: '',
           rootFolder: '',
           bypassIgnored: false,
+          minimumAvailability: 'released',
+          monitor: 'movieOnly',
+          searchOnAdd: true,
           tags: [],
+          userTags: false,
           isDefault: false,
           syncedInstances: [],
         }
@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type { ConfigHealthReport } from '@root/types/config-health.types'
+
+interface ConfigHealthResponse extends ConfigHealthReport {
+  success: boolean
+  healthy: boolean
+}
+
+export function useConfigHealth() {
+  const [report, setReport] = useState<ConfigHealthResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const loadReport = useCallback(
+    async (revalidate: boolean) => {
+      setIsLoading(true)
+      try {
+        const response = revalidate
+          ? await fetch('/v1/health/config/validate', { method: 'POST' })
+          : await fetch('/v1/health/config')
+        if (!response.ok) {
+          throw new Error('Failed to check configuration health')
+        }
+        const data: ConfigHealthResponse = await response.json()
+        setReport(data)
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description:
+            error instanceof Error
+              ? error.message
+              : 'Failed to check configuration health',
+          variant: 'destructive',
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [toast],
+  )
+
+  const fetchReport = useCallback(() => loadReport(false), [loadReport])
+  const revalidate = useCallback(() => loadReport(true), [loadReport])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return {
+    report,
+    isLoading,
+    fetchReport,
+    revalidate,
+  }
+}
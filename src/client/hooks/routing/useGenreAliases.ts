@@ -0,0 +1,105 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type {
+  GenreAlias,
+  GenreAliasInput,
+} from '@root/types/genre-alias.types'
+
+interface GenreAliasesResponse {
+  success: boolean
+  aliases: GenreAlias[]
+}
+
+interface GenreAliasResponse {
+  success: boolean
+  alias: GenreAlias
+}
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data: { message?: string } = await response.json()
+    return data.message || fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function useGenreAliases() {
+  const [aliases, setAliases] = useState<GenreAlias[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : fallback,
+        variant: 'destructive',
+      })
+    },
+    [toast],
+  )
+
+  const fetchAliases = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/v1/genres/aliases')
+      if (!response.ok) {
+        throw new Error('Failed to fetch genre aliases')
+      }
+      const data: GenreAliasesResponse = await response.json()
+      setAliases(data.aliases)
+    } catch (error) {
+      showError(error, 'Failed to fetch genre aliases')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showError])
+
+  const createAlias = useCallback(async (alias: GenreAliasInput) => {
+    try {
+      const response = await fetch('/v1/genres/aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(alias),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create genre alias'))
+      }
+      const data: GenreAliasResponse = await response.json()
+      setAliases(current =>
+        [...current, data.alias].sort((a, b) => a.alias.localeCompare(b.alias)),
+      )
+      return true
+    } catch (error) {
+      showError(error, 'Failed to create genre alias')
+      return false
+    }
+  }, [showError])
+
+  const deleteAlias = useCallback(async (id: number) => {
+    try {
+      const response = await fetch(`/v1/genres/aliases/${id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete genre alias')
+      }
+      setAliases(current => current.filter(alias => alias.id !== id))
+    } catch (error) {
+      showError(error, 'Failed to delete genre alias')
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchAliases()
+  }, [fetchAliases])
+
+  return {
+    aliases,
+    isLoading,
+    fetchAliases,
+    createAlias,
+    deleteAlias,
+  }
+}
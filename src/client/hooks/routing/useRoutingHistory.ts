@@ -0,0 +1,79 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type {
+  RoutedItemSummary,
+  RoutingHistoryEntry,
+} from '@root/types/routing-history.types'
+
+interface RecentlyRoutedResponse {
+  success: boolean
+  items: RoutedItemSummary[]
+}
+
+interface RoutingHistoryResponse {
+  success: boolean
+  history: RoutingHistoryEntry[]
+}
+
+export function useRoutingHistory() {
+  const [items, setItems] = useState<RoutedItemSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : fallback,
+        variant: 'destructive',
+      })
+    },
+    [toast],
+  )
+
+  const fetchItems = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/v1/routing/history')
+      if (!response.ok) {
+        throw new Error('Failed to fetch routing history')
+      }
+      const data: RecentlyRoutedResponse = await response.json()
+      setItems(data.items)
+    } catch (error) {
+      showError(error, 'Failed to fetch routing history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showError])
+
+  const fetchItemHistory = useCallback(
+    async (guid: string): Promise<RoutingHistoryEntry[]> => {
+      try {
+        const response = await fetch(
+          `/v1/routing/history/${encodeURIComponent(guid)}`,
+        )
+        if (!response.ok) {
+          throw new Error('Failed to fetch item routing history')
+        }
+        const data: RoutingHistoryResponse = await response.json()
+        return data.history
+      } catch (error) {
+        showError(error, 'Failed to fetch item routing history')
+        return []
+      }
+    },
+    [showError],
+  )
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  return {
+    items,
+    isLoading,
+    fetchItems,
+    fetchItemHistory,
+  }
+}
@@ -0,0 +1,154 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type {
+  RoutingRule,
+  RoutingRuleInput,
+} from '@root/types/routing-rule.types'
+
+interface RoutingRulesResponse {
+  success: boolean
+  rules: RoutingRule[]
+}
+
+interface RoutingRuleResponse {
+  success: boolean
+  rule: RoutingRule
+}
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data: { message?: string } = await response.json()
+    return data.message || fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function useRoutingRules() {
+  const [rules, setRules] = useState<RoutingRule[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const sortRules = (list: RoutingRule[]) =>
+    [...list].sort((a, b) => a.priority - b.priority || a.id - b.id)
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/v1/routing-rules/rules')
+      if (!response.ok) {
+        throw new Error('Failed to fetch routing rules')
+      }
+      const data: RoutingRulesResponse = await response.json()
+      setRules(data.rules)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to fetch routing rules',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  const createRule = useCallback(async (rule: RoutingRuleInput) => {
+    try {
+      const response = await fetch('/v1/routing-rules/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+      })
+      if (!response.ok) {
+        throw new Error(
+          await readError(response, 'Failed to create routing rule'),
+        )
+      }
+      const data: RoutingRuleResponse = await response.json()
+      setRules(current => sortRules([...current, data.rule]))
+      toast({
+        title: 'Rule Created',
+        description: `Routing rule "${data.rule.name}" created`,
+      })
+      return true
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to create routing rule',
+        variant: 'destructive',
+      })
+      return false
+    }
+  }, [toast])
+
+  const updateRule = useCallback(
+    async (id: number, updates: Partial<RoutingRuleInput>) => {
+      try {
+        const response = await fetch(`/v1/routing-rules/rules/${id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        })
+        if (!response.ok) {
+          throw new Error(
+            await readError(response, 'Failed to update routing rule'),
+          )
+        }
+        const data: RoutingRuleResponse = await response.json()
+        setRules(current =>
+          sortRules(current.map(rule => (rule.id === id ? data.rule : rule))),
+        )
+        toast({
+          title: 'Rule Updated',
+          description: `Routing rule "${data.rule.name}" saved`,
+        })
+        return true
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update routing rule',
+          variant: 'destructive',
+        })
+        return false
+      }
+    },
+    [toast],
+  )
+
+  const deleteRule = useCallback(async (id: number) => {
+    try {
+      const response = await fetch(`/v1/routing-rules/rules/${id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete routing rule')
+      }
+      setRules(current => current.filter(rule => rule.id !== id))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to delete routing rule',
+        variant: 'destructive',
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  return {
+    rules,
+    isLoading,
+    fetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+  }
+}
@@ -0,0 +1,128 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useToast } from '@/hooks/use-toast'
+import type {
+  UserRoute,
+  UserRouteInput,
+} from '@root/types/user-routing.types'
+
+interface UserRoutesResponse {
+  success: boolean
+  routes: UserRoute[]
+}
+
+interface UserRouteResponse {
+  success: boolean
+  route: UserRoute
+}
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data: { message?: string } = await response.json()
+    return data.message || fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function useUserRoutes() {
+  const [routes, setRoutes] = useState<UserRoute[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : fallback,
+        variant: 'destructive',
+      })
+    },
+    [toast],
+  )
+
+  const fetchRoutes = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/v1/user-routing/routes')
+      if (!response.ok) {
+        throw new Error('Failed to fetch user routes')
+      }
+      const data: UserRoutesResponse = await response.json()
+      setRoutes(data.routes)
+    } catch (error) {
+      showError(error, 'Failed to fetch user routes')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showError])
+
+  const createRoute = useCallback(async (route: UserRouteInput) => {
+    try {
+      const response = await fetch('/v1/user-routing/routes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(route),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create user route'))
+      }
+      const data: UserRouteResponse = await response.json()
+      setRoutes(current => [...current, data.route])
+      return true
+    } catch (error) {
+      showError(error, 'Failed to create user route')
+      return false
+    }
+  }, [showError])
+
+  const updateRoute = useCallback(
+    async (id: number, updates: Partial<UserRouteInput>) => {
+      try {
+        const response = await fetch(`/v1/user-routing/routes/${id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        })
+        if (!response.ok) {
+          throw new Error(
+            await readError(response, 'Failed to update user route'),
+          )
+        }
+        const data: UserRouteResponse = await response.json()
+        setRoutes(current =>
+          current.map(route => (route.id === id ? data.route : route)),
+        )
+      } catch (error) {
+        showError(error, 'Failed to update user route')
+      }
+    },
+    [showError],
+  )
+
+  const deleteRoute = useCallback(async (id: number) => {
+    try {
+      const response = await fetch(`/v1/user-routing/routes/${id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete user route')
+      }
+      setRoutes(current => current.filter(route => route.id !== id))
+    } catch (error) {
+      showError(error, 'Failed to delete user route')
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchRoutes()
+  }, [fetchRoutes])
+
+  return {
+    routes,
+    isLoading,
+    fetchRoutes,
+    createRoute,
+    updateRoute,
+    deleteRoute,
+  }
+}
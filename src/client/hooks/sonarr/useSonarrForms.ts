@@ -28,7 +28,11 @@ export function useSonarrInstanceForm({
       rootFolder: instance.rootFolder || '',
       bypassIgnored: instance.bypassIgnored,
       seasonMonitoring: instance.seasonMonitoring as SonarrMonitoringType,
+      seriesType: instance.seriesType,
+      seasonFolder: instance.seasonFolder,
+      searchOnAdd: instance.searchOnAdd,
       tags: instance.tags,
+      userTags: instance.userTags,
       isDefault: isNew 
         ? instances.length === 1 && instances[0].apiKey === API_KEY_PLACEHOLDER
         : instance.isDefault,
@@ -53,7 +57,11 @@ export function useSonarrInstanceForm({
       rootFolder: instance.rootFolder || '',
       bypassIgnored: instance.bypassIgnored,
       seasonMonitoring: instance.seasonMonitoring as SonarrMonitoringType,
+      seriesType: instance.seriesType,
+      seasonFolder: instance.seasonFolder,
+      searchOnAdd: instance.searchOnAdd,
       tags: instance.tags,
+      userTags: instance.userTags,
       isDefault: instance.isDefault,
       syncedInstances: instance.syncedInstances || [],
     })
@@ -120,7 +128,11 @@ export function useSonarrInstanceForm({
         rootFolder: instance.rootFolder || '',
         bypassIgnored: instance.bypassIgnored,
         seasonMonitoring: instance.seasonMonitoring as SonarrMonitoringType,
+        seriesType: instance.seriesType,
+        seasonFolder: instance.seasonFolder,
+        searchOnAdd: instance.searchOnAdd,
         tags: instance.tags,
+        userTags: instance.userTags,
         isDefault: instance.isDefault,
         syncedInstances: instance.syncedInstances || [],
       })
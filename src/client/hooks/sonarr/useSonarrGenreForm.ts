@@ -27,6 +27,10 @@ const useSonarrGenreForm = ({
       sonarrInstanceId: route.sonarrInstanceId,
       rootFolder: route.rootFolder,
       qualityProfile: route.qualityProfile?.toString() || '', 
+      seasonMonitoring: route.seasonMonitoring ?? null,
+      seriesType: route.seriesType ?? null,
+      seasonFolder: route.seasonFolder ?? null,
+      searchOnAdd: route.searchOnAdd ?? null,
     },
     mode: 'all'
   })
@@ -38,6 +42,10 @@ const useSonarrGenreForm = ({
       sonarrInstanceId: route.sonarrInstanceId,
       rootFolder: route.rootFolder,
       qualityProfile: route.qualityProfile?.toString() || '', 
+      seasonMonitoring: route.seasonMonitoring ?? null,
+      seriesType: route.seriesType ?? null,
+      seasonFolder: route.seasonFolder ?? null,
+      searchOnAdd: route.searchOnAdd ?? null,
     })
 
   }, [form, route])
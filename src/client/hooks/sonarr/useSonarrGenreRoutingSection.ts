@@ -33,6 +33,10 @@ export function useSonarrGenreRoutingSection() {
         genre: '',
         rootFolder: '',
         qualityProfile: '',
+        seasonMonitoring: null,
+        seriesType: null,
+        seasonFolder: null,
+        searchOnAdd: null,
       },
     ])
   }, [instances])
@@ -37,7 +37,11 @@ export function useSonarrInstance(instanceId: number) {
           rootFolder: '',
           bypassIgnored: false,
           seasonMonitoring: 'all',
+          seriesType: 'standard',
+          seasonFolder: true,
+          searchOnAdd: true,
           tags: [],
+          userTags: false,
           isDefault: false,
           syncedInstances: [],
         }
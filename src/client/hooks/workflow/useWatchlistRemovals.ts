@@ -0,0 +1,27 @@
+import { useEffect, useCallback } from 'react'
+import { useProgressStore } from '@/stores/progressStore'
+import { useToast } from '@/hooks/use-toast'
+import type { ProgressEvent } from '@root/types/progress.types'
+
+const ACTION_DESCRIPTIONS: Record<string, string> = {
+  none: 'No action was taken.',
+  unmonitor: 'It has been unmonitored.',
+  delete: 'It has been scheduled for deletion.',
+}
+
+export function useWatchlistRemovals() {
+  const { toast } = useToast()
+  const subscribeToType = useProgressStore(state => state.subscribeToType)
+
+  const handleEvent = useCallback((event: ProgressEvent) => {
+    toast({
+      title: event.message,
+      description: ACTION_DESCRIPTIONS[event.phase] ?? '',
+    })
+  }, [toast])
+
+  useEffect(() => {
+    const unsubscribe = subscribeToType('watchlist-removal', handleEvent)
+    return () => unsubscribe()
+  }, [subscribeToType, handleEvent])
+}
@@ -10,10 +10,14 @@ import {
 } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { WatchlistStatusBadge } from '@/components/ui/workflow-status-badge'
+import { DeleteSyncPreviewPanel } from '@/components/delete-sync/delete-sync-preview'
+import { FailedAdditionsPanel } from '@/components/failed-additions/failed-additions-panel'
+import { useWatchlistRemovals } from '@/hooks/workflow/useWatchlistRemovals'
 
 export function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [lastRefreshed, setLastRefreshed] = useState(new Date())
+  useWatchlistRemovals()
 
   // Placeholder for API data loading
   useEffect(() => {
@@ -118,6 +122,18 @@ export function DashboardPage() {
         </div>
       </div>
 
+      {/* Delete Sync Section */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-text mb-4">Delete Sync</h2>
+        <DeleteSyncPreviewPanel />
+      </div>
+
+      {/* Failed Additions Section */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-text mb-4">Failed Additions</h2>
+        <FailedAdditionsPanel />
+      </div>
+
       {/* Active Statistics Section */}
       <div className="mb-8">
         <h2 className="text-2xl font-bold text-text mb-4">Active Statistics</h2>
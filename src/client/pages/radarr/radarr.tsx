@@ -91,7 +91,11 @@ export default function RadarrConfigPage() {
                   baseUrl: 'http://localhost:7878',
                   apiKey: '',
                   bypassIgnored: false,
+                  minimumAvailability: 'released',
+                  monitor: 'movieOnly',
+                  searchOnAdd: true,
                   tags: [],
+                  userTags: false,
                   isDefault: instances.length === 0,
                   qualityProfile: '',
                   rootFolder: '',
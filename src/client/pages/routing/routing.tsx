@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react'
+import { Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { RoutingRuleCard } from '@/components/routing/routing-rule-card'
+import { ConfigHealthPanel } from '@/components/routing/config-health-panel'
+import { DEFAULT_MATCH_CONDITION } from '@/components/routing/routing-condition-editor'
+import { UserRoutingPanel } from '@/components/routing/user-routing-panel'
+import { GenreAliasesPanel } from '@/components/routing/genre-aliases-panel'
+import { RoutingHistoryPanel } from '@/components/routing/routing-history-panel'
+import { useRoutingRules } from '@/hooks/routing/useRoutingRules'
+import { useSonarrStore } from '@/stores/sonarrStore'
+import { useRadarrStore } from '@/stores/radarrStore'
+import type { RoutingRuleInput } from '@root/types/routing-rule.types'
+
+export default function RoutingRulesPage() {
+  const { rules, isLoading, createRule, updateRule, deleteRule } =
+    useRoutingRules()
+  const fetchSonarrData = useSonarrStore((state) => state.fetchAllInstanceData)
+  const fetchRadarrData = useRadarrStore((state) => state.fetchAllInstanceData)
+  const hasFetchedRef = useRef(false)
+  const [newRule, setNewRule] = useState<RoutingRuleInput | null>(null)
+
+  useEffect(() => {
+    if (!hasFetchedRef.current) {
+      hasFetchedRef.current = true
+      fetchSonarrData().catch(console.error)
+      fetchRadarrData().catch(console.error)
+    }
+  }, [fetchSonarrData, fetchRadarrData])
+
+  const addRule = () => {
+    const lastPriority = rules.length > 0 ? rules[rules.length - 1].priority : 0
+    setNewRule({
+      name: '',
+      targetType: 'sonarr',
+      instanceId: 0,
+      priority: lastPriority + 10,
+      enabled: true,
+      condition: { type: 'and', conditions: [{ ...DEFAULT_MATCH_CONDITION }] },
+      rootFolder: null,
+      qualityProfile: null,
+      tags: [],
+      seasonMonitoring: null,
+      monitored: true,
+      searchOnAdd: true,
+    })
+  }
+
+  return (
+    <div className="w600:p-[30px] w600:text-lg w400:p-5 w400:text-base p-10 leading-[1.7]">
+      <div className="grid gap-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-text">Routing Rules</h2>
+            <p className="text-sm text-text">
+              Rules are evaluated in priority order and the first match decides
+              where content is added. Items matching no rule fall back to user
+              routes, genre routes and the default instance.
+            </p>
+          </div>
+          <Button
+            onClick={addRule}
+            disabled={newRule !== null}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Rule</span>
+          </Button>
+        </div>
+
+        <ConfigHealthPanel />
+
+        {newRule && (
+          <RoutingRuleCard
+            rule={newRule}
+            isNew
+            onSave={createRule}
+            onCancel={() => setNewRule(null)}
+          />
+        )}
+
+        {!isLoading && rules.length === 0 && !newRule && (
+          <p className="text-sm text-text">No routing rules configured.</p>
+        )}
+
+        {rules.map((rule) => {
+          const { id, createdAt, updatedAt, ...input } = rule
+          return (
+            <RoutingRuleCard
+              key={`${id}-${updatedAt}`}
+              rule={input}
+              onSave={(updates) => updateRule(id, updates)}
+              onDelete={() => deleteRule(id)}
+            />
+          )
+        })}
+
+        <UserRoutingPanel />
+
+        <GenreAliasesPanel />
+
+        <RoutingHistoryPanel />
+      </div>
+    </div>
+  )
+}
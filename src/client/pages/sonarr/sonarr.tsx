@@ -92,7 +92,11 @@ export default function SonarrConfigPage() {
                   apiKey: '',
                   bypassIgnored: false,
                   seasonMonitoring: 'all',
+                  seriesType: 'standard',
+                  seasonFolder: true,
+                  searchOnAdd: true,
                   tags: [],
+                  userTags: false,
                   isDefault: instances.length === 0,
                   qualityProfile: '',
                   rootFolder: '',
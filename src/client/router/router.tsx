@@ -20,6 +20,7 @@ const NotificationsConfigPage = lazy(
   () => import('@/pages/notifications/notifications'),
 )
 const DashboardPage = lazy(() => import('@/pages/dashboard/dashboard'))
+const RoutingRulesPage = lazy(() => import('@/pages/routing/routing'))
 
 // Loading fallback component
 const LoadingFallback = () => null
@@ -91,5 +92,15 @@ export const router = createBrowserRouter([
       </AuthenticatedLayout>
     ),
   },
+  {
+    path: '/app/routing',
+    element: (
+      <AuthenticatedLayout>
+        <Suspense fallback={<LoadingFallback />}>
+          <RoutingRulesPage />
+        </Suspense>
+      </AuthenticatedLayout>
+    ),
+  },
   // Other routes...
 ])
@@ -1,6 +1,12 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
-import type { RootFolder, QualityProfile } from '@root/types/radarr.types'
+import type {
+  RootFolder,
+  QualityProfile,
+  Tag,
+  RadarrMinimumAvailability,
+  RadarrMonitorMode,
+} from '@root/types/radarr.types'
 
 export interface RadarrGenreRoute {
   id: number
@@ -9,6 +15,9 @@ export interface RadarrGenreRoute {
   genre: string
   rootFolder: string
   qualityProfile: string
+  minimumAvailability?: RadarrMinimumAvailability | null
+  monitor?: RadarrMonitorMode | null
+  searchOnAdd?: boolean | null
 }
 
 export interface RadarrInstance {
@@ -19,7 +28,11 @@ export interface RadarrInstance {
   qualityProfile?: string
   rootFolder?: string
   bypassIgnored: boolean
+  minimumAvailability: RadarrMinimumAvailability
+  monitor: RadarrMonitorMode
+  searchOnAdd: boolean
   tags: string[]
+  userTags: boolean
   isDefault: boolean
   syncedInstances?: number[]
   data?: RadarrInstanceData
@@ -28,6 +41,7 @@ export interface RadarrInstance {
 export interface RadarrInstanceData {
   rootFolders?: RootFolder[]
   qualityProfiles?: QualityProfile[]
+  tags?: Tag[]
   fetching?: boolean
 }
 
@@ -57,6 +71,7 @@ export interface RadarrState {
     updates: Partial<RadarrInstance>,
   ) => Promise<void>
   deleteInstance: (id: number) => Promise<void>
+  createTag: (instanceId: number, label: string) => Promise<Tag>
 
   // Genre operations
   fetchGenres: () => Promise<void>
@@ -142,24 +157,32 @@ export const useRadarrStore = create<RadarrState>()(
 
       if (
         existingInstance?.data?.rootFolders &&
-        existingInstance?.data?.qualityProfiles
+        existingInstance?.data?.qualityProfiles &&
+        existingInstance?.data?.tags
       ) {
         return
       }
 
       state.setLoadingWithMinDuration(true)
       try {
-        const [foldersResponse, profilesResponse] = await Promise.all([
-          fetch(`/v1/radarr/root-folders?instanceId=${instanceId}`),
-          fetch(`/v1/radarr/quality-profiles?instanceId=${instanceId}`),
-        ])
+        const [foldersResponse, profilesResponse, tagsResponse] =
+          await Promise.all([
+            fetch(`/v1/radarr/root-folders?instanceId=${instanceId}`),
+            fetch(`/v1/radarr/quality-profiles?instanceId=${instanceId}`),
+            fetch(`/v1/radarr/tags?instanceId=${instanceId}`),
+          ])
 
-        const [foldersData, profilesData] = await Promise.all([
+        const [foldersData, profilesData, tagsData] = await Promise.all([
           foldersResponse.json(),
           profilesResponse.json(),
+          tagsResponse.json(),
         ])
 
-        if (!foldersData.success || !profilesData.success) {
+        if (
+          !foldersData.success ||
+          !profilesData.success ||
+          !tagsData.success
+        ) {
           throw new Error('Failed to fetch instance data')
         }
 
@@ -171,6 +194,7 @@ export const useRadarrStore = create<RadarrState>()(
                 data: {
                   rootFolders: foldersData.rootFolders,
                   qualityProfiles: profilesData.qualityProfiles,
+                  tags: tagsData.tags,
                 },
               }
             }
@@ -311,6 +335,44 @@ export const useRadarrStore = create<RadarrState>()(
       }
     },
 
+    createTag: async (instanceId, label) => {
+      try {
+        const response = await fetch('/v1/radarr/tags', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ instanceId, label }),
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to create tag')
+        }
+
+        const { tag }: { tag: Tag } = await response.json()
+        set((state) => ({
+          instances: state.instances.map((instance) =>
+            instance.id === instanceId && instance.data
+              ? {
+                  ...instance,
+                  data: {
+                    ...instance.data,
+                    tags: [
+                      ...(instance.data.tags ?? []).filter(
+                        (existing) => existing.id !== tag.id,
+                      ),
+                      tag,
+                    ],
+                  },
+                }
+              : instance,
+          ),
+        }))
+        return tag
+      } catch (error) {
+        console.error('Failed to create tag:', error)
+        throw error
+      }
+    },
+
     fetchGenreRoutes: async () => {
       try {
         const response = await fetch('/v1/radarr/genre-routes')
@@ -1,7 +1,13 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 //import type { SonarrInstance, SonarrGenreRoute } from '@/types/sonarr.types'
-import type { RootFolder, QualityProfile } from '@root/types/sonarr.types'
+import type {
+  RootFolder,
+  QualityProfile,
+  Tag,
+  SonarrRouteMonitoring,
+  SonarrSeriesType,
+} from '@root/types/sonarr.types'
 
 export interface SonarrGenreRoute {
   id: number
@@ -10,6 +16,10 @@ export interface SonarrGenreRoute {
   genre: string
   rootFolder: string
   qualityProfile: string
+  seasonMonitoring?: SonarrRouteMonitoring | null
+  seriesType?: SonarrSeriesType | null
+  seasonFolder?: boolean | null
+  searchOnAdd?: boolean | null
 }
 
 export interface SonarrInstance {
@@ -21,7 +31,11 @@ export interface SonarrInstance {
   rootFolder?: string
   bypassIgnored: boolean
   seasonMonitoring: string
+  seriesType: SonarrSeriesType
+  seasonFolder: boolean
+  searchOnAdd: boolean
   tags: string[]
+  userTags: boolean
   isDefault: boolean
   syncedInstances?: number[]
   data?: SonarrInstanceData
@@ -30,6 +44,7 @@ export interface SonarrInstance {
 export interface SonarrInstanceData {
   rootFolders?: RootFolder[]
   qualityProfiles?: QualityProfile[]
+  tags?: Tag[]
   fetching?: boolean
 }
 
@@ -59,6 +74,7 @@ export interface SonarrState {
     updates: Partial<SonarrInstance>,
   ) => Promise<void>
   deleteInstance: (id: number) => Promise<void>
+  createTag: (instanceId: number, label: string) => Promise<Tag>
 
   // Genre operations
   fetchGenres: () => Promise<void>
@@ -144,24 +160,32 @@ export const useSonarrStore = create<SonarrState>()(
 
       if (
         existingInstance?.data?.rootFolders &&
-        existingInstance?.data?.qualityProfiles
+        existingInstance?.data?.qualityProfiles &&
+        existingInstance?.data?.tags
       ) {
         return
       }
 
       state.setLoadingWithMinDuration(true)
       try {
-        const [foldersResponse, profilesResponse] = await Promise.all([
-          fetch(`/v1/sonarr/root-folders?instanceId=${instanceId}`),
-          fetch(`/v1/sonarr/quality-profiles?instanceId=${instanceId}`),
-        ])
+        const [foldersResponse, profilesResponse, tagsResponse] =
+          await Promise.all([
+            fetch(`/v1/sonarr/root-folders?instanceId=${instanceId}`),
+            fetch(`/v1/sonarr/quality-profiles?instanceId=${instanceId}`),
+            fetch(`/v1/sonarr/tags?instanceId=${instanceId}`),
+          ])
 
-        const [foldersData, profilesData] = await Promise.all([
+        const [foldersData, profilesData, tagsData] = await Promise.all([
           foldersResponse.json(),
           profilesResponse.json(),
+          tagsResponse.json(),
         ])
 
-        if (!foldersData.success || !profilesData.success) {
+        if (
+          !foldersData.success ||
+          !profilesData.success ||
+          !tagsData.success
+        ) {
           throw new Error('Failed to fetch instance data')
         }
 
@@ -173,6 +197,7 @@ export const useSonarrStore = create<SonarrState>()(
                 data: {
                   rootFolders: foldersData.rootFolders,
                   qualityProfiles: profilesData.qualityProfiles,
+                  tags: tagsData.tags,
                 },
               }
             }
@@ -314,6 +339,44 @@ export const useSonarrStore = create<SonarrState>()(
       }
     },
 
+    createTag: async (instanceId, label) => {
+      try {
+        const response = await fetch('/v1/sonarr/tags', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ instanceId, label }),
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to create tag')
+        }
+
+        const { tag }: { tag: Tag } = await response.json()
+        set((state) => ({
+          instances: state.instances.map((instance) =>
+            instance.id === instanceId && instance.data
+              ? {
+                  ...instance,
+                  data: {
+                    ...instance.data,
+                    tags: [
+                      ...(instance.data.tags ?? []).filter(
+                        (existing) => existing.id !== tag.id,
+                      ),
+                      tag,
+                    ],
+                  },
+                }
+              : instance,
+          ),
+        }))
+        return tag
+      } catch (error) {
+        console.error('Failed to create tag:', error)
+        throw error
+      }
+    },
+
     fetchGenreRoutes: async () => {
       try {
         const response = await fetch('/v1/sonarr/genre-routes')
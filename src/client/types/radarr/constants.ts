@@ -1 +1,21 @@
+import type {
+  RadarrMinimumAvailability,
+  RadarrMonitorMode,
+} from '@root/types/radarr.types'
+
+export const RADARR_MINIMUM_AVAILABILITY_OPTIONS: Record<
+  RadarrMinimumAvailability,
+  string
+> = {
+  announced: 'Announced',
+  inCinemas: 'In Cinemas',
+  released: 'Released',
+}
+
+export const RADARR_MONITOR_OPTIONS: Record<RadarrMonitorMode, string> = {
+  movieOnly: 'Movie Only',
+  movieAndCollection: 'Movie and Collection',
+  none: 'None',
+}
+
 export const API_KEY_PLACEHOLDER = 'placeholder'
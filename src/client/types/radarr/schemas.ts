@@ -5,7 +5,11 @@ export const baseInstanceSchema = z.object({
   baseUrl: z.string().url({ message: 'Please enter a valid URL' }),
   apiKey: z.string().min(1, { message: 'API Key is required' }),
   bypassIgnored: z.boolean(),
+  minimumAvailability: z.enum(['announced', 'inCinemas', 'released']),
+  monitor: z.enum(['movieOnly', 'movieAndCollection', 'none']),
+  searchOnAdd: z.boolean(),
   tags: z.array(z.string()),
+  userTags: z.boolean(),
   isDefault: z.boolean(),
   syncedInstances: z.array(z.number()).optional(),
 })
@@ -38,6 +42,11 @@ export const genreRouteSchema = z.object({
   qualityProfile: z.string().min(1, {
     message: 'Quality Profile is required',
   }),
+  minimumAvailability: z
+    .enum(['announced', 'inCinemas', 'released'])
+    .nullable(),
+  monitor: z.enum(['movieOnly', 'movieAndCollection', 'none']).nullable(),
+  searchOnAdd: z.boolean().nullable(),
 })
 
 export type GenreRouteFormValues = z.infer<typeof genreRouteSchema>
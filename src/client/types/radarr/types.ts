@@ -1,8 +1,15 @@
-import type { RootFolder, QualityProfile } from '@root/types/radarr.types'
+import type {
+  RootFolder,
+  QualityProfile,
+  Tag,
+  RadarrMinimumAvailability,
+  RadarrMonitorMode,
+} from '@root/types/radarr.types'
 
 export interface RadarrInstanceData {
   rootFolders?: RootFolder[]
   qualityProfiles?: QualityProfile[]
+  tags?: Tag[]
   fetching?: boolean
 }
 
@@ -14,13 +21,23 @@ export interface RadarrInstance {
   qualityProfile?: string
   rootFolder?: string
   bypassIgnored: boolean
+  minimumAvailability: RadarrMinimumAvailability
+  monitor: RadarrMonitorMode
+  searchOnAdd: boolean
   tags: string[]
+  userTags: boolean
   isDefault: boolean
   syncedInstances?: number[]
   data?: RadarrInstanceData
 }
 
-export interface RadarrGenreRoute {
+export interface RadarrGenreRouteOptions {
+  minimumAvailability?: RadarrMinimumAvailability | null
+  monitor?: RadarrMonitorMode | null
+  searchOnAdd?: boolean | null
+}
+
+export interface RadarrGenreRoute extends RadarrGenreRouteOptions {
   id: number
   name: string
   radarrInstanceId: number
@@ -46,7 +63,7 @@ export interface RadarrConnectionValues {
 
 export type ConnectionStatus = 'idle' | 'loading' | 'success' | 'error'
 
-export interface GenreRoute {
+export interface GenreRoute extends RadarrGenreRouteOptions {
   id?: number
   name: string
   genre: string
@@ -55,7 +72,7 @@ export interface GenreRoute {
   qualityProfile: string
 }
 
-export interface TempRoute {
+export interface TempRoute extends RadarrGenreRouteOptions {
   tempId: string
   name: string
   genre: string
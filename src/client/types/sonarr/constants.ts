@@ -1,3 +1,7 @@
+import type {
+  SonarrRouteMonitoring,
+  SonarrSeriesType,
+} from '@root/types/sonarr.types'
 import type { SonarrMonitoringType } from './types'
 
 export const SONARR_MONITORING_OPTIONS: Record<SonarrMonitoringType, string> = {
@@ -17,4 +21,21 @@ export const SONARR_MONITORING_OPTIONS: Record<SonarrMonitoringType, string> = {
   skip: 'Skip',
 }
 
+export const SONARR_ROUTE_MONITORING_OPTIONS: Record<
+  SonarrRouteMonitoring,
+  string
+> = {
+  all: 'All Seasons',
+  future: 'Future Seasons',
+  pilot: 'Pilot Only',
+  firstSeason: 'First Season',
+  latestSeason: 'Latest Season',
+}
+
+export const SONARR_SERIES_TYPE_OPTIONS: Record<SonarrSeriesType, string> = {
+  standard: 'Standard',
+  anime: 'Anime (absolute numbering)',
+  daily: 'Daily (air date numbering)',
+}
+
 export const API_KEY_PLACEHOLDER = 'placeholder'
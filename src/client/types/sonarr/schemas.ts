@@ -10,7 +10,11 @@ export const baseInstanceSchema = z.object({
   seasonMonitoring: z.custom<SonarrMonitoringType>((val) =>
     Object.keys(SONARR_MONITORING_OPTIONS).includes(val as string),
   ),
+  seriesType: z.enum(['standard', 'anime', 'daily']),
+  seasonFolder: z.boolean(),
+  searchOnAdd: z.boolean(),
   tags: z.array(z.string()),
+  userTags: z.boolean(),
   isDefault: z.boolean(),
   syncedInstances: z.array(z.number()).optional(),
 })
@@ -43,6 +47,12 @@ export const genreRouteSchema = z.object({
   qualityProfile: z.string().min(1, {
     message: 'Quality Profile is required',
   }),
+  seasonMonitoring: z
+    .enum(['all', 'future', 'pilot', 'firstSeason', 'latestSeason'])
+    .nullable(),
+  seriesType: z.enum(['standard', 'anime', 'daily']).nullable(),
+  seasonFolder: z.boolean().nullable(),
+  searchOnAdd: z.boolean().nullable(),
 })
 
 export type GenreRouteFormValues = z.infer<typeof genreRouteSchema>
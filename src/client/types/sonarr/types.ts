@@ -1,4 +1,10 @@
-import type { RootFolder, QualityProfile } from '@root/types/sonarr.types'
+import type {
+  RootFolder,
+  QualityProfile,
+  Tag,
+  SonarrRouteMonitoring,
+  SonarrSeriesType,
+} from '@root/types/sonarr.types'
 
 export type SonarrMonitoringType =
   | 'unknown'
@@ -19,6 +25,7 @@ export type SonarrMonitoringType =
 export interface SonarrInstanceData {
   rootFolders?: RootFolder[]
   qualityProfiles?: QualityProfile[]
+  tags?: Tag[]
   fetching?: boolean
 }
 
@@ -31,13 +38,24 @@ export interface SonarrInstance {
   rootFolder?: string
   bypassIgnored: boolean
   seasonMonitoring: string
+  seriesType: SonarrSeriesType
+  seasonFolder: boolean
+  searchOnAdd: boolean
   tags: string[]
+  userTags: boolean
   isDefault: boolean
   syncedInstances?: number[]
   data?: SonarrInstanceData
 }
 
-export interface SonarrGenreRoute {
+export interface SonarrGenreRouteOptions {
+  seasonMonitoring?: SonarrRouteMonitoring | null
+  seriesType?: SonarrSeriesType | null
+  seasonFolder?: boolean | null
+  searchOnAdd?: boolean | null
+}
+
+export interface SonarrGenreRoute extends SonarrGenreRouteOptions {
   id: number
   name: string
   sonarrInstanceId: number
@@ -63,7 +81,7 @@ export interface SonarrConnectionValues {
 
 export type ConnectionStatus = 'idle' | 'loading' | 'success' | 'error'
 
-export interface GenreRoute {
+export interface GenreRoute extends SonarrGenreRouteOptions {
   id?: number
   name: string
   genre: string
@@ -72,7 +90,7 @@ export interface GenreRoute {
   qualityProfile: string
 }
 
-export interface TempRoute {
+export interface TempRoute extends SonarrGenreRouteOptions {
   tempId: string
   name: string
   genre: string
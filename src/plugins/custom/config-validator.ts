@@ -0,0 +1,37 @@
+import fp from 'fastify-plugin'
+import type { FastifyInstance } from 'fastify'
+import { ConfigValidatorService } from '@services/config-validator.service.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    configValidator: ConfigValidatorService
+  }
+}
+
+export default fp(
+  async (fastify: FastifyInstance) => {
+    const service = new ConfigValidatorService(fastify.log, fastify)
+    fastify.decorate('configValidator', service)
+
+    // Validate once the instances are configured, then periodically
+    const startValidation = async () => {
+      try {
+        await fastify.waitForConfig()
+        await service.validate()
+        service.start()
+      } catch (err) {
+        fastify.log.error('Error in configuration validation startup:', err)
+      }
+    }
+
+    setImmediate(startValidation)
+
+    fastify.addHook('onClose', async () => {
+      service.stop()
+    })
+  },
+  {
+    name: 'config-validator',
+    dependencies: ['database', 'config', 'sonarr-manager', 'radarr-manager'],
+  },
+)
@@ -71,7 +71,11 @@ export default fp(
               rootFolder: mergedConfig.sonarrRootFolder,
               bypassIgnored: mergedConfig.sonarrBypassIgnored,
               seasonMonitoring: mergedConfig.sonarrSeasonMonitoring,
+              seriesType: 'standard',
+              seasonFolder: true,
+              searchOnAdd: true,
               tags: mergedConfig.sonarrTags || [],
+              userTags: false,
               isDefault: true,
             })
           }
@@ -89,7 +93,11 @@ export default fp(
               qualityProfile: mergedConfig.radarrQualityProfile,
               rootFolder: mergedConfig.radarrRootFolder,
               bypassIgnored: mergedConfig.radarrBypassIgnored,
+              minimumAvailability: 'released',
+              monitor: 'movieOnly',
+              searchOnAdd: true,
               tags: mergedConfig.radarrTags || [],
+              userTags: false,
               isDefault: true,
             })
           }
@@ -115,7 +123,11 @@ export default fp(
               rootFolder: initialConfig.sonarrRootFolder,
               bypassIgnored: initialConfig.sonarrBypassIgnored,
               seasonMonitoring: initialConfig.sonarrSeasonMonitoring,
+              seriesType: 'standard',
+              seasonFolder: true,
+              searchOnAdd: true,
               tags: initialConfig.sonarrTags || [],
+              userTags: false,
               isDefault: true,
             })
           }
@@ -130,7 +142,11 @@ export default fp(
               qualityProfile: initialConfig.radarrQualityProfile,
               rootFolder: initialConfig.radarrRootFolder,
               bypassIgnored: initialConfig.radarrBypassIgnored,
+              minimumAvailability: 'released',
+              monitor: 'movieOnly',
+              searchOnAdd: true,
               tags: initialConfig.radarrTags || [],
+              userTags: false,
               isDefault: true,
             })
           }
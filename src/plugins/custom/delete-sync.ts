@@ -0,0 +1,85 @@
+import fp from 'fastify-plugin'
+import type { FastifyInstance } from 'fastify'
+import { DeleteSyncService } from '@services/delete-sync.service.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    deleteSync: DeleteSyncService
+  }
+}
+
+export default fp(
+  async (fastify: FastifyInstance) => {
+    const deleteSync = new DeleteSyncService(fastify.log, fastify)
+
+    // Create wrapped versions of the startDeleteSync and stop methods
+    // that will emit status events after state changes
+    const originalStartDeleteSync = deleteSync.startDeleteSync
+    deleteSync.startDeleteSync = async function (...args) {
+      const result = await originalStartDeleteSync.apply(this, args)
+      emitDeleteSyncStatus(fastify)
+      return result
+    }
+
+    const originalStop = deleteSync.stop
+    deleteSync.stop = async function (...args) {
+      const result = await originalStop.apply(this, args)
+      emitDeleteSyncStatus(fastify)
+      return result
+    }
+
+    fastify.decorate('deleteSync', deleteSync)
+
+    emitDeleteSyncStatus(fastify)
+
+    // Auto-start the delete schedule when config is ready
+    const startDeleteSync = async () => {
+      try {
+        await fastify.waitForConfig()
+        deleteSync.startPendingDeletionCheck()
+        await deleteSync.startDeleteSync()
+      } catch (err) {
+        fastify.log.error('Error in delete sync startup:', err)
+      }
+    }
+
+    setImmediate(startDeleteSync)
+
+    fastify.addHook('onClose', async () => {
+      deleteSync.stopPendingDeletionCheck()
+      const status = deleteSync.getStatus()
+      if (status === 'running' || status === 'starting') {
+        fastify.log.info('Stopping delete sync during shutdown')
+        await deleteSync.stop()
+      }
+    })
+  },
+  {
+    name: 'delete-sync',
+    dependencies: [
+      'database',
+      'sonarr-manager',
+      'radarr-manager',
+      'protection',
+      'config',
+      'progress',
+    ],
+  },
+)
+
+function emitDeleteSyncStatus(fastify: FastifyInstance) {
+  if (!fastify.progress.hasActiveConnections()) {
+    return
+  }
+
+  const status = fastify.deleteSync.getStatus()
+  const operationId = `delete-sync-status-${Date.now()}`
+
+  fastify.progress.emit({
+    operationId,
+    type: 'system',
+    phase: 'info',
+    progress: 100,
+    message: `Delete sync status: ${status}`,
+  })
+}
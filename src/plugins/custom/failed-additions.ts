@@ -0,0 +1,26 @@
+import fp from 'fastify-plugin'
+import type { FastifyInstance } from 'fastify'
+import { FailedAdditionsService } from '@services/failed-additions.service.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    failedAdditions: FailedAdditionsService
+  }
+}
+
+export default fp(
+  async (fastify: FastifyInstance) => {
+    const service = new FailedAdditionsService(fastify.log, fastify)
+    fastify.decorate('failedAdditions', service)
+
+    service.start()
+
+    fastify.addHook('onClose', async () => {
+      service.stop()
+    })
+  },
+  {
+    name: 'failed-additions',
+    dependencies: ['database', 'sonarr-manager', 'radarr-manager'],
+  },
+)
@@ -0,0 +1,43 @@
+import fp from 'fastify-plugin'
+import type { FastifyInstance } from 'fastify'
+import { InstanceHealthService } from '@services/instance-health.service.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    instanceHealth: InstanceHealthService
+  }
+}
+
+export default fp(
+  async (fastify: FastifyInstance) => {
+    const service = new InstanceHealthService(fastify.log, fastify)
+    fastify.decorate('instanceHealth', service)
+
+    // Check once the instances are configured, then periodically
+    const startChecks = async () => {
+      try {
+        await fastify.waitForConfig()
+        await service.checkAll()
+        service.start()
+      } catch (err) {
+        fastify.log.error('Error in instance health check startup:', err)
+      }
+    }
+
+    setImmediate(startChecks)
+
+    fastify.addHook('onClose', async () => {
+      service.stop()
+    })
+  },
+  {
+    name: 'instance-health',
+    dependencies: [
+      'database',
+      'config',
+      'sonarr-manager',
+      'radarr-manager',
+      'failed-additions',
+    ],
+  },
+)
@@ -0,0 +1,28 @@
+import fp from 'fastify-plugin'
+import type { FastifyInstance } from 'fastify'
+import { MediaBackendRegistry } from '@services/media-backend-registry.service.js'
+import { createSonarrBackendDescriptor } from '@services/sonarr-backend.service.js'
+import { createRadarrBackendDescriptor } from '@services/radarr-backend.service.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    mediaBackends: MediaBackendRegistry
+  }
+}
+
+/**
+ * Registers the built-in Sonarr and Radarr backends. Plugins adding further
+ * backend types depend on this one and call `fastify.mediaBackends.register`.
+ */
+export default fp(
+  async (fastify: FastifyInstance) => {
+    const registry = new MediaBackendRegistry(fastify.log)
+    registry.register(createSonarrBackendDescriptor(fastify))
+    registry.register(createRadarrBackendDescriptor(fastify))
+    fastify.decorate('mediaBackends', registry)
+  },
+  {
+    name: 'media-backends',
+    dependencies: ['sonarr-manager', 'radarr-manager'],
+  },
+)
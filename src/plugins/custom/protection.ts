@@ -0,0 +1,20 @@
+import fp from 'fastify-plugin'
+import type { FastifyInstance } from 'fastify'
+import { ProtectionService } from '@services/protection.service.js'
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    protection: ProtectionService
+  }
+}
+
+export default fp(
+  async (fastify: FastifyInstance) => {
+    const service = new ProtectionService(fastify.log, fastify)
+    fastify.decorate('protection', service)
+  },
+  {
+    name: 'protection',
+    dependencies: ['database', 'sonarr-manager', 'radarr-manager', 'config'],
+  },
+)
@@ -37,6 +37,20 @@ export default fp(
       return result
     }
 
+    const originalPause = watchlistWorkflow.pause
+    watchlistWorkflow.pause = async function (...args) {
+      const result = await originalPause.apply(this, args)
+      emitWatchlistWorkflowStatus(fastify)
+      return result
+    }
+
+    const originalResume = watchlistWorkflow.resume
+    watchlistWorkflow.resume = async function (...args) {
+      const result = await originalResume.apply(this, args)
+      emitWatchlistWorkflowStatus(fastify)
+      return result
+    }
+
     emitWatchlistWorkflowStatus(fastify)
 
     const statusInterval = setInterval(() => {
@@ -67,7 +81,11 @@ export default fp(
 
     fastify.addHook('onClose', async () => {
       const status = watchlistWorkflow.getStatus()
-      if (status === 'running' || status === 'starting') {
+      if (
+        status === 'running' ||
+        status === 'starting' ||
+        status === 'paused'
+      ) {
         fastify.log.info('Stopping watchlist workflow during shutdown')
         await watchlistWorkflow.stop()
       }
@@ -163,6 +163,23 @@ const schema = {
       type: 'boolean',
       default: true,
     },
+    protectionTag: {
+      type: 'string',
+      default: 'pulsarr-keep',
+    },
+    removedItemAction: {
+      type: 'string',
+      enum: ['none', 'unmonitor', 'delete'],
+      default: 'none',
+    },
+    removedItemGraceDays: {
+      type: 'number',
+      default: 7,
+    },
+    blockBrokenRouting: {
+      type: 'boolean',
+      default: false,
+    },
     selfRss: {
       type: 'string',
     },
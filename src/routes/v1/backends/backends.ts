@@ -0,0 +1,175 @@
+import type { FastifyPluginAsync, FastifyReply } from 'fastify'
+import type { z } from 'zod'
+import {
+  BackendInstanceParamsSchema,
+  BackendInstancesResponseSchema,
+  BackendOptionsResponseSchema,
+  BackendTypeParamsSchema,
+  BackendTypesResponseSchema,
+  TestConnectionBodySchema,
+  TestConnectionResponseSchema,
+  ErrorSchema,
+} from '@schemas/backends/backends.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  const requireType = (type: string, reply: FastifyReply) => {
+    const descriptor = fastify.mediaBackends.getDescriptor(type)
+    if (!descriptor) {
+      throw reply.notFound(`Unknown media backend type: ${type}`)
+    }
+    return descriptor
+  }
+
+  // List registered backend types
+  fastify.get<{
+    Reply: z.infer<typeof BackendTypesResponseSchema>
+  }>(
+    '/types',
+    {
+      schema: {
+        response: {
+          200: BackendTypesResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Backends'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        return {
+          success: true,
+          backends: fastify.mediaBackends.getDescriptors(),
+        }
+      } catch (err) {
+        fastify.log.error('Error fetching media backend types:', err)
+        throw reply.internalServerError('Unable to fetch media backend types')
+      }
+    },
+  )
+
+  // List instances of any backend type
+  fastify.get<{
+    Params: z.infer<typeof BackendTypeParamsSchema>
+    Reply: z.infer<typeof BackendInstancesResponseSchema>
+  }>(
+    '/:type/instances',
+    {
+      schema: {
+        params: BackendTypeParamsSchema,
+        response: {
+          200: BackendInstancesResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Backends'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        requireType(request.params.type, reply)
+        const instances = await fastify.mediaBackends.getInstances(
+          request.params.type,
+        )
+        return { success: true, instances }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error fetching media backend instances:', err)
+        throw reply.internalServerError(
+          'Unable to fetch media backend instances',
+        )
+      }
+    },
+  )
+
+  // Test a connection before saving an instance
+  fastify.post<{
+    Params: z.infer<typeof BackendTypeParamsSchema>
+    Body: z.infer<typeof TestConnectionBodySchema>
+    Reply: z.infer<typeof TestConnectionResponseSchema>
+  }>(
+    '/:type/test-connection',
+    {
+      schema: {
+        params: BackendTypeParamsSchema,
+        body: TestConnectionBodySchema,
+        response: {
+          200: TestConnectionResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Backends'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        requireType(request.params.type, reply)
+        const { baseUrl, apiKey } = request.body
+        const result = await fastify.mediaBackends.testConnection(
+          request.params.type,
+          baseUrl,
+          apiKey,
+        )
+
+        return {
+          success: result.success,
+          message: result.message,
+        }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error testing media backend connection:', err)
+        throw reply.internalServerError(
+          'Unable to test media backend connection',
+        )
+      }
+    },
+  )
+
+  // Quality profiles and root folders offered by a connected instance
+  fastify.get<{
+    Params: z.infer<typeof BackendInstanceParamsSchema>
+    Reply: z.infer<typeof BackendOptionsResponseSchema>
+  }>(
+    '/:type/instances/:id/options',
+    {
+      schema: {
+        params: BackendInstanceParamsSchema,
+        response: {
+          200: BackendOptionsResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Backends'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        requireType(request.params.type, reply)
+        const backend = fastify.mediaBackends.getBackend(
+          request.params.type,
+          request.params.id,
+        )
+        if (!backend) {
+          throw reply.notFound('Media backend instance is not connected')
+        }
+
+        const [qualityProfiles, rootFolders] = await Promise.all([
+          backend.fetchQualityProfiles(),
+          backend.fetchRootFolders(),
+        ])
+        return { success: true, qualityProfiles, rootFolders }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error fetching media backend options:', err)
+        throw reply.internalServerError('Unable to fetch media backend options')
+      }
+    },
+  )
+}
+
+export default plugin
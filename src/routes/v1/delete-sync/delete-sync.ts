@@ -0,0 +1,216 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  DeleteSyncResponseSchema,
+  DeleteSyncRunResponseSchema,
+  DeleteSyncPreviewResponseSchema,
+  ErrorSchema,
+} from '@schemas/delete-sync/delete-sync.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // Start Delete Sync schedule
+  fastify.post<{
+    Reply: z.infer<typeof DeleteSyncResponseSchema>
+  }>(
+    '/start',
+    {
+      schema: {
+        response: {
+          200: DeleteSyncResponseSchema,
+          400: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Delete Sync'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const status = fastify.deleteSync.getStatus()
+        if (status !== 'stopped') {
+          return reply.badRequest(
+            `Cannot start delete sync: current status is ${status}`,
+          )
+        }
+
+        const result = await fastify.deleteSync.startDeleteSync()
+        if (!result) {
+          return reply.internalServerError('Failed to start delete sync')
+        }
+
+        const response: z.infer<typeof DeleteSyncResponseSchema> = {
+          success: true,
+          status: fastify.deleteSync.getStatus(),
+          message: 'Delete sync schedule started',
+          nextRun: fastify.deleteSync.getNextRunAt()?.toISOString() ?? null,
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error starting delete sync:', err)
+        throw reply.internalServerError('Unable to start delete sync')
+      }
+    },
+  )
+
+  // Stop Delete Sync schedule
+  fastify.post<{
+    Reply: z.infer<typeof DeleteSyncResponseSchema>
+  }>(
+    '/stop',
+    {
+      schema: {
+        response: {
+          200: DeleteSyncResponseSchema,
+          400: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Delete Sync'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const status = fastify.deleteSync.getStatus()
+        if (status !== 'running' && status !== 'starting') {
+          return reply.badRequest(
+            `Cannot stop delete sync: current status is ${status}`,
+          )
+        }
+
+        const result = await fastify.deleteSync.stop()
+        if (!result) {
+          return reply.internalServerError('Failed to stop delete sync')
+        }
+
+        const response: z.infer<typeof DeleteSyncResponseSchema> = {
+          success: true,
+          status: fastify.deleteSync.getStatus(),
+          message: 'Delete sync schedule stopped',
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error stopping delete sync:', err)
+        throw reply.internalServerError('Unable to stop delete sync')
+      }
+    },
+  )
+
+  // Get Delete Sync status
+  fastify.get<{
+    Reply: z.infer<typeof DeleteSyncResponseSchema>
+  }>(
+    '/status',
+    {
+      schema: {
+        response: {
+          200: DeleteSyncResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Delete Sync'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const status = fastify.deleteSync.getStatus()
+
+        const response: z.infer<typeof DeleteSyncResponseSchema> = {
+          success: true,
+          status,
+          message: `Delete sync is ${status}`,
+          lastRun: fastify.deleteSync.getLastRunAt()?.toISOString() ?? null,
+          nextRun: fastify.deleteSync.getNextRunAt()?.toISOString() ?? null,
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error getting delete sync status:', err)
+        throw reply.internalServerError('Unable to get delete sync status')
+      }
+    },
+  )
+
+  // Run Delete Sync immediately
+  fastify.post<{
+    Reply: z.infer<typeof DeleteSyncRunResponseSchema>
+  }>(
+    '/run',
+    {
+      schema: {
+        response: {
+          200: DeleteSyncRunResponseSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Delete Sync'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        if (fastify.deleteSync.isRunInProgress()) {
+          return reply.conflict('Delete sync is already in progress')
+        }
+
+        const result = await fastify.deleteSync.runDeleteSync()
+        const deleted = result.shows.deleted + result.movies.deleted
+
+        const response: z.infer<typeof DeleteSyncRunResponseSchema> = {
+          success: true,
+          message: `Delete sync completed, ${deleted} items deleted`,
+          result,
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error running delete sync:', err)
+        throw reply.internalServerError('Unable to run delete sync')
+      }
+    },
+  )
+
+  // Preview what a delete sync would remove without deleting anything
+  fastify.get<{
+    Reply: z.infer<typeof DeleteSyncPreviewResponseSchema>
+  }>(
+    '/preview',
+    {
+      schema: {
+        response: {
+          200: DeleteSyncPreviewResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Delete Sync'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const preview = await fastify.deleteSync.previewDeleteSync()
+        const total = preview.shows.length + preview.movies.length
+
+        const response: z.infer<typeof DeleteSyncPreviewResponseSchema> = {
+          success: true,
+          message: `Delete sync would remove ${total} items`,
+          preview,
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error generating delete sync preview:', err)
+        throw reply.internalServerError(
+          'Unable to generate delete sync preview',
+        )
+      }
+    },
+  )
+}
+
+export default plugin
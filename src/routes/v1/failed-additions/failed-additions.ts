@@ -0,0 +1,116 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  FailedAdditionsQuerySchema,
+  FailedAdditionsResponseSchema,
+  FailedAdditionParamsSchema,
+  RetryFailedAdditionResponseSchema,
+  ErrorSchema,
+} from '@schemas/failed-additions/failed-additions.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List failed additions, optionally only retrying or dead-lettered ones
+  fastify.get<{
+    Querystring: z.infer<typeof FailedAdditionsQuerySchema>
+    Reply: z.infer<typeof FailedAdditionsResponseSchema>
+  }>(
+    '/items',
+    {
+      schema: {
+        querystring: FailedAdditionsQuerySchema,
+        response: {
+          200: FailedAdditionsResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Failed Additions'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const items = await fastify.failedAdditions.getFailedAdditions(
+          request.query.status,
+        )
+        return { success: true, items }
+      } catch (err) {
+        fastify.log.error('Error fetching failed additions:', err)
+        throw reply.internalServerError('Unable to fetch failed additions')
+      }
+    },
+  )
+
+  // Retry a failed addition immediately
+  fastify.post<{
+    Params: z.infer<typeof FailedAdditionParamsSchema>
+    Reply: z.infer<typeof RetryFailedAdditionResponseSchema>
+  }>(
+    '/items/:id/retry',
+    {
+      schema: {
+        params: FailedAdditionParamsSchema,
+        response: {
+          200: RetryFailedAdditionResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Failed Additions'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const item = await fastify.failedAdditions.retry(request.params.id)
+        return {
+          success: item === null,
+          message:
+            item === null
+              ? 'Item added successfully'
+              : `Retry failed: ${item.errorMessage}`,
+          item,
+        }
+      } catch (err) {
+        if (
+          err instanceof Error &&
+          err.message === 'Failed addition not found'
+        ) {
+          throw reply.notFound(err.message)
+        }
+        fastify.log.error('Error retrying failed addition:', err)
+        throw reply.internalServerError('Unable to retry failed addition')
+      }
+    },
+  )
+
+  // Dismiss a failed addition without retrying it
+  fastify.delete<{
+    Params: z.infer<typeof FailedAdditionParamsSchema>
+  }>(
+    '/items/:id',
+    {
+      schema: {
+        params: FailedAdditionParamsSchema,
+        response: {
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Failed Additions'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const deleted = await fastify.failedAdditions.dismiss(request.params.id)
+        if (!deleted) {
+          throw reply.notFound('Failed addition not found')
+        }
+
+        reply.status(204)
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error dismissing failed addition:', err)
+        throw reply.internalServerError('Unable to dismiss failed addition')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,107 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  CreateGenreAliasSchema,
+  GenreAliasParamsSchema,
+  GenreAliasesResponseSchema,
+  GenreAliasResponseSchema,
+  ErrorSchema,
+} from '@schemas/genres/aliases.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List genre aliases
+  fastify.get<{
+    Reply: z.infer<typeof GenreAliasesResponseSchema>
+  }>(
+    '/aliases',
+    {
+      schema: {
+        response: {
+          200: GenreAliasesResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Genres'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const aliases = await fastify.db.getGenreAliases()
+        return { success: true, aliases }
+      } catch (err) {
+        fastify.log.error('Error fetching genre aliases:', err)
+        throw reply.internalServerError('Unable to fetch genre aliases')
+      }
+    },
+  )
+
+  // Create a genre alias
+  fastify.post<{
+    Body: z.infer<typeof CreateGenreAliasSchema>
+    Reply: z.infer<typeof GenreAliasResponseSchema>
+  }>(
+    '/aliases',
+    {
+      schema: {
+        body: CreateGenreAliasSchema,
+        response: {
+          201: GenreAliasResponseSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Genres'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const alias = await fastify.db.createGenreAlias(request.body)
+
+        reply.status(201)
+        return { success: true, alias }
+      } catch (err) {
+        if (
+          err instanceof Error &&
+          err.message === 'Genre alias already exists'
+        ) {
+          throw reply.conflict(err.message)
+        }
+        fastify.log.error('Error creating genre alias:', err)
+        throw reply.internalServerError('Unable to create genre alias')
+      }
+    },
+  )
+
+  // Delete a genre alias
+  fastify.delete<{
+    Params: z.infer<typeof GenreAliasParamsSchema>
+  }>(
+    '/aliases/:id',
+    {
+      schema: {
+        params: GenreAliasParamsSchema,
+        response: {
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Genres'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const deleted = await fastify.db.deleteGenreAlias(request.params.id)
+        if (!deleted) {
+          throw reply.notFound('Genre alias not found')
+        }
+
+        reply.status(204)
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error deleting genre alias:', err)
+        throw reply.internalServerError('Unable to delete genre alias')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,70 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import type { ConfigHealthReport } from '@root/types/config-health.types.js'
+import {
+  ConfigHealthResponseSchema,
+  ErrorSchema,
+} from '@schemas/health/config.schema.js'
+
+const toResponse = (report: ConfigHealthReport) => ({
+  success: true,
+  healthy: report.issues.length === 0,
+  ...report,
+})
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // Broken root folder and quality profile references from the last check
+  fastify.get<{
+    Reply: z.infer<typeof ConfigHealthResponseSchema>
+  }>(
+    '/config',
+    {
+      schema: {
+        response: {
+          200: ConfigHealthResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Health'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const report = fastify.configValidator.getReport()
+        return toResponse(
+          report.checkedAt === null
+            ? await fastify.configValidator.validate()
+            : report,
+        )
+      } catch (err) {
+        fastify.log.error('Error fetching configuration health:', err)
+        throw reply.internalServerError('Unable to fetch configuration health')
+      }
+    },
+  )
+
+  // Re-check every instance and route now
+  fastify.post<{
+    Reply: z.infer<typeof ConfigHealthResponseSchema>
+  }>(
+    '/config/validate',
+    {
+      schema: {
+        response: {
+          200: ConfigHealthResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Health'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        return toResponse(await fastify.configValidator.validate())
+      } catch (err) {
+        fastify.log.error('Error validating configuration:', err)
+        throw reply.internalServerError('Unable to validate configuration')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,101 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  InstanceHealthParamsSchema,
+  InstanceHealthResponseSchema,
+  InstancesHealthResponseSchema,
+  ErrorSchema,
+} from '@schemas/health/instances.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // Up/down state and recent checks of every instance
+  fastify.get<{
+    Reply: z.infer<typeof InstancesHealthResponseSchema>
+  }>(
+    '/instances',
+    {
+      schema: {
+        response: {
+          200: InstancesHealthResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Health'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const instances = await fastify.instanceHealth.getHealth()
+        return { success: true, instances }
+      } catch (err) {
+        fastify.log.error('Error fetching instance health:', err)
+        throw reply.internalServerError('Unable to fetch instance health')
+      }
+    },
+  )
+
+  // Up/down state and recent checks of a single instance
+  fastify.get<{
+    Params: z.infer<typeof InstanceHealthParamsSchema>
+    Reply: z.infer<typeof InstanceHealthResponseSchema>
+  }>(
+    '/instances/:type/:id',
+    {
+      schema: {
+        params: InstanceHealthParamsSchema,
+        response: {
+          200: InstanceHealthResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Health'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const instance = await fastify.instanceHealth.getInstanceHealth(
+          request.params.type,
+          request.params.id,
+        )
+        if (!instance) {
+          throw reply.notFound('Instance not found')
+        }
+
+        return { success: true, instance }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error fetching instance health:', err)
+        throw reply.internalServerError('Unable to fetch instance health')
+      }
+    },
+  )
+
+  // Check every instance now
+  fastify.post<{
+    Reply: z.infer<typeof InstancesHealthResponseSchema>
+  }>(
+    '/instances/check',
+    {
+      schema: {
+        response: {
+          200: InstancesHealthResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Health'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        await fastify.instanceHealth.checkAll()
+        const instances = await fastify.instanceHealth.getHealth()
+        return { success: true, instances }
+      } catch (err) {
+        fastify.log.error('Error checking instance health:', err)
+        throw reply.internalServerError('Unable to check instance health')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -12,8 +12,35 @@ import {
   webhookQueue,
   checkForUpgrade,
 } from '@root/utils/webhookQueue.js'
+import {
+  parseWebhookAuthorization,
+  webhookSecretsMatch,
+  type WebhookSender,
+} from '@utils/webhook-auth.js'
 
 const plugin: FastifyPluginAsync = async (fastify) => {
+  /**
+   * The route is public so Sonarr and Radarr can reach it, so each call must
+   * carry the basic-auth credentials Pulsarr configured on the instance.
+   * Returns the verified sender, or null if the credentials do not match.
+   */
+  const verifySender = async (
+    authorization: string | undefined,
+  ): Promise<WebhookSender | null> => {
+    const claimed = parseWebhookAuthorization(authorization)
+    if (!claimed) {
+      return null
+    }
+
+    const secret = await fastify.db.getInstanceWebhookSecret(
+      claimed.instanceType,
+      claimed.instanceId,
+    )
+    return secret && webhookSecretsMatch(secret, claimed.secret)
+      ? claimed
+      : null
+  }
+
   fastify.post<{
     Body: WebhookPayload
     Reply: WebhookResponse
@@ -59,6 +86,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         response: {
           200: WebhookResponseSchema,
           400: ErrorSchema,
+          401: ErrorSchema,
           500: ErrorSchema,
         },
         tags: ['Notifications'],
@@ -67,13 +95,36 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     async (request, reply) => {
       const { body } = request
 
+      const sender = await verifySender(request.headers.authorization)
+      if (!sender) {
+        fastify.log.warn(
+          `Rejected webhook from ${request.ip} without valid instance credentials`,
+        )
+        throw reply.unauthorized('Invalid webhook credentials')
+      }
+
       try {
+        fastify.log.debug(
+          `Received webhook from ${sender.instanceType} instance ${sender.instanceId}`,
+        )
+
+        // Only the sending instance's library changed
+        if (sender.instanceType === 'sonarr') {
+          fastify.sonarrManager
+            .getSonarrService(sender.instanceId)
+            ?.invalidateLibraryCache()
+        } else {
+          fastify.radarrManager
+            .getRadarrService(sender.instanceId)
+            ?.invalidateLibraryCache()
+        }
+
         if ('eventType' in body && body.eventType === 'Test') {
           fastify.log.info('Received test webhook')
           return { success: true }
         }
 
-        if (body.instanceName === 'Radarr' && 'movie' in body) {
+        if (sender.instanceType === 'radarr' && 'movie' in body) {
           const mediaInfo = {
             type: 'movie' as const,
             guid: `tmdb:${body.movie.tmdbId}`,
@@ -98,7 +149,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         }
 
         if (
-          body.instanceName === 'Sonarr' &&
+          sender.instanceType === 'sonarr' &&
           'series' in body &&
           'episodes' in body &&
           body.episodes
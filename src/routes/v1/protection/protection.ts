@@ -0,0 +1,144 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  ProtectedItemsResponseSchema,
+  ProtectedItemResponseSchema,
+  CreateProtectedItemSchema,
+  ProtectedItemParamsSchema,
+  TaggedItemsResponseSchema,
+  ErrorSchema,
+} from '@schemas/protection/protection.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List explicitly protected items
+  fastify.get<{
+    Reply: z.infer<typeof ProtectedItemsResponseSchema>
+  }>(
+    '/items',
+    {
+      schema: {
+        response: {
+          200: ProtectedItemsResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Protection'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const items = await fastify.protection.getProtectedItems()
+        return { success: true, items }
+      } catch (err) {
+        fastify.log.error('Error fetching protected items:', err)
+        throw reply.internalServerError('Unable to fetch protected items')
+      }
+    },
+  )
+
+  // Protect an item by GUID
+  fastify.post<{
+    Body: z.infer<typeof CreateProtectedItemSchema>
+    Reply: z.infer<typeof ProtectedItemResponseSchema>
+  }>(
+    '/items',
+    {
+      schema: {
+        body: CreateProtectedItemSchema,
+        response: {
+          201: ProtectedItemResponseSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Protection'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { guid, title, reason } = request.body
+        const item = await fastify.protection.addProtectedItem({
+          guid,
+          title: title ?? null,
+          reason: reason ?? null,
+        })
+
+        reply.status(201)
+        return { success: true, item }
+      } catch (err) {
+        if (
+          err instanceof Error &&
+          err.message === 'Item is already protected'
+        ) {
+          throw reply.conflict(err.message)
+        }
+        fastify.log.error('Error protecting item:', err)
+        throw reply.internalServerError('Unable to protect item')
+      }
+    },
+  )
+
+  // Remove protection from an item
+  fastify.delete<{
+    Params: z.infer<typeof ProtectedItemParamsSchema>
+  }>(
+    '/items/:id',
+    {
+      schema: {
+        params: ProtectedItemParamsSchema,
+        response: {
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Protection'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const deleted = await fastify.protection.removeProtectedItem(
+          request.params.id,
+        )
+        if (!deleted) {
+          throw reply.notFound('Protected item not found')
+        }
+
+        reply.status(204)
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error removing protected item:', err)
+        throw reply.internalServerError('Unable to remove protected item')
+      }
+    },
+  )
+
+  // List items protected by the Sonarr/Radarr protection tag
+  fastify.get<{
+    Reply: z.infer<typeof TaggedItemsResponseSchema>
+  }>(
+    '/tagged',
+    {
+      schema: {
+        response: {
+          200: TaggedItemsResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Protection'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const items = await fastify.protection.getTaggedItems()
+        return {
+          success: true,
+          tag: fastify.config.protectionTag,
+          items,
+        }
+      } catch (err) {
+        fastify.log.error('Error fetching tagged protected items:', err)
+        throw reply.internalServerError('Unable to fetch tagged items')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,90 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  QueueItemsQuerySchema,
+  QueueItemsResponseSchema,
+  QueueItemParamsSchema,
+  QueueItemResponseSchema,
+  ErrorSchema,
+} from '@schemas/queue/queue.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List workflow queue items, optionally filtered by status
+  fastify.get<{
+    Querystring: z.infer<typeof QueueItemsQuerySchema>
+    Reply: z.infer<typeof QueueItemsResponseSchema>
+  }>(
+    '/items',
+    {
+      schema: {
+        querystring: QueueItemsQuerySchema,
+        response: {
+          200: QueueItemsResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Queue'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const items = await fastify.watchlistWorkflow.getQueueItems(
+          request.query.status,
+        )
+        return { success: true, items }
+      } catch (err) {
+        fastify.log.error('Error fetching queue items:', err)
+        throw reply.internalServerError('Unable to fetch queue items')
+      }
+    },
+  )
+
+  // Reset a queue item so it is routed again
+  fastify.post<{
+    Params: z.infer<typeof QueueItemParamsSchema>
+    Reply: z.infer<typeof QueueItemResponseSchema>
+  }>(
+    '/items/:id/requeue',
+    {
+      schema: {
+        params: QueueItemParamsSchema,
+        response: {
+          200: QueueItemResponseSchema,
+          404: ErrorSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Queue'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const item = await fastify.watchlistWorkflow.requeueItem(
+          request.params.id,
+        )
+        if (!item) {
+          throw reply.notFound('Queue item not found')
+        }
+
+        return {
+          success: true,
+          message: `${item.title} requeued`,
+          item,
+        }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        if (
+          err instanceof Error &&
+          err.message === 'Queue item is currently in progress'
+        ) {
+          throw reply.conflict(err.message)
+        }
+        fastify.log.error('Error requeueing item:', err)
+        throw reply.internalServerError('Unable to requeue item')
+      }
+    },
+  )
+}
+
+export default plugin
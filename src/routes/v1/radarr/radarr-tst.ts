@@ -9,7 +9,17 @@ const RadarrInstanceSchema = z.object({
   qualityProfile: z.union([z.string(), z.number()]).nullish(),
   rootFolder: z.string().nullish(),
   bypassIgnored: z.boolean().optional().default(false),
+  minimumAvailability: z
+    .enum(['announced', 'inCinemas', 'released'])
+    .optional()
+    .default('released'),
+  monitor: z
+    .enum(['movieOnly', 'movieAndCollection', 'none'])
+    .optional()
+    .default('movieOnly'),
+  searchOnAdd: z.boolean().optional().default(true),
   tags: z.array(z.string()).optional().default([]),
+  userTags: z.boolean().optional().default(false),
   isDefault: z.boolean().optional().default(false),
   syncedInstances: z.array(z.number()).optional(),
 })
@@ -21,6 +31,10 @@ const GenreRouteSchema = z.object({
   genre: z.string().min(1, 'Genre is required'),
   rootFolder: z.string().min(1, 'Root folder is required'),
   qualityProfile: z.union([z.string(), z.number()]).nullable(),
+  // Add options, null or omitted to use the instance settings
+  minimumAvailability: z.enum(['announced', 'inCinemas', 'released']).nullish(),
+  monitor: z.enum(['movieOnly', 'movieAndCollection', 'none']).nullish(),
+  searchOnAdd: z.boolean().nullish(),
 })
 
 const plugin: FastifyPluginAsync = async (fastify) => {
@@ -0,0 +1,214 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  RoutingRulesResponseSchema,
+  RoutingRuleResponseSchema,
+  CreateRoutingRuleSchema,
+  UpdateRoutingRuleSchema,
+  RoutingRuleParamsSchema,
+  RoutingRulesQuerySchema,
+  ErrorSchema,
+} from '@schemas/routing-rules/routing-rules.schema.js'
+import type { RoutingRule } from '@root/types/routing-rule.types.js'
+
+async function instanceExists(
+  fastify: FastifyInstance,
+  targetType: RoutingRule['targetType'],
+  instanceId: number,
+): Promise<boolean> {
+  const instance =
+    targetType === 'sonarr'
+      ? await fastify.db.getSonarrInstance(instanceId)
+      : await fastify.db.getRadarrInstance(instanceId)
+  return instance !== null
+}
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List routing rules in evaluation order
+  fastify.get<{
+    Querystring: z.infer<typeof RoutingRulesQuerySchema>
+    Reply: z.infer<typeof RoutingRulesResponseSchema>
+  }>(
+    '/rules',
+    {
+      schema: {
+        querystring: RoutingRulesQuerySchema,
+        response: {
+          200: RoutingRulesResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing Rules'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const rules = await fastify.db.getRoutingRules(request.query.targetType)
+        return { success: true, rules }
+      } catch (err) {
+        fastify.log.error('Error fetching routing rules:', err)
+        throw reply.internalServerError('Unable to fetch routing rules')
+      }
+    },
+  )
+
+  // Get a single routing rule
+  fastify.get<{
+    Params: z.infer<typeof RoutingRuleParamsSchema>
+    Reply: z.infer<typeof RoutingRuleResponseSchema>
+  }>(
+    '/rules/:id',
+    {
+      schema: {
+        params: RoutingRuleParamsSchema,
+        response: {
+          200: RoutingRuleResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing Rules'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const rule = await fastify.db.getRoutingRule(request.params.id)
+        if (!rule) {
+          throw reply.notFound('Routing rule not found')
+        }
+        return { success: true, rule }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error fetching routing rule:', err)
+        throw reply.internalServerError('Unable to fetch routing rule')
+      }
+    },
+  )
+
+  // Create a routing rule
+  fastify.post<{
+    Body: z.infer<typeof CreateRoutingRuleSchema>
+    Reply: z.infer<typeof RoutingRuleResponseSchema>
+  }>(
+    '/rules',
+    {
+      schema: {
+        body: CreateRoutingRuleSchema,
+        response: {
+          201: RoutingRuleResponseSchema,
+          400: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing Rules'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { targetType, instanceId } = request.body
+        if (!(await instanceExists(fastify, targetType, instanceId))) {
+          throw reply.badRequest(
+            `${targetType === 'sonarr' ? 'Sonarr' : 'Radarr'} instance ${instanceId} not found`,
+          )
+        }
+
+        const rule = await fastify.db.createRoutingRule(request.body)
+
+        reply.status(201)
+        return { success: true, rule }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error creating routing rule:', err)
+        throw reply.internalServerError('Unable to create routing rule')
+      }
+    },
+  )
+
+  // Update a routing rule
+  fastify.put<{
+    Params: z.infer<typeof RoutingRuleParamsSchema>
+    Body: z.infer<typeof UpdateRoutingRuleSchema>
+    Reply: z.infer<typeof RoutingRuleResponseSchema>
+  }>(
+    '/rules/:id',
+    {
+      schema: {
+        params: RoutingRuleParamsSchema,
+        body: UpdateRoutingRuleSchema,
+        response: {
+          200: RoutingRuleResponseSchema,
+          400: ErrorSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing Rules'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const existing = await fastify.db.getRoutingRule(request.params.id)
+        if (!existing) {
+          throw reply.notFound('Routing rule not found')
+        }
+
+        const targetType = request.body.targetType ?? existing.targetType
+        const instanceId = request.body.instanceId ?? existing.instanceId
+        if (!(await instanceExists(fastify, targetType, instanceId))) {
+          throw reply.badRequest(
+            `${targetType === 'sonarr' ? 'Sonarr' : 'Radarr'} instance ${instanceId} not found`,
+          )
+        }
+
+        await fastify.db.updateRoutingRule(request.params.id, request.body)
+        const rule = await fastify.db.getRoutingRule(request.params.id)
+        if (!rule) {
+          throw reply.notFound('Routing rule not found')
+        }
+
+        return { success: true, rule }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error updating routing rule:', err)
+        throw reply.internalServerError('Unable to update routing rule')
+      }
+    },
+  )
+
+  // Delete a routing rule
+  fastify.delete<{
+    Params: z.infer<typeof RoutingRuleParamsSchema>
+  }>(
+    '/rules/:id',
+    {
+      schema: {
+        params: RoutingRuleParamsSchema,
+        response: {
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing Rules'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const deleted = await fastify.db.deleteRoutingRule(request.params.id)
+        if (!deleted) {
+          throw reply.notFound('Routing rule not found')
+        }
+
+        reply.status(204)
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error deleting routing rule:', err)
+        throw reply.internalServerError('Unable to delete routing rule')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,76 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  RoutingHistoryParamsSchema,
+  RecentlyRoutedQuerySchema,
+  RecentlyRoutedResponseSchema,
+  RoutingHistoryResponseSchema,
+  ErrorSchema,
+} from '@schemas/routing/history.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List the most recently routed watchlist items
+  fastify.get<{
+    Querystring: z.infer<typeof RecentlyRoutedQuerySchema>
+    Reply: z.infer<typeof RecentlyRoutedResponseSchema>
+  }>(
+    '/history',
+    {
+      schema: {
+        querystring: RecentlyRoutedQuerySchema,
+        response: {
+          200: RecentlyRoutedResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const items = await fastify.db.getRecentlyRoutedItems(
+          request.query.limit,
+        )
+        return { success: true, items }
+      } catch (err) {
+        fastify.log.error('Error fetching routed items:', err)
+        throw reply.internalServerError('Unable to fetch routed items')
+      }
+    },
+  )
+
+  // Every routing attempt recorded for a single watchlist item
+  fastify.get<{
+    Params: z.infer<typeof RoutingHistoryParamsSchema>
+    Reply: z.infer<typeof RoutingHistoryResponseSchema>
+  }>(
+    '/history/:guid',
+    {
+      schema: {
+        params: RoutingHistoryParamsSchema,
+        response: {
+          200: RoutingHistoryResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const history = await fastify.db.getRoutingHistory(request.params.guid)
+        if (history.length === 0) {
+          throw reply.notFound('No routing history for this item')
+        }
+        return { success: true, history }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error fetching routing history:', err)
+        throw reply.internalServerError('Unable to fetch routing history')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,115 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  SimulateRoutingSchema,
+  SimulateRoutingResponseSchema,
+  ErrorSchema,
+} from '@schemas/routing/simulate.schema.js'
+
+function toArray(value?: string[] | string): string[] {
+  if (Array.isArray(value)) return value
+  return typeof value === 'string' ? [value] : []
+}
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // Explain where an item would be routed without adding it anywhere
+  fastify.post<{
+    Body: z.infer<typeof SimulateRoutingSchema>
+    Reply: z.infer<typeof SimulateRoutingResponseSchema>
+  }>(
+    '/simulate',
+    {
+      schema: {
+        body: SimulateRoutingSchema,
+        response: {
+          200: SimulateRoutingResponseSchema,
+          400: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { guid, title, genres, user } = request.body
+
+        // Fill in GUIDs, genres and type from matching watchlist items
+        const known = guid
+          ? await fastify.db.getWatchlistItemsByGuids([guid])
+          : await fastify.db.getWatchlistItemsByTitle(title ?? '')
+
+        const type =
+          request.body.type ??
+          (known[0]?.type === 'show' || known[0]?.type === 'movie'
+            ? known[0].type
+            : guid?.startsWith('tvdb:')
+              ? 'show'
+              : guid?.startsWith('tmdb:')
+                ? 'movie'
+                : undefined)
+        if (!type) {
+          throw reply.badRequest(
+            'Unable to determine content type, pass type as show or movie',
+          )
+        }
+
+        const guids = [
+          ...new Set([
+            ...(guid ? [guid] : []),
+            ...known.flatMap((item) => toArray(item.guids)),
+          ]),
+        ]
+        const itemGenres = genres ?? [
+          ...new Set(known.flatMap((item) => toArray(item.genres))),
+        ]
+
+        let watchlisters = await fastify.db.getWatchlistUsers(guids)
+        if (user) {
+          const selected = await fastify.db.getUser(user)
+          if (!selected) {
+            throw reply.badRequest(`User ${user} not found`)
+          }
+          watchlisters = [selected]
+        }
+
+        const item = {
+          title: title ?? known[0]?.title ?? guid ?? '',
+          guids,
+          genres: itemGenres,
+        }
+
+        const manager =
+          type === 'show' ? fastify.sonarrManager : fastify.radarrManager
+        const plan =
+          type === 'show'
+            ? await fastify.sonarrManager.planRouting(
+                { ...item, type: 'show' },
+                watchlisters,
+              )
+            : await fastify.radarrManager.planRouting(
+                { ...item, type: 'movie' },
+                watchlisters,
+              )
+        const targets = await manager.resolveRoutingTargets(plan)
+
+        return {
+          success: true,
+          item: {
+            ...item,
+            type,
+            users: watchlisters.map((watchlister) => watchlister.name),
+          },
+          plan: { ...plan, targets },
+        }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error simulating routing:', err)
+        throw reply.internalServerError('Unable to simulate routing')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -10,7 +10,14 @@ const SonarrInstanceSchema = z.object({
   rootFolder: z.string().nullish(),
   bypassIgnored: z.boolean().optional().default(false),
   seasonMonitoring: z.string().optional().default('all'),
+  seriesType: z
+    .enum(['standard', 'anime', 'daily'])
+    .optional()
+    .default('standard'),
+  seasonFolder: z.boolean().optional().default(true),
+  searchOnAdd: z.boolean().optional().default(true),
   tags: z.array(z.string()).optional().default([]),
+  userTags: z.boolean().optional().default(false),
   isDefault: z.boolean().optional().default(false),
   syncedInstances: z.array(z.number()).optional(),
 })
@@ -22,6 +29,13 @@ const GenreRouteSchema = z.object({
   genre: z.string().min(1, 'Genre is required'),
   rootFolder: z.string().min(1, 'Root folder is required'),
   qualityProfile: z.union([z.string(), z.number()]).nullable(),
+  // Add options, null or omitted to use the instance settings
+  seasonMonitoring: z
+    .enum(['all', 'future', 'pilot', 'firstSeason', 'latestSeason'])
+    .nullish(),
+  seriesType: z.enum(['standard', 'anime', 'daily']).nullish(),
+  seasonFolder: z.boolean().nullish(),
+  searchOnAdd: z.boolean().nullish(),
 })
 
 const plugin: FastifyPluginAsync = async (fastify) => {
@@ -0,0 +1,96 @@
+import type { FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  QuerystringSchema,
+  CreateTagSchema,
+  TagsResponseSchema,
+  TagResponseSchema,
+  ErrorSchema,
+} from '@schemas/sonarr/tags.schema.js'
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List the tags defined on a Sonarr instance
+  fastify.get<{
+    Querystring: z.infer<typeof QuerystringSchema>
+    Reply: z.infer<typeof TagsResponseSchema>
+  }>(
+    '/tags',
+    {
+      schema: {
+        querystring: QuerystringSchema,
+        response: {
+          200: TagsResponseSchema,
+          400: ErrorSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Sonarr'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const instanceId = Number.parseInt(request.query.instanceId, 10)
+        if (Number.isNaN(instanceId)) {
+          throw reply.badRequest('Invalid instance ID')
+        }
+
+        const service = fastify.sonarrManager.getSonarrService(instanceId)
+        if (!service) {
+          throw reply.notFound('Sonarr service not initialized')
+        }
+
+        const tags = await service.fetchTags()
+        return { success: true, tags }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+
+        fastify.log.error('Error fetching Sonarr tags:', err)
+        throw reply.internalServerError('Unable to fetch Sonarr tags')
+      }
+    },
+  )
+
+  // Create a tag on a Sonarr instance, reusing an existing tag with the label
+  fastify.post<{
+    Body: z.infer<typeof CreateTagSchema>
+    Reply: z.infer<typeof TagResponseSchema>
+  }>(
+    '/tags',
+    {
+      schema: {
+        body: CreateTagSchema,
+        response: {
+          201: TagResponseSchema,
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Sonarr'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { instanceId, label } = request.body
+        const service = fastify.sonarrManager.getSonarrService(instanceId)
+        if (!service) {
+          throw reply.notFound('Sonarr service not initialized')
+        }
+
+        const tag = await service.ensureTag(label)
+
+        reply.status(201)
+        return { success: true, tag }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+
+        fastify.log.error('Error creating Sonarr tag:', err)
+        throw reply.internalServerError('Unable to create Sonarr tag')
+      }
+    },
+  )
+}
+
+export default plugin
@@ -0,0 +1,220 @@
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify'
+import type { z } from 'zod'
+import {
+  UserRoutesResponseSchema,
+  UserRouteResponseSchema,
+  CreateUserRouteSchema,
+  UpdateUserRouteSchema,
+  UserRouteParamsSchema,
+  UserRoutesQuerySchema,
+  ErrorSchema,
+} from '@schemas/user-routing/user-routing.schema.js'
+import type { UserRouteInput } from '@root/types/user-routing.types.js'
+
+/**
+ * Returns a validation error message for the route target, or null when the
+ * user and instance exist and the user has no other route to that instance.
+ */
+async function validateUserRoute(
+  fastify: FastifyInstance,
+  route: Pick<UserRouteInput, 'userId' | 'targetType' | 'instanceId'>,
+  existingId?: number,
+): Promise<{ status: 'badRequest' | 'conflict'; message: string } | null> {
+  const user = await fastify.db.getUser(route.userId)
+  if (!user) {
+    return { status: 'badRequest', message: `User ${route.userId} not found` }
+  }
+
+  const instance =
+    route.targetType === 'sonarr'
+      ? await fastify.db.getSonarrInstance(route.instanceId)
+      : await fastify.db.getRadarrInstance(route.instanceId)
+  if (!instance) {
+    return {
+      status: 'badRequest',
+      message: `${route.targetType === 'sonarr' ? 'Sonarr' : 'Radarr'} instance ${route.instanceId} not found`,
+    }
+  }
+
+  const duplicate = (await fastify.db.getUserRoutes(route.userId)).find(
+    (existing) =>
+      existing.id !== existingId &&
+      existing.targetType === route.targetType &&
+      existing.instanceId === route.instanceId,
+  )
+  if (duplicate) {
+    return {
+      status: 'conflict',
+      message: 'User already has a route to this instance',
+    }
+  }
+
+  return null
+}
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // List user routing overrides
+  fastify.get<{
+    Querystring: z.infer<typeof UserRoutesQuerySchema>
+    Reply: z.infer<typeof UserRoutesResponseSchema>
+  }>(
+    '/routes',
+    {
+      schema: {
+        querystring: UserRoutesQuerySchema,
+        response: {
+          200: UserRoutesResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['User Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const routes = await fastify.db.getUserRoutes(request.query.userId)
+        return { success: true, routes }
+      } catch (err) {
+        fastify.log.error('Error fetching user routes:', err)
+        throw reply.internalServerError('Unable to fetch user routes')
+      }
+    },
+  )
+
+  // Create a user routing override
+  fastify.post<{
+    Body: z.infer<typeof CreateUserRouteSchema>
+    Reply: z.infer<typeof UserRouteResponseSchema>
+  }>(
+    '/routes',
+    {
+      schema: {
+        body: CreateUserRouteSchema,
+        response: {
+          201: UserRouteResponseSchema,
+          400: ErrorSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['User Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const invalid = await validateUserRoute(fastify, request.body)
+        if (invalid) {
+          throw reply[invalid.status](invalid.message)
+        }
+
+        const route = await fastify.db.createUserRoute(request.body)
+
+        reply.status(201)
+        return { success: true, route }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        if (
+          err instanceof Error &&
+          err.message === 'User already has a route to this instance'
+        ) {
+          throw reply.conflict(err.message)
+        }
+        fastify.log.error('Error creating user route:', err)
+        throw reply.internalServerError('Unable to create user route')
+      }
+    },
+  )
+
+  // Update a user routing override
+  fastify.put<{
+    Params: z.infer<typeof UserRouteParamsSchema>
+    Body: z.infer<typeof UpdateUserRouteSchema>
+    Reply: z.infer<typeof UserRouteResponseSchema>
+  }>(
+    '/routes/:id',
+    {
+      schema: {
+        params: UserRouteParamsSchema,
+        body: UpdateUserRouteSchema,
+        response: {
+          200: UserRouteResponseSchema,
+          400: ErrorSchema,
+          404: ErrorSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['User Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const existing = await fastify.db.getUserRoute(request.params.id)
+        if (!existing) {
+          throw reply.notFound('User route not found')
+        }
+
+        const invalid = await validateUserRoute(
+          fastify,
+          {
+            userId: request.body.userId ?? existing.userId,
+            targetType: request.body.targetType ?? existing.targetType,
+            instanceId: request.body.instanceId ?? existing.instanceId,
+          },
+          existing.id,
+        )
+        if (invalid) {
+          throw reply[invalid.status](invalid.message)
+        }
+
+        await fastify.db.updateUserRoute(request.params.id, request.body)
+        const route = await fastify.db.getUserRoute(request.params.id)
+        if (!route) {
+          throw reply.notFound('User route not found')
+        }
+
+        return { success: true, route }
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error updating user route:', err)
+        throw reply.internalServerError('Unable to update user route')
+      }
+    },
+  )
+
+  // Delete a user routing override
+  fastify.delete<{
+    Params: z.infer<typeof UserRouteParamsSchema>
+  }>(
+    '/routes/:id',
+    {
+      schema: {
+        params: UserRouteParamsSchema,
+        response: {
+          404: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['User Routing'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const deleted = await fastify.db.deleteUserRoute(request.params.id)
+        if (!deleted) {
+          throw reply.notFound('User route not found')
+        }
+
+        reply.status(204)
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error deleting user route:', err)
+        throw reply.internalServerError('Unable to delete user route')
+      }
+    },
+  )
+}
+
+export default plugin
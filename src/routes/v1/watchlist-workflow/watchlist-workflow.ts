@@ -2,6 +2,9 @@ import type { FastifyPluginAsync } from 'fastify'
 import type { z } from 'zod'
 import {
   WatchlistWorkflowResponseSchema,
+  WorkflowPhaseParamsSchema,
+  WorkflowPhasesResponseSchema,
+  WorkflowPhaseRunResponseSchema,
   ErrorSchema,
 } from '@schemas/watchlist-workflow/watchlist-workflow.schema.js'
 
@@ -72,7 +75,11 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     async (request, reply) => {
       try {
         const status = fastify.watchlistWorkflow.getStatus()
-        if (status !== 'running' && status !== 'starting') {
+        if (
+          status !== 'running' &&
+          status !== 'starting' &&
+          status !== 'paused'
+        ) {
           return reply.badRequest(
             `Cannot stop workflow: current status is ${status}`,
           )
@@ -134,6 +141,175 @@ const plugin: FastifyPluginAsync = async (fastify) => {
       }
     },
   )
+
+  // Pause routing while keeping RSS snapshots
+  fastify.post<{
+    Reply: z.infer<typeof WatchlistWorkflowResponseSchema>
+  }>(
+    '/pause',
+    {
+      schema: {
+        response: {
+          200: WatchlistWorkflowResponseSchema,
+          400: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Watchlist Workflow'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const status = fastify.watchlistWorkflow.getStatus()
+        if (status !== 'running') {
+          return reply.badRequest(
+            `Cannot pause workflow: current status is ${status}`,
+          )
+        }
+
+        const result = await fastify.watchlistWorkflow.pause()
+        if (!result) {
+          return reply.internalServerError('Failed to pause Watchlist workflow')
+        }
+
+        const response: z.infer<typeof WatchlistWorkflowResponseSchema> = {
+          success: true,
+          status: fastify.watchlistWorkflow.getStatus(),
+          message: 'Watchlist workflow paused',
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error pausing Watchlist workflow:', err)
+        throw reply.internalServerError('Unable to pause Watchlist workflow')
+      }
+    },
+  )
+
+  // Resume a paused workflow
+  fastify.post<{
+    Reply: z.infer<typeof WatchlistWorkflowResponseSchema>
+  }>(
+    '/resume',
+    {
+      schema: {
+        response: {
+          200: WatchlistWorkflowResponseSchema,
+          400: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Watchlist Workflow'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const status = fastify.watchlistWorkflow.getStatus()
+        if (status !== 'paused') {
+          return reply.badRequest(
+            `Cannot resume workflow: current status is ${status}`,
+          )
+        }
+
+        const result = await fastify.watchlistWorkflow.resume()
+        if (!result) {
+          return reply.internalServerError(
+            'Failed to resume Watchlist workflow',
+          )
+        }
+
+        const response: z.infer<typeof WatchlistWorkflowResponseSchema> = {
+          success: true,
+          status: fastify.watchlistWorkflow.getStatus(),
+          message: 'Watchlist workflow resumed',
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error resuming Watchlist workflow:', err)
+        throw reply.internalServerError('Unable to resume Watchlist workflow')
+      }
+    },
+  )
+
+  // List workflow phases and when they last ran
+  fastify.get<{
+    Reply: z.infer<typeof WorkflowPhasesResponseSchema>
+  }>(
+    '/phases',
+    {
+      schema: {
+        response: {
+          200: WorkflowPhasesResponseSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Watchlist Workflow'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const phases = await fastify.watchlistWorkflow.getPhases()
+        return { success: true, phases }
+      } catch (err) {
+        fastify.log.error('Error fetching workflow phases:', err)
+        throw reply.internalServerError('Unable to fetch workflow phases')
+      }
+    },
+  )
+
+  // Run a single workflow phase in the background
+  fastify.post<{
+    Params: z.infer<typeof WorkflowPhaseParamsSchema>
+    Reply: z.infer<typeof WorkflowPhaseRunResponseSchema>
+  }>(
+    '/phases/:phase/run',
+    {
+      schema: {
+        params: WorkflowPhaseParamsSchema,
+        response: {
+          200: WorkflowPhaseRunResponseSchema,
+          400: ErrorSchema,
+          409: ErrorSchema,
+          500: ErrorSchema,
+        },
+        tags: ['Watchlist Workflow'],
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { phase } = request.params
+        const status = fastify.watchlistWorkflow.getStatus()
+        if (status === 'starting' || status === 'stopping') {
+          return reply.badRequest(
+            `Cannot run a phase while the workflow is ${status}`,
+          )
+        }
+
+        if (fastify.watchlistWorkflow.isPhaseRunning(phase)) {
+          return reply.conflict(`Phase ${phase} is already running`)
+        }
+
+        fastify.watchlistWorkflow.runPhase(phase).catch((err) => {
+          fastify.log.error(`Error running workflow phase ${phase}:`, err)
+        })
+
+        const response: z.infer<typeof WorkflowPhaseRunResponseSchema> = {
+          success: true,
+          phase,
+          message: `Workflow phase ${phase} started`,
+        }
+        return response
+      } catch (err) {
+        if (err instanceof Error && 'statusCode' in err) {
+          throw err
+        }
+        fastify.log.error('Error starting workflow phase:', err)
+        throw reply.internalServerError('Unable to start workflow phase')
+      }
+    },
+  )
 }
 
 export default plugin
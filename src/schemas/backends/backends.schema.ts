@@ -0,0 +1,67 @@
+import { z } from 'zod'
+
+export const MediaBackendInfoSchema = z.object({
+  type: z.string(),
+  displayName: z.string(),
+  contentType: z.enum(['show', 'movie', 'music', 'book']),
+})
+
+export const MediaBackendInstanceSummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  baseUrl: z.string(),
+  isDefault: z.boolean(),
+})
+
+export const BackendTypeParamsSchema = z.object({
+  type: z.string(),
+})
+
+export const BackendInstanceParamsSchema = z.object({
+  type: z.string(),
+  id: z.coerce.number(),
+})
+
+export const TestConnectionBodySchema = z.object({
+  baseUrl: z.string().trim().min(1, 'Base URL is required'),
+  apiKey: z.string().trim().min(1, 'API key is required'),
+})
+
+export const BackendTypesResponseSchema = z.object({
+  success: z.boolean(),
+  backends: z.array(MediaBackendInfoSchema),
+})
+
+export const BackendInstancesResponseSchema = z.object({
+  success: z.boolean(),
+  instances: z.array(MediaBackendInstanceSummarySchema),
+})
+
+export const TestConnectionResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+})
+
+export const BackendOptionsResponseSchema = z.object({
+  success: z.boolean(),
+  qualityProfiles: z.array(z.object({ id: z.number(), name: z.string() })),
+  rootFolders: z.array(z.object({ path: z.string() })),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type BackendTypesResponse = z.infer<typeof BackendTypesResponseSchema>
+export type BackendInstancesResponse = z.infer<
+  typeof BackendInstancesResponseSchema
+>
+export type BackendOptionsResponse = z.infer<
+  typeof BackendOptionsResponseSchema
+>
+export type TestConnectionResponse = z.infer<
+  typeof TestConnectionResponseSchema
+>
+export type Error = z.infer<typeof ErrorSchema>
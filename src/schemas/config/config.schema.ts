@@ -38,6 +38,10 @@ export const ConfigSchema = z.object({
   deleteContinuingShow: z.boolean().optional(),
   deleteIntervalDays: z.number().optional(),
   deleteFiles: z.boolean().optional(),
+  protectionTag: z.string().optional(),
+  removedItemAction: z.enum(['none', 'unmonitor', 'delete']).optional(),
+  removedItemGraceDays: z.number().optional(),
+  blockBrokenRouting: z.boolean().optional(),
   selfRss: z.string().optional(),
   friendsRss: z.string().optional(),
   _isReady: z.boolean().optional(),
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+// Schema for delete sync status responses
+export const DeleteSyncResponseSchema = z.object({
+  success: z.boolean(),
+  status: z.enum(['running', 'stopped', 'starting', 'stopping']),
+  message: z.string().optional(),
+  lastRun: z.string().nullable().optional(),
+  nextRun: z.string().nullable().optional(),
+})
+
+const DeleteSyncContentResultSchema = z.object({
+  deleted: z.number(),
+  skipped: z.number(),
+  failed: z.number(),
+})
+
+// Schema for the result of a delete sync run
+export const DeleteSyncRunResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  result: z.object({
+    shows: DeleteSyncContentResultSchema,
+    movies: DeleteSyncContentResultSchema,
+    startedAt: z.string(),
+    completedAt: z.string(),
+  }),
+})
+
+const DeleteSyncCandidateSchema = z.object({
+  instanceType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  instanceName: z.string(),
+  title: z.string(),
+  guids: z.array(z.string()),
+  reason: z.string(),
+  deleteFiles: z.boolean(),
+})
+
+// Schema for the dry-run report of what a delete sync would remove
+export const DeleteSyncPreviewResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  preview: z.object({
+    shows: z.array(DeleteSyncCandidateSchema),
+    movies: z.array(DeleteSyncCandidateSchema),
+    skipped: z.object({
+      shows: z.number(),
+      movies: z.number(),
+    }),
+    protected: z.object({
+      shows: z.number(),
+      movies: z.number(),
+    }),
+    generatedAt: z.string(),
+  }),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type DeleteSyncResponse = z.infer<typeof DeleteSyncResponseSchema>
+export type DeleteSyncRunResponse = z.infer<typeof DeleteSyncRunResponseSchema>
+export type DeleteSyncPreviewResponse = z.infer<
+  typeof DeleteSyncPreviewResponseSchema
+>
+export type Error = z.infer<typeof ErrorSchema>
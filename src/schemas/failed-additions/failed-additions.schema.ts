@@ -0,0 +1,57 @@
+import { z } from 'zod'
+
+export const FailedAdditionStatusSchema = z.enum(['retrying', 'dead'])
+
+export const FailedAdditionSchema = z.object({
+  id: z.number(),
+  instanceType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  guid: z.string(),
+  title: z.string(),
+  key: z.string(),
+  guids: z.array(z.string()),
+  genres: z.array(z.string()),
+  rootFolder: z.string().nullable(),
+  qualityProfile: z.string().nullable(),
+  statusCode: z.number().nullable(),
+  errorMessage: z.string(),
+  errorBody: z.string().nullable(),
+  attempts: z.number(),
+  status: FailedAdditionStatusSchema,
+  nextAttemptAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const FailedAdditionsQuerySchema = z.object({
+  status: FailedAdditionStatusSchema.optional(),
+})
+
+export const FailedAdditionParamsSchema = z.object({
+  id: z.coerce.number(),
+})
+
+export const FailedAdditionsResponseSchema = z.object({
+  success: z.boolean(),
+  items: z.array(FailedAdditionSchema),
+})
+
+export const RetryFailedAdditionResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  item: FailedAdditionSchema.nullable(),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type FailedAdditionsResponse = z.infer<
+  typeof FailedAdditionsResponseSchema
+>
+export type RetryFailedAdditionResponse = z.infer<
+  typeof RetryFailedAdditionResponseSchema
+>
+export type Error = z.infer<typeof ErrorSchema>
@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+export const GenreAliasSchema = z.object({
+  id: z.number(),
+  alias: z.string(),
+  genre: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const CreateGenreAliasSchema = z
+  .object({
+    alias: z.string().trim().min(1, 'Alias is required'),
+    genre: z.string().trim().min(1, 'Genre is required'),
+  })
+  .refine((alias) => alias.alias.toLowerCase() !== alias.genre.toLowerCase(), {
+    message: 'A genre cannot be an alias of itself',
+  })
+
+export const GenreAliasParamsSchema = z.object({
+  id: z.coerce.number(),
+})
+
+export const GenreAliasesResponseSchema = z.object({
+  success: z.boolean(),
+  aliases: z.array(GenreAliasSchema),
+})
+
+export const GenreAliasResponseSchema = z.object({
+  success: z.boolean(),
+  alias: GenreAliasSchema,
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type GenreAliasesResponse = z.infer<typeof GenreAliasesResponseSchema>
+export type GenreAliasResponse = z.infer<typeof GenreAliasResponseSchema>
+export type CreateGenreAlias = z.infer<typeof CreateGenreAliasSchema>
+export type Error = z.infer<typeof ErrorSchema>
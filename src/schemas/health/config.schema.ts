@@ -0,0 +1,30 @@
+import { z } from 'zod'
+
+const ConfigIssueSchema = z.object({
+  instanceType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  instanceName: z.string(),
+  scope: z.enum(['instance', 'genre-route', 'user-route', 'routing-rule']),
+  scopeId: z.number(),
+  scopeName: z.string(),
+  field: z.enum(['connection', 'rootFolder', 'qualityProfile']),
+  value: z.string().nullable(),
+  message: z.string(),
+})
+
+export const ConfigHealthResponseSchema = z.object({
+  success: z.boolean(),
+  healthy: z.boolean(),
+  checkedAt: z.string().nullable(),
+  blockBrokenRouting: z.boolean(),
+  issues: z.array(ConfigIssueSchema),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type ConfigHealthResponse = z.infer<typeof ConfigHealthResponseSchema>
+export type Error = z.infer<typeof ErrorSchema>
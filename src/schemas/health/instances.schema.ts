@@ -0,0 +1,50 @@
+import { z } from 'zod'
+
+const InstanceHealthCheckSchema = z.object({
+  healthy: z.boolean(),
+  latencyMs: z.number().nullable(),
+  error: z.string().nullable(),
+  checkedAt: z.string(),
+})
+
+const InstanceHealthSchema = z.object({
+  instanceType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  instanceName: z.string(),
+  status: z.enum(['up', 'down', 'unknown']),
+  latencyMs: z.number().nullable(),
+  lastError: z.string().nullable(),
+  lastCheckedAt: z.string().nullable(),
+  statusChangedAt: z.string().nullable(),
+  consecutiveFailures: z.number(),
+  history: z.array(InstanceHealthCheckSchema),
+})
+
+export const InstanceHealthParamsSchema = z.object({
+  type: z.enum(['sonarr', 'radarr']),
+  id: z.coerce.number(),
+})
+
+export const InstancesHealthResponseSchema = z.object({
+  success: z.boolean(),
+  instances: z.array(InstanceHealthSchema),
+})
+
+export const InstanceHealthResponseSchema = z.object({
+  success: z.boolean(),
+  instance: InstanceHealthSchema,
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type InstancesHealthResponse = z.infer<
+  typeof InstancesHealthResponseSchema
+>
+export type InstanceHealthResponse = z.infer<
+  typeof InstanceHealthResponseSchema
+>
+export type Error = z.infer<typeof ErrorSchema>
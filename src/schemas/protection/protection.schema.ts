@@ -0,0 +1,58 @@
+import { z } from 'zod'
+
+export const ProtectedItemSchema = z.object({
+  id: z.number(),
+  guid: z.string(),
+  title: z.string().nullable(),
+  reason: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const CreateProtectedItemSchema = z.object({
+  guid: z.string().min(1, 'GUID is required'),
+  title: z.string().nullish(),
+  reason: z.string().nullish(),
+})
+
+export const ProtectedItemParamsSchema = z.object({
+  id: z.coerce.number(),
+})
+
+export const ProtectedItemsResponseSchema = z.object({
+  success: z.boolean(),
+  items: z.array(ProtectedItemSchema),
+})
+
+export const ProtectedItemResponseSchema = z.object({
+  success: z.boolean(),
+  item: ProtectedItemSchema,
+})
+
+export const TaggedItemsResponseSchema = z.object({
+  success: z.boolean(),
+  tag: z.string(),
+  items: z.array(
+    z.object({
+      instanceType: z.enum(['sonarr', 'radarr']),
+      instanceId: z.number(),
+      instanceName: z.string(),
+      title: z.string(),
+      guids: z.array(z.string()),
+    }),
+  ),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type ProtectedItemsResponse = z.infer<
+  typeof ProtectedItemsResponseSchema
+>
+export type ProtectedItemResponse = z.infer<typeof ProtectedItemResponseSchema>
+export type CreateProtectedItem = z.infer<typeof CreateProtectedItemSchema>
+export type TaggedItemsResponse = z.infer<typeof TaggedItemsResponseSchema>
+export type Error = z.infer<typeof ErrorSchema>
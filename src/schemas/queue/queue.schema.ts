@@ -0,0 +1,55 @@
+import { z } from 'zod'
+
+export const QueueStatusSchema = z.enum([
+  'pending',
+  'in_progress',
+  'done',
+  'failed',
+])
+
+export const QueueItemSchema = z.object({
+  id: z.number(),
+  guid: z.string(),
+  title: z.string(),
+  type: z.string(),
+  key: z.string(),
+  thumb: z.string().nullable(),
+  guids: z.array(z.string()),
+  genres: z.array(z.string()),
+  source: z.enum(['self', 'friends']).nullable(),
+  status: QueueStatusSchema,
+  attempts: z.number(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const QueueItemsQuerySchema = z.object({
+  status: QueueStatusSchema.optional(),
+})
+
+export const QueueItemParamsSchema = z.object({
+  id: z.coerce.number(),
+})
+
+export const QueueItemsResponseSchema = z.object({
+  success: z.boolean(),
+  items: z.array(QueueItemSchema),
+})
+
+export const QueueItemResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  item: QueueItemSchema,
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type QueueItemsResponse = z.infer<typeof QueueItemsResponseSchema>
+export type QueueItemResponse = z.infer<typeof QueueItemResponseSchema>
+export type Error = z.infer<typeof ErrorSchema>
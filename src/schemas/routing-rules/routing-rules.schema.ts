@@ -0,0 +1,111 @@
+import { z } from 'zod'
+import type { RoutingRuleCondition } from '@root/types/routing-rule.types.js'
+
+export const RoutingRuleConditionSchema: z.ZodType<RoutingRuleCondition> =
+  z.lazy(() =>
+    z.union([
+      z.object({
+        type: z.enum(['and', 'or']),
+        conditions: z.array(RoutingRuleConditionSchema).min(1),
+      }),
+      z.object({
+        type: z.literal('not'),
+        condition: RoutingRuleConditionSchema,
+      }),
+      z.object({
+        type: z.literal('match'),
+        field: z.enum([
+          'genre',
+          'user',
+          'year',
+          'language',
+          'certification',
+          'contentType',
+        ]),
+        operator: z.enum(['equals', 'in', 'gt', 'gte', 'lt', 'lte']),
+        value: z.union([
+          z.string(),
+          z.number(),
+          z.array(z.union([z.string(), z.number()])),
+        ]),
+      }),
+    ]),
+  )
+
+export const RoutingRuleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  targetType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  priority: z.number(),
+  enabled: z.boolean(),
+  condition: RoutingRuleConditionSchema,
+  rootFolder: z.string().nullable(),
+  qualityProfile: z.number().nullable(),
+  tags: z.array(z.string()),
+  seasonMonitoring: z.string().nullable(),
+  monitored: z.boolean(),
+  searchOnAdd: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const CreateRoutingRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  targetType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number().int().positive(),
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  condition: RoutingRuleConditionSchema,
+  rootFolder: z.string().nullable().default(null),
+  qualityProfile: z.number().int().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  seasonMonitoring: z.string().nullable().default(null),
+  monitored: z.boolean().default(true),
+  searchOnAdd: z.boolean().default(true),
+})
+
+export const UpdateRoutingRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  targetType: z.enum(['sonarr', 'radarr']).optional(),
+  instanceId: z.number().int().positive().optional(),
+  priority: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+  condition: RoutingRuleConditionSchema.optional(),
+  rootFolder: z.string().nullable().optional(),
+  qualityProfile: z.number().int().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  seasonMonitoring: z.string().nullable().optional(),
+  monitored: z.boolean().optional(),
+  searchOnAdd: z.boolean().optional(),
+})
+
+export const RoutingRuleParamsSchema = z.object({
+  id: z.coerce.number(),
+})
+
+export const RoutingRulesQuerySchema = z.object({
+  targetType: z.enum(['sonarr', 'radarr']).optional(),
+})
+
+export const RoutingRulesResponseSchema = z.object({
+  success: z.boolean(),
+  rules: z.array(RoutingRuleSchema),
+})
+
+export const RoutingRuleResponseSchema = z.object({
+  success: z.boolean(),
+  rule: RoutingRuleSchema,
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type RoutingRulesResponse = z.infer<typeof RoutingRulesResponseSchema>
+export type RoutingRuleResponse = z.infer<typeof RoutingRuleResponseSchema>
+export type CreateRoutingRule = z.infer<typeof CreateRoutingRuleSchema>
+export type UpdateRoutingRule = z.infer<typeof UpdateRoutingRuleSchema>
+export type Error = z.infer<typeof ErrorSchema>
@@ -0,0 +1,60 @@
+import { z } from 'zod'
+
+export const RoutingHistoryParamsSchema = z.object({
+  guid: z.string().min(1),
+})
+
+export const RecentlyRoutedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+})
+
+const RoutingHistoryEntrySchema = z.object({
+  id: z.number(),
+  guid: z.string(),
+  key: z.string(),
+  title: z.string(),
+  instanceType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  instanceName: z.string().nullable(),
+  source: z.enum(['rule', 'user-route', 'genre-route', 'default', 'retry']),
+  routeName: z.string(),
+  rootFolder: z.string().nullable(),
+  qualityProfile: z.string().nullable(),
+  status: z.enum(['success', 'failed']),
+  errorMessage: z.string().nullable(),
+  createdAt: z.string(),
+})
+
+const RoutedItemSummarySchema = z.object({
+  guid: z.string(),
+  title: z.string(),
+  instanceCount: z.number(),
+  failureCount: z.number(),
+  lastRoutedAt: z.string(),
+})
+
+export const RecentlyRoutedResponseSchema = z.object({
+  success: z.boolean(),
+  items: z.array(RoutedItemSummarySchema),
+})
+
+export const RoutingHistoryResponseSchema = z.object({
+  success: z.boolean(),
+  history: z.array(RoutingHistoryEntrySchema),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type RoutingHistoryParams = z.infer<typeof RoutingHistoryParamsSchema>
+export type RecentlyRoutedQuery = z.infer<typeof RecentlyRoutedQuerySchema>
+export type RecentlyRoutedResponse = z.infer<
+  typeof RecentlyRoutedResponseSchema
+>
+export type RoutingHistoryResponse = z.infer<
+  typeof RoutingHistoryResponseSchema
+>
+export type Error = z.infer<typeof ErrorSchema>
@@ -0,0 +1,88 @@
+import { z } from 'zod'
+
+export const SimulateRoutingSchema = z
+  .object({
+    guid: z.string().min(1).optional(),
+    title: z.string().min(1).optional(),
+    type: z.enum(['show', 'movie']).optional(),
+    genres: z.array(z.string()).optional(),
+    user: z.string().min(1).optional(),
+  })
+  .refine((body) => body.guid || body.title, {
+    message: 'Either guid or title is required',
+  })
+
+const RoutingTargetSchema = z.object({
+  instanceId: z.number(),
+  instanceName: z.string(),
+  source: z.enum(['rule', 'user-route', 'genre-route', 'default']),
+  reason: z.string(),
+  rootFolder: z.string().nullable(),
+  qualityProfile: z.union([z.number(), z.string()]).nullable(),
+  resolved: z
+    .object({
+      rootFolder: z.string(),
+      qualityProfileId: z.union([z.number(), z.string()]).nullable(),
+      qualityProfileName: z.string().nullable(),
+      tags: z.array(z.string()),
+      monitored: z.boolean(),
+      searchOnAdd: z.boolean(),
+      seasonMonitoring: z.string().optional(),
+      seriesType: z.enum(['standard', 'anime', 'daily']).optional(),
+      seasonFolder: z.boolean().optional(),
+      minimumAvailability: z
+        .enum(['announced', 'inCinemas', 'released'])
+        .optional(),
+      movieMonitor: z
+        .enum(['movieOnly', 'movieAndCollection', 'none'])
+        .optional(),
+    })
+    .nullable(),
+  error: z.string().nullable(),
+})
+
+export const SimulateRoutingResponseSchema = z.object({
+  success: z.boolean(),
+  item: z.object({
+    title: z.string(),
+    type: z.enum(['show', 'movie']),
+    guids: z.array(z.string()),
+    genres: z.array(z.string()),
+    users: z.array(z.string()),
+  }),
+  plan: z.object({
+    matchedRule: z.object({ id: z.number(), name: z.string() }).nullable(),
+    userRoutes: z.array(
+      z.object({
+        id: z.number(),
+        userName: z.string(),
+        instanceId: z.number(),
+        exclusive: z.boolean(),
+      }),
+    ),
+    genreRoutes: z.array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+        genre: z.string(),
+        instanceId: z.number(),
+      }),
+    ),
+    defaultInstanceId: z.number().nullable(),
+    syncedInstanceIds: z.array(z.number()),
+    requesters: z.array(z.string()),
+    targets: z.array(RoutingTargetSchema),
+  }),
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type SimulateRouting = z.infer<typeof SimulateRoutingSchema>
+export type SimulateRoutingResponse = z.infer<
+  typeof SimulateRoutingResponseSchema
+>
+export type Error = z.infer<typeof ErrorSchema>
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+export const QuerystringSchema = z.object({
+  instanceId: z.string(),
+})
+
+export const CreateTagSchema = z.object({
+  instanceId: z.number().min(1, 'Sonarr Instance ID is required'),
+  label: z.string().regex(/[a-z0-9]/i, 'Label must contain a letter or digit'),
+})
+
+export const TagSchema = z.object({
+  id: z.number(),
+  label: z.string(),
+})
+
+export const TagsResponseSchema = z.object({
+  success: z.boolean(),
+  tags: z.array(TagSchema),
+})
+
+export const TagResponseSchema = z.object({
+  success: z.boolean(),
+  tag: TagSchema,
+})
+
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type Querystring = z.infer<typeof QuerystringSchema>
+export type CreateTag = z.infer<typeof CreateTagSchema>
+export type Tag = z.infer<typeof TagSchema>
+export type TagsResponse = z.infer<typeof TagsResponseSchema>
+export type TagResponse = z.infer<typeof TagResponseSchema>
+export type Error = z.infer<typeof ErrorSchema>
@@ -38,6 +38,9 @@ export const InstanceStatSchema = z.object({
   instance_type: z.enum(['sonarr', 'radarr']),
   name: z.string(),
   item_count: z.number(),
+  requested_count: z.number(),
+  grabbed_count: z.number(),
+  available_count: z.number(),
 })
 
 export const AvailabilityTimeSchema = z.object({
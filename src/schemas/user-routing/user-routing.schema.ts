@@ -0,0 +1,55 @@
+import { z } from 'zod'
+
+export const UserRouteSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  userName: z.string(),
+  targetType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number(),
+  rootFolder: z.string().nullable(),
+  qualityProfile: z.number().nullable(),
+  exclusive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const CreateUserRouteSchema = z.object({
+  userId: z.number().int().positive(),
+  targetType: z.enum(['sonarr', 'radarr']),
+  instanceId: z.number().int().positive(),
+  rootFolder: z.string().nullable().default(null),
+  qualityProfile: z.number().int().nullable().default(null),
+  exclusive: z.boolean().default(true),
+})
+
+export const UpdateUserRouteSchema = CreateUserRouteSchema.partial()
+
+export const UserRouteParamsSchema = z.object({
+  id: z.coerce.number(),
+})
+
+export const UserRoutesQuerySchema = z.object({
+  userId: z.coerce.number().optional(),
+})
+
+export const UserRoutesResponseSchema = z.object({
+  success: z.boolean(),
+  routes: z.array(UserRouteSchema),
+})
+
+export const UserRouteResponseSchema = z.object({
+  success: z.boolean(),
+  route: UserRouteSchema,
+})
+
+// Common error schema
+export const ErrorSchema = z.object({
+  message: z.string(),
+})
+
+// Type exports
+export type UserRoutesResponse = z.infer<typeof UserRoutesResponseSchema>
+export type UserRouteResponse = z.infer<typeof UserRouteResponseSchema>
+export type CreateUserRoute = z.infer<typeof CreateUserRouteSchema>
+export type UpdateUserRoute = z.infer<typeof UpdateUserRouteSchema>
+export type Error = z.infer<typeof ErrorSchema>
@@ -3,10 +3,38 @@ import { z } from 'zod'
 // Schema for Watchlist workflow status responses
 export const WatchlistWorkflowResponseSchema = z.object({
   success: z.boolean(),
-  status: z.enum(['running', 'stopped', 'starting', 'stopping']),
+  status: z.enum(['running', 'stopped', 'starting', 'stopping', 'paused']),
   message: z.string().optional(),
 })
 
+export const WorkflowPhaseSchema = z.enum([
+  'refresh',
+  'status-sync',
+  'initial-sync',
+  'rss',
+])
+
+export const WorkflowPhaseParamsSchema = z.object({
+  phase: WorkflowPhaseSchema,
+})
+
+export const WorkflowPhasesResponseSchema = z.object({
+  success: z.boolean(),
+  phases: z.array(
+    z.object({
+      phase: WorkflowPhaseSchema,
+      lastRunAt: z.string().nullable(),
+      running: z.boolean(),
+    }),
+  ),
+})
+
+export const WorkflowPhaseRunResponseSchema = z.object({
+  success: z.boolean(),
+  phase: WorkflowPhaseSchema,
+  message: z.string(),
+})
+
 // Common error schema
 export const ErrorSchema = z.object({
   message: z.string(),
@@ -16,4 +44,10 @@ export const ErrorSchema = z.object({
 export type WatchlistWorkflowResponse = z.infer<
   typeof WatchlistWorkflowResponseSchema
 >
+export type WorkflowPhasesResponse = z.infer<
+  typeof WorkflowPhasesResponseSchema
+>
+export type WorkflowPhaseRunResponse = z.infer<
+  typeof WorkflowPhaseRunResponseSchema
+>
 export type Error = z.infer<typeof ErrorSchema>
@@ -0,0 +1,307 @@
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
+import type {
+  ConfigHealthReport,
+  ConfigIssue,
+  ConfigReferenceScope,
+} from '@root/types/config-health.types.js'
+import type { RoutingRule } from '@root/types/routing-rule.types.js'
+import type { UserRoute } from '@root/types/user-routing.types.js'
+import { findQualityProfile, hasRootFolder } from '@utils/arr-references.js'
+
+interface ArrReference {
+  scope: ConfigReferenceScope
+  scopeId: number
+  scopeName: string
+  instanceId: number
+  rootFolder: string | null | undefined
+  qualityProfile: string | number | null | undefined
+}
+
+interface ArrAvailableReferences {
+  profiles: Array<{ id: number; name: string }>
+  rootFolders: Array<{ path: string }>
+}
+
+interface ArrInstanceState {
+  id: number
+  name: string
+  apiKey: string
+  fetchReferences: () => Promise<ArrAvailableReferences>
+}
+
+export class ConfigValidatorService {
+  private validateInterval: NodeJS.Timeout | null = null
+  private lastReport: Omit<ConfigHealthReport, 'blockBrokenRouting'> = {
+    checkedAt: null,
+    issues: [],
+  }
+
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly fastify: FastifyInstance,
+    private readonly validateIntervalMs: number = 60 * 60 * 1000,
+  ) {}
+
+  private get dbService() {
+    return this.fastify.db
+  }
+
+  start() {
+    if (this.validateInterval) {
+      clearInterval(this.validateInterval)
+    }
+
+    this.validateInterval = setInterval(async () => {
+      try {
+        await this.validate()
+      } catch (error) {
+        this.log.error('Error validating instance configuration:', error)
+      }
+    }, this.validateIntervalMs)
+  }
+
+  stop() {
+    if (this.validateInterval) {
+      clearInterval(this.validateInterval)
+      this.validateInterval = null
+    }
+  }
+
+  getReport(): ConfigHealthReport {
+    return {
+      ...this.lastReport,
+      blockBrokenRouting: this.fastify.config.blockBrokenRouting,
+    }
+  }
+
+  /**
+   * Checks the root folder and quality profile of every instance, genre
+   * route, user route and routing rule against what its Sonarr or Radarr
+   * instance currently offers.
+   */
+  async validate(): Promise<ConfigHealthReport> {
+    const [sonarrIssues, radarrIssues] = await Promise.all([
+      this.validateSonarr(),
+      this.validateRadarr(),
+    ])
+    const issues = [...sonarrIssues, ...radarrIssues]
+
+    this.lastReport = { checkedAt: new Date().toISOString(), issues }
+    if (issues.length > 0) {
+      this.log.warn(
+        `Configuration validation found ${issues.length} broken references`,
+      )
+    }
+    return this.getReport()
+  }
+
+  private async validateSonarr(): Promise<ConfigIssue[]> {
+    const [instances, genreRoutes, userRoutes, rules] = await Promise.all([
+      this.dbService.getAllSonarrInstances(),
+      this.dbService.getSonarrGenreRoutes(),
+      this.dbService.getUserRoutes(),
+      this.dbService.getRoutingRules('sonarr'),
+    ])
+
+    const references: ArrReference[] = [
+      ...instances.map((instance) => ({
+        scope: 'instance' as const,
+        scopeId: instance.id,
+        scopeName: instance.name,
+        instanceId: instance.id,
+        rootFolder: instance.rootFolder,
+        qualityProfile: instance.qualityProfile,
+      })),
+      ...genreRoutes.map((route) => ({
+        scope: 'genre-route' as const,
+        scopeId: route.id,
+        scopeName: route.name,
+        instanceId: route.sonarrInstanceId,
+        rootFolder: route.rootFolder,
+        qualityProfile: route.qualityProfile,
+      })),
+      ...this.routeReferences(userRoutes, rules, 'sonarr'),
+    ]
+
+    return this.validateReferences(
+      'sonarr',
+      instances.map((instance) => ({
+        id: instance.id,
+        name: instance.name,
+        apiKey: instance.apiKey,
+        fetchReferences: async () => {
+          const service = this.fastify.sonarrManager.getSonarrService(
+            instance.id,
+          )
+          if (!service) {
+            throw new Error(`Sonarr service ${instance.id} not initialized`)
+          }
+          const [profiles, rootFolders] = await Promise.all([
+            service.fetchQualityProfiles(),
+            service.fetchRootFolders(),
+          ])
+          return { profiles, rootFolders }
+        },
+      })),
+      references,
+    )
+  }
+
+  private async validateRadarr(): Promise<ConfigIssue[]> {
+    const [instances, genreRoutes, userRoutes, rules] = await Promise.all([
+      this.dbService.getAllRadarrInstances(),
+      this.dbService.getRadarrGenreRoutes(),
+      this.dbService.getUserRoutes(),
+      this.dbService.getRoutingRules('radarr'),
+    ])
+
+    const references: ArrReference[] = [
+      ...instances.map((instance) => ({
+        scope: 'instance' as const,
+        scopeId: instance.id,
+        scopeName: instance.name,
+        instanceId: instance.id,
+        rootFolder: instance.rootFolder,
+        qualityProfile: instance.qualityProfile,
+      })),
+      ...genreRoutes.map((route) => ({
+        scope: 'genre-route' as const,
+        scopeId: route.id,
+        scopeName: route.name,
+        instanceId: route.radarrInstanceId,
+        rootFolder: route.rootFolder,
+        qualityProfile: route.qualityProfile,
+      })),
+      ...this.routeReferences(userRoutes, rules, 'radarr'),
+    ]
+
+    return this.validateReferences(
+      'radarr',
+      instances.map((instance) => ({
+        id: instance.id,
+        name: instance.name,
+        apiKey: instance.apiKey,
+        fetchReferences: async () => {
+          const service = this.fastify.radarrManager.getRadarrService(
+            instance.id,
+          )
+          if (!service) {
+            throw new Error(`Radarr service ${instance.id} not initialized`)
+          }
+          const [profiles, rootFolders] = await Promise.all([
+            service.fetchQualityProfiles(),
+            service.fetchRootFolders(),
+          ])
+          return { profiles, rootFolders }
+        },
+      })),
+      references,
+    )
+  }
+
+  private routeReferences(
+    userRoutes: UserRoute[],
+    rules: RoutingRule[],
+    instanceType: 'sonarr' | 'radarr',
+  ): ArrReference[] {
+    return [
+      ...userRoutes
+        .filter((route) => route.targetType === instanceType)
+        .map((route) => ({
+          scope: 'user-route' as const,
+          scopeId: route.id,
+          scopeName: `User route for ${route.userName}`,
+          instanceId: route.instanceId,
+          rootFolder: route.rootFolder,
+          qualityProfile: route.qualityProfile,
+        })),
+      ...rules.map((rule) => ({
+        scope: 'routing-rule' as const,
+        scopeId: rule.id,
+        scopeName: rule.name,
+        instanceId: rule.instanceId,
+        rootFolder: rule.rootFolder,
+        qualityProfile: rule.qualityProfile,
+      })),
+    ]
+  }
+
+  /**
+   * Fetches each instance's quality profiles and root folders once and
+   * checks every reference pointing at it. Unreachable instances are
+   * reported as a single connection issue rather than one per reference.
+   */
+  private async validateReferences(
+    instanceType: 'sonarr' | 'radarr',
+    instances: ArrInstanceState[],
+    references: ArrReference[],
+  ): Promise<ConfigIssue[]> {
+    const issues: ConfigIssue[] = []
+
+    for (const instance of instances) {
+      // Placeholder instances have not been set up yet
+      if (instance.apiKey === 'placeholder') continue
+
+      const base = {
+        instanceType,
+        instanceId: instance.id,
+        instanceName: instance.name,
+      }
+
+      let available: ArrAvailableReferences
+      try {
+        available = await instance.fetchReferences()
+      } catch (error) {
+        issues.push({
+          ...base,
+          scope: 'instance',
+          scopeId: instance.id,
+          scopeName: instance.name,
+          field: 'connection',
+          value: null,
+          message: `Could not load quality profiles and root folders: ${error instanceof Error ? error.message : String(error)}`,
+        })
+        continue
+      }
+
+      for (const reference of references) {
+        if (reference.instanceId !== instance.id) continue
+
+        const scope = {
+          ...base,
+          scope: reference.scope,
+          scopeId: reference.scopeId,
+          scopeName: reference.scopeName,
+        }
+
+        if (
+          reference.rootFolder &&
+          !hasRootFolder(available.rootFolders, reference.rootFolder)
+        ) {
+          issues.push({
+            ...scope,
+            field: 'rootFolder',
+            value: reference.rootFolder,
+            message: `Root folder "${reference.rootFolder}" no longer exists`,
+          })
+        }
+
+        if (
+          reference.qualityProfile !== null &&
+          reference.qualityProfile !== undefined &&
+          reference.qualityProfile !== '' &&
+          !findQualityProfile(available.profiles, reference.qualityProfile)
+        ) {
+          issues.push({
+            ...scope,
+            field: 'qualityProfile',
+            value: String(reference.qualityProfile),
+            message: `Quality profile "${reference.qualityProfile}" no longer exists`,
+          })
+        }
+      }
+    }
+
+    return issues
+  }
+}
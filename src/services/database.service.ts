@@ -9,6 +9,8 @@ import type { AdminUser } from '@schemas/auth/auth.js'
 import type {
   SonarrInstance,
   SonarrGenreRoute,
+  SonarrSeriesType,
+  SonarrRouteMonitoring,
   SonarrEpisodeSchema,
   MediaNotification,
   NotificationResult,
@@ -16,7 +18,46 @@ import type {
 import type {
   RadarrInstance,
   RadarrGenreRoute,
+  RadarrMinimumAvailability,
+  RadarrMonitorMode,
 } from '@root/types/radarr.types.js'
+import type { ProtectedItem } from '@root/types/protection.types.js'
+import type { PendingDeletion } from '@root/types/delete-sync.types.js'
+import type {
+  NewWorkflowQueueItem,
+  WorkflowQueueItem,
+  WorkflowQueueStatus,
+} from '@root/types/workflow-queue.types.js'
+import type {
+  FailedAddition,
+  FailedAdditionStatus,
+  NewFailedAddition,
+} from '@root/types/failed-addition.types.js'
+import type {
+  RoutingRule,
+  RoutingRuleInput,
+} from '@root/types/routing-rule.types.js'
+import type {
+  UserRoute,
+  UserRouteInput,
+} from '@root/types/user-routing.types.js'
+import type {
+  GenreAlias,
+  GenreAliasInput,
+} from '@root/types/genre-alias.types.js'
+import type {
+  NewRoutingHistoryEntry,
+  RoutedItemSummary,
+  RoutingHistoryEntry,
+} from '@root/types/routing-history.types.js'
+import type { WatchlistItemInstance } from '@root/types/watchlist-status.types.js'
+import type {
+  InstanceHealthCheck,
+  NewInstanceHealthCheck,
+} from '@root/types/instance-health.types.js'
+
+/** Sync checkpoint moved forward whenever routing configuration is deleted */
+const ROUTING_DELETION_CHECKPOINT = 'routing_deleted'
 
 export class DatabaseService {
   private readonly knex: Knex
@@ -232,6 +273,11 @@ export class DatabaseService {
       queueWaitTime: config.queueWaitTime || 120000,
       newEpisodeThreshold: config.newEpisodeThreshold || 172800000,
       upgradeBufferTime: config.upgradeBufferTime || 2000,
+      // Handle protection defaults
+      protectionTag: config.protectionTag || 'pulsarr-keep',
+      // Handle watchlist removal defaults
+      removedItemAction: config.removedItemAction || 'none',
+      removedItemGraceDays: config.removedItemGraceDays ?? 7,
       // Convert boolean fields
       cookieSecured: Boolean(config.cookieSecured),
       skipFriendSync: Boolean(config.skipFriendSync),
@@ -239,6 +285,7 @@ export class DatabaseService {
       deleteEndedShow: Boolean(config.deleteEndedShow),
       deleteContinuingShow: Boolean(config.deleteContinuingShow),
       deleteFiles: Boolean(config.deleteFiles),
+      blockBrokenRouting: Boolean(config.blockBrokenRouting),
       _isReady: Boolean(config._isReady),
     }
   }
@@ -274,6 +321,11 @@ export class DatabaseService {
         deleteContinuingShow: config.deleteContinuingShow,
         deleteIntervalDays: config.deleteIntervalDays,
         deleteFiles: config.deleteFiles,
+        protectionTag: config.protectionTag,
+        removedItemAction: config.removedItemAction,
+        removedItemGraceDays: config.removedItemGraceDays,
+        // Routing fields
+        blockBrokenRouting: config.blockBrokenRouting,
         // RSS fields
         selfRss: config.selfRss,
         friendsRss: config.friendsRss,
@@ -338,7 +390,11 @@ export class DatabaseService {
       rootFolder: instance.root_folder,
       bypassIgnored: Boolean(instance.bypass_ignored),
       seasonMonitoring: instance.season_monitoring,
+      seriesType: instance.series_type ?? 'standard',
+      seasonFolder: Boolean(instance.season_folder ?? true),
+      searchOnAdd: Boolean(instance.search_on_add ?? true),
       tags: JSON.parse(instance.tags || '[]'),
+      userTags: Boolean(instance.user_tags),
       isDefault: Boolean(instance.is_default),
       syncedInstances: JSON.parse(instance.synced_instances || '[]'),
     }))
@@ -363,7 +419,11 @@ export class DatabaseService {
       rootFolder: instance.root_folder,
       bypassIgnored: Boolean(instance.bypass_ignored),
       seasonMonitoring: instance.season_monitoring,
+      seriesType: instance.series_type ?? 'standard',
+      seasonFolder: Boolean(instance.season_folder ?? true),
+      searchOnAdd: Boolean(instance.search_on_add ?? true),
       tags: JSON.parse(instance.tags || '[]'),
+      userTags: Boolean(instance.user_tags),
       isDefault: true,
       syncedInstances: JSON.parse(instance.synced_instances || '[]'),
     }
@@ -383,7 +443,11 @@ export class DatabaseService {
       rootFolder: instance.root_folder,
       bypassIgnored: Boolean(instance.bypass_ignored),
       seasonMonitoring: instance.season_monitoring,
+      seriesType: instance.series_type ?? 'standard',
+      seasonFolder: Boolean(instance.season_folder ?? true),
+      searchOnAdd: Boolean(instance.search_on_add ?? true),
       tags: JSON.parse(instance.tags || '[]'),
+      userTags: Boolean(instance.user_tags),
       isDefault: Boolean(instance.is_default),
       syncedInstances: JSON.parse(instance.synced_instances || '[]'),
     }
@@ -407,7 +471,11 @@ export class DatabaseService {
         root_folder: instance.rootFolder,
         bypass_ignored: instance.bypassIgnored,
         season_monitoring: instance.seasonMonitoring,
+        series_type: instance.seriesType ?? 'standard',
+        season_folder: instance.seasonFolder ?? true,
+        search_on_add: instance.searchOnAdd ?? true,
         tags: JSON.stringify(instance.tags || []),
+        user_tags: instance.userTags ?? false,
         is_default: instance.isDefault ?? false,
         is_enabled: true,
         synced_instances: JSON.stringify(instance.syncedInstances || []),
@@ -461,9 +529,21 @@ export class DatabaseService {
         ...(typeof updates.seasonMonitoring !== 'undefined' && {
           season_monitoring: updates.seasonMonitoring,
         }),
+        ...(typeof updates.seriesType !== 'undefined' && {
+          series_type: updates.seriesType,
+        }),
+        ...(typeof updates.seasonFolder !== 'undefined' && {
+          season_folder: updates.seasonFolder,
+        }),
+        ...(typeof updates.searchOnAdd !== 'undefined' && {
+          search_on_add: updates.searchOnAdd,
+        }),
         ...(typeof updates.tags !== 'undefined' && {
           tags: JSON.stringify(updates.tags),
         }),
+        ...(typeof updates.userTags !== 'undefined' && {
+          user_tags: updates.userTags,
+        }),
         ...(typeof updates.isDefault !== 'undefined' && {
           is_default: updates.isDefault,
         }),
@@ -475,20 +555,17 @@ export class DatabaseService {
   }
 
   async deleteSonarrInstance(id: number): Promise<void> {
+    await this.knex('watchlist_item_instances')
+      .where({ instance_type: 'sonarr', instance_id: id })
+      .delete()
     await this.knex('sonarr_instances').where('id', id).delete()
+    await this.recordRoutingDeletion()
   }
 
   async getSonarrGenreRoutes(): Promise<SonarrGenreRoute[]> {
     const routes = await this.knex('sonarr_genre_routing').select('*')
 
-    return routes.map((route) => ({
-      id: route.id,
-      sonarrInstanceId: route.sonarr_instance_id,
-      name: route.name,
-      genre: route.genre,
-      rootFolder: route.root_folder,
-      qualityProfile: route.quality_profile,
-    }))
+    return routes.map((route) => this.mapSonarrGenreRoute(route))
   }
 
   async createSonarrGenreRoute(
@@ -501,19 +578,16 @@ export class DatabaseService {
         genre: route.genre,
         root_folder: route.rootFolder,
         quality_profile: route.qualityProfile,
+        season_monitoring: route.seasonMonitoring ?? null,
+        series_type: route.seriesType ?? null,
+        season_folder: route.seasonFolder ?? null,
+        search_on_add: route.searchOnAdd ?? null,
         created_at: this.timestamp,
         updated_at: this.timestamp,
       })
-      .returning([
-        'id',
-        'name',
-        'sonarr_instance_id as sonarrInstanceId',
-        'genre',
-        'root_folder as rootFolder',
-        'quality_profile as qualityProfile',
-      ])
+      .returning('*')
 
-    return createdRoute
+    return this.mapSonarrGenreRoute(createdRoute)
   }
 
   async updateSonarrGenreRoute(
@@ -529,12 +603,53 @@ export class DatabaseService {
         ...(updates.qualityProfile && {
           quality_profile: updates.qualityProfile,
         }),
+        ...(updates.seasonMonitoring !== undefined && {
+          season_monitoring: updates.seasonMonitoring,
+        }),
+        ...(updates.seriesType !== undefined && {
+          series_type: updates.seriesType,
+        }),
+        ...(updates.seasonFolder !== undefined && {
+          season_folder: updates.seasonFolder,
+        }),
+        ...(updates.searchOnAdd !== undefined && {
+          search_on_add: updates.searchOnAdd,
+        }),
         updated_at: this.timestamp,
       })
   }
 
   async deleteSonarrGenreRoute(id: number): Promise<void> {
     await this.knex('sonarr_genre_routing').where('id', id).delete()
+    await this.recordRoutingDeletion()
+  }
+
+  private mapSonarrGenreRoute(route: {
+    id: number
+    sonarr_instance_id: number
+    name: string
+    genre: string
+    root_folder: string
+    quality_profile: string | number | null
+    season_monitoring: SonarrRouteMonitoring | null
+    series_type: SonarrSeriesType | null
+    season_folder: number | boolean | null
+    search_on_add: number | boolean | null
+  }): SonarrGenreRoute {
+    return {
+      id: route.id,
+      sonarrInstanceId: route.sonarr_instance_id,
+      name: route.name,
+      genre: route.genre,
+      rootFolder: route.root_folder,
+      qualityProfile: route.quality_profile,
+      seasonMonitoring: route.season_monitoring,
+      seriesType: route.series_type,
+      seasonFolder:
+        route.season_folder === null ? null : Boolean(route.season_folder),
+      searchOnAdd:
+        route.search_on_add === null ? null : Boolean(route.search_on_add),
+    }
   }
 
   async getAllRadarrInstances(): Promise<RadarrInstance[]> {
@@ -549,7 +664,11 @@ export class DatabaseService {
       qualityProfile: instance.quality_profile,
       rootFolder: instance.root_folder,
       bypassIgnored: Boolean(instance.bypass_ignored),
+      minimumAvailability: instance.minimum_availability ?? 'released',
+      monitor: instance.monitor ?? 'movieOnly',
+      searchOnAdd: Boolean(instance.search_on_add ?? true),
       tags: JSON.parse(instance.tags || '[]'),
+      userTags: Boolean(instance.user_tags),
       isDefault: Boolean(instance.is_default),
       syncedInstances: JSON.parse(instance.synced_instances || '[]'),
     }))
@@ -571,7 +690,11 @@ export class DatabaseService {
       qualityProfile: instance.quality_profile,
       rootFolder: instance.root_folder,
       bypassIgnored: Boolean(instance.bypass_ignored),
+      minimumAvailability: instance.minimum_availability ?? 'released',
+      monitor: instance.monitor ?? 'movieOnly',
+      searchOnAdd: Boolean(instance.search_on_add ?? true),
       tags: JSON.parse(instance.tags || '[]'),
+      userTags: Boolean(instance.user_tags),
       isDefault: true,
       syncedInstances: JSON.parse(instance.synced_instances || '[]'),
     }
@@ -588,7 +711,11 @@ export class DatabaseService {
       qualityProfile: instance.quality_profile,
       rootFolder: instance.root_folder,
       bypassIgnored: Boolean(instance.bypass_ignored),
+      minimumAvailability: instance.minimum_availability ?? 'released',
+      monitor: instance.monitor ?? 'movieOnly',
+      searchOnAdd: Boolean(instance.search_on_add ?? true),
       tags: JSON.parse(instance.tags || '[]'),
+      userTags: Boolean(instance.user_tags),
       isDefault: Boolean(instance.is_default),
       syncedInstances: JSON.parse(instance.synced_instances || '[]'),
     }
@@ -611,7 +738,11 @@ export class DatabaseService {
         quality_profile: instance.qualityProfile,
         root_folder: instance.rootFolder,
         bypass_ignored: instance.bypassIgnored,
+        minimum_availability: instance.minimumAvailability ?? 'released',
+        monitor: instance.monitor ?? 'movieOnly',
+        search_on_add: instance.searchOnAdd ?? true,
         tags: JSON.stringify(instance.tags || []),
+        user_tags: instance.userTags ?? false,
         is_default: instance.isDefault ?? false,
         is_enabled: true,
         synced_instances: JSON.stringify(instance.syncedInstances || []),
@@ -659,9 +790,21 @@ export class DatabaseService {
         ...(typeof updates.bypassIgnored !== 'undefined' && {
           bypass_ignored: updates.bypassIgnored,
         }),
+        ...(typeof updates.minimumAvailability !== 'undefined' && {
+          minimum_availability: updates.minimumAvailability,
+        }),
+        ...(typeof updates.monitor !== 'undefined' && {
+          monitor: updates.monitor,
+        }),
+        ...(typeof updates.searchOnAdd !== 'undefined' && {
+          search_on_add: updates.searchOnAdd,
+        }),
         ...(typeof updates.tags !== 'undefined' && {
           tags: JSON.stringify(updates.tags),
         }),
+        ...(typeof updates.userTags !== 'undefined' && {
+          user_tags: updates.userTags,
+        }),
         ...(typeof updates.isDefault !== 'undefined' && {
           is_default: updates.isDefault,
         }),
@@ -673,19 +816,42 @@ export class DatabaseService {
   }
 
   async deleteRadarrInstance(id: number): Promise<void> {
+    await this.knex('watchlist_item_instances')
+      .where({ instance_type: 'radarr', instance_id: id })
+      .delete()
     await this.knex('radarr_instances').where('id', id).delete()
+    await this.recordRoutingDeletion()
+  }
+
+  /**
+   * Webhook secrets stay out of the instance types so they are never sent
+   * to the client with the instance settings.
+   */
+  async getInstanceWebhookSecret(
+    instanceType: 'sonarr' | 'radarr',
+    id: number,
+  ): Promise<string | null> {
+    const row = await this.knex(`${instanceType}_instances`)
+      .where('id', id)
+      .select('webhook_secret')
+      .first()
+    return row?.webhook_secret ?? null
+  }
+
+  async setInstanceWebhookSecret(
+    instanceType: 'sonarr' | 'radarr',
+    id: number,
+    secret: string,
+  ): Promise<void> {
+    await this.knex(`${instanceType}_instances`)
+      .where('id', id)
+      .update({ webhook_secret: secret, updated_at: this.timestamp })
   }
 
   async getRadarrGenreRoutes(): Promise<RadarrGenreRoute[]> {
     const routes = await this.knex('radarr_genre_routing').select('*')
-    return routes.map((route) => ({
-      id: route.id,
-      radarrInstanceId: route.radarr_instance_id,
-      name: route.name,
-      genre: route.genre,
-      rootFolder: route.root_folder,
-      qualityProfile: route.quality_profile,
-    }))
+
+    return routes.map((route) => this.mapRadarrGenreRoute(route))
   }
 
   async createRadarrGenreRoute(
@@ -698,18 +864,15 @@ export class DatabaseService {
         genre: route.genre,
         root_folder: route.rootFolder,
         quality_profile: route.qualityProfile,
+        minimum_availability: route.minimumAvailability ?? null,
+        monitor: route.monitor ?? null,
+        search_on_add: route.searchOnAdd ?? null,
         created_at: this.timestamp,
         updated_at: this.timestamp,
       })
-      .returning([
-        'id',
-        'name',
-        'radarr_instance_id as radarrInstanceId',
-        'genre',
-        'root_folder as rootFolder',
-        'quality_profile as qualityProfile',
-      ])
-    return createdRoute
+      .returning('*')
+
+    return this.mapRadarrGenreRoute(createdRoute)
   }
 
   async updateRadarrGenreRoute(
@@ -725,12 +888,47 @@ export class DatabaseService {
         ...(updates.qualityProfile && {
           quality_profile: updates.qualityProfile,
         }),
+        ...(updates.minimumAvailability !== undefined && {
+          minimum_availability: updates.minimumAvailability,
+        }),
+        ...(updates.monitor !== undefined && {
+          monitor: updates.monitor,
+        }),
+        ...(updates.searchOnAdd !== undefined && {
+          search_on_add: updates.searchOnAdd,
+        }),
         updated_at: this.timestamp,
       })
   }
 
   async deleteRadarrGenreRoute(id: number): Promise<void> {
     await this.knex('radarr_genre_routing').where('id', id).delete()
+    await this.recordRoutingDeletion()
+  }
+
+  private mapRadarrGenreRoute(route: {
+    id: number
+    radarr_instance_id: number
+    name: string
+    genre: string
+    root_folder: string
+    quality_profile: string | number | null
+    minimum_availability: RadarrMinimumAvailability | null
+    monitor: RadarrMonitorMode | null
+    search_on_add: number | boolean | null
+  }): RadarrGenreRoute {
+    return {
+      id: route.id,
+      radarrInstanceId: route.radarr_instance_id,
+      name: route.name,
+      genre: route.genre,
+      rootFolder: route.root_folder,
+      qualityProfile: route.quality_profile,
+      minimumAvailability: route.minimum_availability,
+      monitor: route.monitor,
+      searchOnAdd:
+        route.search_on_add === null ? null : Boolean(route.search_on_add),
+    }
   }
 
   async updateWatchlistItem(
@@ -928,6 +1126,109 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Records that every watchlist entry sharing a GUID with an item was sent
+   * to an instance. Existing mappings keep their current status.
+   */
+  async addWatchlistItemInstance(
+    guids: string[],
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+  ): Promise<void> {
+    if (guids.length === 0) {
+      return
+    }
+
+    const items = await this.knex('watchlist_items')
+      .whereRaw(...this.guidOverlapClause(guids))
+      .select('id')
+    if (items.length === 0) {
+      return
+    }
+
+    await this.knex('watchlist_item_instances')
+      .insert(
+        items.map((item) => ({
+          watchlist_item_id: item.id,
+          instance_type: instanceType,
+          instance_id: instanceId,
+          status: 'requested',
+          created_at: this.timestamp,
+          updated_at: this.timestamp,
+        })),
+      )
+      .onConflict(['watchlist_item_id', 'instance_type', 'instance_id'])
+      .ignore()
+  }
+
+  async getWatchlistItemInstances(
+    instanceType: 'sonarr' | 'radarr',
+  ): Promise<WatchlistItemInstance[]> {
+    const rows = await this.knex('watchlist_item_instances')
+      .where('instance_type', instanceType)
+      .select('*')
+
+    return rows.map((row) => ({
+      watchlistItemId: row.watchlist_item_id,
+      instanceType: row.instance_type,
+      instanceId: row.instance_id,
+      status: row.status,
+    }))
+  }
+
+  async upsertWatchlistItemInstances(
+    mappings: WatchlistItemInstance[],
+  ): Promise<number> {
+    try {
+      await this.knex.transaction(async (trx) => {
+        for (const chunk of this.chunkArray(mappings, 100)) {
+          await trx('watchlist_item_instances')
+            .insert(
+              chunk.map((mapping) => ({
+                watchlist_item_id: mapping.watchlistItemId,
+                instance_type: mapping.instanceType,
+                instance_id: mapping.instanceId,
+                status: mapping.status,
+                created_at: this.timestamp,
+                updated_at: this.timestamp,
+              })),
+            )
+            .onConflict(['watchlist_item_id', 'instance_type', 'instance_id'])
+            .merge(['status', 'updated_at'])
+        }
+      })
+
+      return mappings.length
+    } catch (error) {
+      this.log.error('Error upserting watchlist item instances:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Drops the instance mappings of every watchlist entry sharing a GUID with
+   * content that was deleted from the instance.
+   */
+  async removeWatchlistItemInstances(
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+    guids: string[],
+  ): Promise<number> {
+    if (guids.length === 0) {
+      return 0
+    }
+
+    return this.knex('watchlist_item_instances')
+      .where({ instance_type: instanceType, instance_id: instanceId })
+      .whereIn(
+        'watchlist_item_id',
+        this.knex('watchlist_items')
+          .select('id')
+          .whereRaw(...this.guidOverlapClause(guids)),
+      )
+      .delete()
+  }
+
   async syncGenresFromWatchlist(): Promise<void> {
     try {
       const items = await this.knex('watchlist_items')
@@ -1005,6 +1306,57 @@ export class DatabaseService {
     return deleted > 0
   }
 
+  async getGenreAliases(): Promise<GenreAlias[]> {
+    const rows = await this.knex('genre_aliases')
+      .select('*')
+      .orderBy('alias', 'asc')
+    return rows.map((row) => this.mapGenreAlias(row))
+  }
+
+  async createGenreAlias(alias: GenreAliasInput): Promise<GenreAlias> {
+    // SQLite unique constraints are case sensitive, aliases are not
+    const existing = await this.knex('genre_aliases')
+      .whereRaw('LOWER(alias) = ?', [alias.alias.trim().toLowerCase()])
+      .first()
+    if (existing) {
+      throw new Error('Genre alias already exists')
+    }
+
+    const [created] = await this.knex('genre_aliases')
+      .insert({
+        alias: alias.alias.trim(),
+        genre: alias.genre.trim(),
+        created_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+      .returning('*')
+    return this.mapGenreAlias(created)
+  }
+
+  async deleteGenreAlias(id: number): Promise<boolean> {
+    const deleted = await this.knex('genre_aliases').where('id', id).delete()
+    if (deleted > 0) {
+      await this.recordRoutingDeletion()
+    }
+    return deleted > 0
+  }
+
+  private mapGenreAlias(row: {
+    id: number
+    alias: string
+    genre: string
+    created_at: string
+    updated_at: string
+  }): GenreAlias {
+    return {
+      id: row.id,
+      alias: row.alias,
+      genre: row.genre,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
   async bulkUpdateShowStatuses(
     updates: Array<{
       key: string
@@ -1069,6 +1421,31 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Returns watchlist items that may need reconciling since the given time:
+   * items that were added or updated, plus every item of a user whose
+   * settings (such as can_sync) changed.
+   */
+  async getWatchlistItemsChangedSince(since: string): Promise<WatchlistItem[]> {
+    const items = await this.knex('watchlist_items')
+      .select('watchlist_items.*')
+      .join('users', 'users.id', 'watchlist_items.user_id')
+      .where('watchlist_items.updated_at', '>', since)
+      .orWhere('users.updated_at', '>', since)
+
+    return items.map((item) => ({
+      ...item,
+      guids:
+        typeof item.guids === 'string'
+          ? JSON.parse(item.guids)
+          : item.guids || [],
+      genres:
+        typeof item.genres === 'string'
+          ? JSON.parse(item.genres)
+          : item.genres || [],
+    }))
+  }
+
   async createWatchlistItems(
     items: Omit<WatchlistItem, 'created_at' | 'updated_at'>[],
     options: { onConflict?: 'ignore' | 'merge' } = { onConflict: 'ignore' },
@@ -1303,6 +1680,105 @@ export class DatabaseService {
       }))
   }
 
+  async getWatchlistItemsByGuids(guids: string[]): Promise<WatchlistItem[]> {
+    if (guids.length === 0) {
+      return []
+    }
+
+    const items = await this.knex('watchlist_items')
+      .whereRaw(...this.guidOverlapClause(guids))
+      .select('*')
+
+    return items.map((item) => ({
+      ...item,
+      guids: JSON.parse(item.guids || '[]'),
+      genres: JSON.parse(item.genres || '[]'),
+    }))
+  }
+
+  /**
+   * Every user with an active watchlist entry for any of the given GUIDs.
+   */
+  async getWatchlistUsers(guids: string[]): Promise<User[]> {
+    if (guids.length === 0) {
+      return []
+    }
+
+    const rows = await this.knex('users')
+      .whereIn(
+        'id',
+        this.knex('watchlist_items')
+          .select('user_id')
+          .whereRaw(...this.guidOverlapClause(guids))
+          .whereNull('removed_at'),
+      )
+      .select('*')
+      .orderBy('name', 'asc')
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      alias: row.alias,
+      discord_id: row.discord_id,
+      notify_email: Boolean(row.notify_email),
+      notify_discord: Boolean(row.notify_discord),
+      can_sync: Boolean(row.can_sync),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    })) satisfies User[]
+  }
+
+  async getWatchlistItemsByTitle(title: string): Promise<WatchlistItem[]> {
+    const items = await this.knex('watchlist_items')
+      .whereRaw('LOWER(title) = ?', [title.trim().toLowerCase()])
+      .select('*')
+
+    return items.map((item) => ({
+      ...item,
+      guids: JSON.parse(item.guids || '[]'),
+      genres: JSON.parse(item.genres || '[]'),
+    }))
+  }
+
+  async markWatchlistItemsRemoved(guids: string[]): Promise<number> {
+    if (guids.length === 0) {
+      return 0
+    }
+
+    return await this.knex('watchlist_items')
+      .whereRaw(...this.guidOverlapClause(guids))
+      .whereNull('removed_at')
+      .update({
+        removed_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+  }
+
+  async restoreRemovedWatchlistItems(guids: string[]): Promise<void> {
+    if (guids.length === 0) {
+      return
+    }
+
+    await this.knex.transaction(async (trx) => {
+      await trx('watchlist_items')
+        .whereRaw(...this.guidOverlapClause(guids))
+        .whereNotNull('removed_at')
+        .update({
+          removed_at: null,
+          updated_at: this.timestamp,
+        })
+      await trx('pending_deletions').whereIn('guid', guids).delete()
+    })
+  }
+
+  private guidOverlapClause(guids: string[]): [string, string[]] {
+    return [
+      `EXISTS (SELECT 1 FROM json_each(watchlist_items.guids) WHERE json_each.value IN (${guids.map(() => '?').join(', ')}))`,
+      guids,
+    ]
+  }
+
   async getTopGenres(limit = 10): Promise<{ genre: string; count: number }[]> {
     try {
       // Fetch all watchlist items with non-empty genres
@@ -1483,49 +1959,61 @@ export class DatabaseService {
       instance_type: 'sonarr' | 'radarr'
       name: string
       item_count: number
+      requested_count: number
+      grabbed_count: number
+      available_count: number
     }[]
   > {
-    const sonarrResults = await this.knex('watchlist_items')
-      .join(
-        'sonarr_instances',
-        'watchlist_items.sonarr_instance_id',
-        '=',
-        'sonarr_instances.id',
-      )
-      .whereNotNull('watchlist_items.sonarr_instance_id')
-      .select('sonarr_instances.id as instance_id', 'sonarr_instances.name')
-      .count('watchlist_items.id as item_count')
-      .groupBy('sonarr_instances.id')
-
-    const radarrResults = await this.knex('watchlist_items')
-      .join(
-        'radarr_instances',
-        'watchlist_items.radarr_instance_id',
-        '=',
-        'radarr_instances.id',
+    const statusCount = (status: string) =>
+      this.knex.raw(
+        'CASE WHEN watchlist_item_instances.status = ? THEN 1 ELSE 0 END',
+        [status],
       )
-      .whereNotNull('watchlist_items.radarr_instance_id')
-      .select('radarr_instances.id as instance_id', 'radarr_instances.name')
-      .count('watchlist_items.id as item_count')
-      .groupBy('radarr_instances.id')
-
-    const sonarrStats = sonarrResults.map((row) => ({
-      instance_id: Number(row.instance_id),
-      instance_type: 'sonarr' as const,
-      name: String(row.name),
-      item_count: Number(row.item_count),
-    }))
 
-    const radarrStats = radarrResults.map((row) => ({
-      instance_id: Number(row.instance_id),
-      instance_type: 'radarr' as const,
-      name: String(row.name),
-      item_count: Number(row.item_count),
-    }))
+    const countByInstance = (instanceType: 'sonarr' | 'radarr') =>
+      this.knex('watchlist_item_instances')
+        .join(
+          `${instanceType}_instances`,
+          'watchlist_item_instances.instance_id',
+          '=',
+          `${instanceType}_instances.id`,
+        )
+        .where('watchlist_item_instances.instance_type', instanceType)
+        .select(
+          `${instanceType}_instances.id as instance_id`,
+          `${instanceType}_instances.name`,
+        )
+        .count('watchlist_item_instances.id as item_count')
+        .sum({
+          requested_count: statusCount('requested'),
+          grabbed_count: statusCount('grabbed'),
+          available_count: statusCount('available'),
+        })
+        .groupBy(`${instanceType}_instances.id`)
+
+    const [sonarrResults, radarrResults] = await Promise.all([
+      countByInstance('sonarr'),
+      countByInstance('radarr'),
+    ])
+
+    const toStats = (
+      rows: Awaited<ReturnType<typeof countByInstance>>,
+      instanceType: 'sonarr' | 'radarr',
+    ) =>
+      rows.map((row) => ({
+        instance_id: Number(row.instance_id),
+        instance_type: instanceType,
+        name: String(row.name),
+        item_count: Number(row.item_count),
+        requested_count: Number(row.requested_count),
+        grabbed_count: Number(row.grabbed_count),
+        available_count: Number(row.available_count),
+      }))
 
-    return [...sonarrStats, ...radarrStats].sort(
-      (a, b) => b.item_count - a.item_count,
-    )
+    return [
+      ...toStats(sonarrResults, 'sonarr'),
+      ...toStats(radarrResults, 'radarr'),
+    ].sort((a, b) => b.item_count - a.item_count)
   }
 
   async getAverageTimeToAvailability(): Promise<
@@ -1574,4 +2062,928 @@ export class DatabaseService {
       count: Number(row.count),
     }))
   }
+
+  async getProtectedItems(): Promise<ProtectedItem[]> {
+    const items = await this.knex('protected_items')
+      .select('*')
+      .orderBy('created_at', 'desc')
+
+    return items.map((item) => this.mapProtectedItem(item))
+  }
+
+  async getProtectedItem(id: number): Promise<ProtectedItem | null> {
+    const item = await this.knex('protected_items').where('id', id).first()
+    return item ? this.mapProtectedItem(item) : null
+  }
+
+  async createProtectedItem(
+    item: Pick<ProtectedItem, 'guid' | 'title' | 'reason'>,
+  ): Promise<ProtectedItem> {
+    const [created] = await this.knex('protected_items')
+      .insert({
+        guid: item.guid.trim(),
+        title: item.title,
+        reason: item.reason,
+        created_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+      .onConflict('guid')
+      .ignore()
+      .returning('*')
+
+    if (!created) {
+      throw new Error('Item is already protected')
+    }
+
+    return this.mapProtectedItem(created)
+  }
+
+  async deleteProtectedItem(id: number): Promise<boolean> {
+    const deleted = await this.knex('protected_items').where('id', id).delete()
+    return deleted > 0
+  }
+
+  private mapProtectedItem(item: {
+    id: number
+    guid: string
+    title: string | null
+    reason: string | null
+    created_at: string
+    updated_at: string
+  }): ProtectedItem {
+    return {
+      id: item.id,
+      guid: item.guid,
+      title: item.title,
+      reason: item.reason,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    }
+  }
+
+  async getPendingDeletions(dueBefore?: string): Promise<PendingDeletion[]> {
+    const query = this.knex('pending_deletions')
+      .select('*')
+      .orderBy('delete_after', 'asc')
+
+    if (dueBefore) {
+      query.where('delete_after', '<=', dueBefore)
+    }
+
+    const rows = await query
+    return rows.map((row) => ({
+      id: row.id,
+      guid: row.guid,
+      title: row.title,
+      type: row.type,
+      guids: JSON.parse(row.guids || '[]'),
+      deleteAfter: row.delete_after,
+      createdAt: row.created_at,
+    }))
+  }
+
+  async createPendingDeletion(
+    deletion: Omit<PendingDeletion, 'id' | 'createdAt'>,
+  ): Promise<void> {
+    await this.knex('pending_deletions')
+      .insert({
+        guid: deletion.guid,
+        title: deletion.title,
+        type: deletion.type,
+        guids: JSON.stringify(deletion.guids),
+        delete_after: deletion.deleteAfter,
+        created_at: this.timestamp,
+      })
+      .onConflict('guid')
+      .merge(['title', 'guids', 'delete_after'])
+  }
+
+  async deletePendingDeletion(id: number): Promise<boolean> {
+    const deleted = await this.knex('pending_deletions')
+      .where('id', id)
+      .delete()
+    return deleted > 0
+  }
+
+  /**
+   * Queues an item for routing. Rows that are already pending or in progress
+   * are left untouched so the same GUID is never queued twice, while done or
+   * failed rows are reset so a re-added item is routed again.
+   */
+  async enqueueWorkflowItem(
+    item: NewWorkflowQueueItem,
+  ): Promise<WorkflowQueueItem | null> {
+    const existing = await this.knex('workflow_queue')
+      .where('guid', item.guid)
+      .first()
+
+    if (
+      existing &&
+      (existing.status === 'pending' || existing.status === 'in_progress')
+    ) {
+      return null
+    }
+
+    const row = {
+      title: item.title,
+      type: item.type,
+      key: item.key,
+      thumb: item.thumb ?? null,
+      guids: JSON.stringify(item.guids),
+      genres: JSON.stringify(item.genres),
+      source: item.source,
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      next_attempt_at: this.timestamp,
+      updated_at: this.timestamp,
+    }
+
+    const [queued] = existing
+      ? await this.knex('workflow_queue')
+          .where('id', existing.id)
+          .update(row)
+          .returning('*')
+      : await this.knex('workflow_queue')
+          .insert({ ...row, guid: item.guid, created_at: this.timestamp })
+          .returning('*')
+
+    return this.mapWorkflowQueueItem(queued)
+  }
+
+  async getWorkflowQueueItem(id: number): Promise<WorkflowQueueItem | null> {
+    const row = await this.knex('workflow_queue').where('id', id).first()
+    return row ? this.mapWorkflowQueueItem(row) : null
+  }
+
+  async getWorkflowQueueItems(
+    status?: WorkflowQueueStatus,
+  ): Promise<WorkflowQueueItem[]> {
+    const query = this.knex('workflow_queue')
+      .select('*')
+      .orderBy('updated_at', 'desc')
+
+    if (status) {
+      query.where('status', status)
+    }
+
+    const rows = await query
+    return rows.map((row) => this.mapWorkflowQueueItem(row))
+  }
+
+  async getDueWorkflowQueueItems(): Promise<WorkflowQueueItem[]> {
+    const rows = await this.knex('workflow_queue')
+      .where('status', 'pending')
+      .where('next_attempt_at', '<=', this.timestamp)
+      .orderBy('next_attempt_at', 'asc')
+    return rows.map((row) => this.mapWorkflowQueueItem(row))
+  }
+
+  /**
+   * Moves a pending item to in_progress. Returns false when another worker
+   * already claimed it or it is no longer pending.
+   */
+  async claimWorkflowQueueItem(id: number): Promise<boolean> {
+    const updated = await this.knex('workflow_queue')
+      .where({ id, status: 'pending' })
+      .update({ status: 'in_progress', updated_at: this.timestamp })
+    return updated > 0
+  }
+
+  async updateWorkflowQueueItem(
+    id: number,
+    updates: Partial<
+      Pick<
+        WorkflowQueueItem,
+        'status' | 'attempts' | 'lastError' | 'nextAttemptAt'
+      >
+    >,
+  ): Promise<boolean> {
+    const updated = await this.knex('workflow_queue')
+      .where('id', id)
+      .update({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.attempts !== undefined && { attempts: updates.attempts }),
+        ...(updates.lastError !== undefined && {
+          last_error: updates.lastError,
+        }),
+        ...(updates.nextAttemptAt !== undefined && {
+          next_attempt_at: updates.nextAttemptAt,
+        }),
+        updated_at: this.timestamp,
+      })
+    return updated > 0
+  }
+
+  /**
+   * Returns items left in_progress by an interrupted run to pending so they
+   * are picked up again.
+   */
+  async resetInProgressWorkflowQueueItems(): Promise<number> {
+    return await this.knex('workflow_queue')
+      .where('status', 'in_progress')
+      .update({
+        status: 'pending',
+        next_attempt_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+  }
+
+  async pruneWorkflowQueue(completedBefore: string): Promise<number> {
+    return await this.knex('workflow_queue')
+      .where('status', 'done')
+      .where('updated_at', '<', completedBefore)
+      .delete()
+  }
+
+  private mapWorkflowQueueItem(row: {
+    id: number
+    guid: string
+    title: string
+    type: string
+    key: string
+    thumb: string | null
+    guids: string
+    genres: string | null
+    source: 'self' | 'friends' | null
+    status: WorkflowQueueStatus
+    attempts: number
+    last_error: string | null
+    next_attempt_at: string
+    created_at: string
+    updated_at: string
+  }): WorkflowQueueItem {
+    return {
+      id: row.id,
+      guid: row.guid,
+      title: row.title,
+      type: row.type,
+      key: row.key,
+      thumb: row.thumb,
+      guids: JSON.parse(row.guids || '[]'),
+      genres: JSON.parse(row.genres || '[]'),
+      source: row.source,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  /**
+   * Records a failed Sonarr/Radarr addition. A repeated failure for the same
+   * item and instance replaces the previous record and restarts its retries.
+   */
+  async createFailedAddition(
+    addition: NewFailedAddition,
+  ): Promise<FailedAddition> {
+    const [created] = await this.knex('failed_additions')
+      .insert({
+        instance_type: addition.instanceType,
+        instance_id: addition.instanceId,
+        guid: addition.guid,
+        title: addition.title,
+        key: addition.key,
+        guids: JSON.stringify(addition.guids),
+        genres: JSON.stringify(addition.genres),
+        root_folder: addition.rootFolder,
+        quality_profile: addition.qualityProfile,
+        add_options: JSON.stringify(addition.addOptions),
+        status_code: addition.statusCode,
+        error_message: addition.errorMessage,
+        error_body: addition.errorBody,
+        attempts: 0,
+        status: 'retrying',
+        next_attempt_at: addition.nextAttemptAt,
+        created_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+      .onConflict(['instance_type', 'instance_id', 'guid'])
+      .merge([
+        'title',
+        'key',
+        'guids',
+        'genres',
+        'root_folder',
+        'quality_profile',
+        'add_options',
+        'status_code',
+        'error_message',
+        'error_body',
+        'attempts',
+        'status',
+        'next_attempt_at',
+        'updated_at',
+      ])
+      .returning('*')
+
+    return this.mapFailedAddition(created)
+  }
+
+  async getFailedAddition(id: number): Promise<FailedAddition | null> {
+    const row = await this.knex('failed_additions').where('id', id).first()
+    return row ? this.mapFailedAddition(row) : null
+  }
+
+  async getFailedAdditions(
+    status?: FailedAdditionStatus,
+  ): Promise<FailedAddition[]> {
+    const query = this.knex('failed_additions')
+      .select('*')
+      .orderBy('updated_at', 'desc')
+
+    if (status) {
+      query.where('status', status)
+    }
+
+    const rows = await query
+    return rows.map((row) => this.mapFailedAddition(row))
+  }
+
+  async getDueFailedAdditions(): Promise<FailedAddition[]> {
+    const rows = await this.knex('failed_additions')
+      .where('status', 'retrying')
+      .where('next_attempt_at', '<=', this.timestamp)
+      .orderBy('next_attempt_at', 'asc')
+    return rows.map((row) => this.mapFailedAddition(row))
+  }
+
+  async getRetryingFailedAdditionsForInstance(
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+  ): Promise<FailedAddition[]> {
+    const rows = await this.knex('failed_additions')
+      .where({
+        instance_type: instanceType,
+        instance_id: instanceId,
+        status: 'retrying',
+      })
+      .orderBy('created_at', 'asc')
+    return rows.map((row) => this.mapFailedAddition(row))
+  }
+
+  async updateFailedAddition(
+    id: number,
+    updates: Partial<
+      Pick<
+        FailedAddition,
+        | 'attempts'
+        | 'status'
+        | 'statusCode'
+        | 'errorMessage'
+        | 'errorBody'
+        | 'nextAttemptAt'
+      >
+    >,
+  ): Promise<boolean> {
+    const updated = await this.knex('failed_additions')
+      .where('id', id)
+      .update({
+        ...(updates.attempts !== undefined && { attempts: updates.attempts }),
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.statusCode !== undefined && {
+          status_code: updates.statusCode,
+        }),
+        ...(updates.errorMessage !== undefined && {
+          error_message: updates.errorMessage,
+        }),
+        ...(updates.errorBody !== undefined && {
+          error_body: updates.errorBody,
+        }),
+        ...(updates.nextAttemptAt !== undefined && {
+          next_attempt_at: updates.nextAttemptAt,
+        }),
+        updated_at: this.timestamp,
+      })
+    return updated > 0
+  }
+
+  async deleteFailedAddition(id: number): Promise<boolean> {
+    const deleted = await this.knex('failed_additions').where('id', id).delete()
+    return deleted > 0
+  }
+
+  /**
+   * Clears any failure record for an item once it has been added to the
+   * instance successfully.
+   */
+  async resolveFailedAddition(
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+    guid: string,
+  ): Promise<void> {
+    await this.knex('failed_additions')
+      .where({
+        instance_type: instanceType,
+        instance_id: instanceId,
+        guid,
+      })
+      .delete()
+  }
+
+  private mapFailedAddition(row: {
+    id: number
+    instance_type: 'sonarr' | 'radarr'
+    instance_id: number
+    guid: string
+    title: string
+    key: string
+    guids: string
+    genres: string | null
+    root_folder: string | null
+    quality_profile: string | null
+    add_options: string | null
+    status_code: number | null
+    error_message: string
+    error_body: string | null
+    attempts: number
+    status: FailedAdditionStatus
+    next_attempt_at: string | null
+    created_at: string
+    updated_at: string
+  }): FailedAddition {
+    return {
+      id: row.id,
+      instanceType: row.instance_type,
+      instanceId: row.instance_id,
+      guid: row.guid,
+      title: row.title,
+      key: row.key,
+      guids: JSON.parse(row.guids || '[]'),
+      genres: JSON.parse(row.genres || '[]'),
+      rootFolder: row.root_folder,
+      qualityProfile: row.quality_profile,
+      addOptions: JSON.parse(row.add_options || '{}'),
+      statusCode: row.status_code,
+      errorMessage: row.error_message,
+      errorBody: row.error_body,
+      attempts: row.attempts,
+      status: row.status,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  async getSyncCheckpoint(name: string): Promise<string | null> {
+    const row = await this.knex('sync_checkpoints').where('name', name).first()
+    return row?.last_synced_at ?? null
+  }
+
+  async setSyncCheckpoint(name: string, syncedAt: string): Promise<void> {
+    await this.knex('sync_checkpoints')
+      .insert({
+        name,
+        last_synced_at: syncedAt,
+        updated_at: this.timestamp,
+      })
+      .onConflict('name')
+      .merge(['last_synced_at', 'updated_at'])
+  }
+
+  async clearSyncCheckpoint(name: string): Promise<void> {
+    await this.knex('sync_checkpoints').where('name', name).delete()
+  }
+
+  /**
+   * Deleted rows leave no updated_at to compare against, so deletions are
+   * tracked in a checkpoint of their own.
+   */
+  private async recordRoutingDeletion(): Promise<void> {
+    await this.setSyncCheckpoint(ROUTING_DELETION_CHECKPOINT, this.timestamp)
+  }
+
+  /**
+   * Whether any Sonarr/Radarr instance, genre route, genre alias, routing
+   * rule or user route was created, changed or deleted since the given time.
+   * Routing changes invalidate incremental syncs.
+   */
+  async hasRoutingChangesSince(since: string): Promise<boolean> {
+    const lastDeletion = await this.getSyncCheckpoint(
+      ROUTING_DELETION_CHECKPOINT,
+    )
+    if (lastDeletion && lastDeletion > since) {
+      return true
+    }
+
+    for (const table of [
+      'sonarr_instances',
+      'radarr_instances',
+      'sonarr_genre_routing',
+      'radarr_genre_routing',
+      'genre_aliases',
+      'routing_rules',
+      'user_routing',
+    ]) {
+      const changed = await this.knex(table)
+        .where('updated_at', '>', since)
+        .first()
+      if (changed) {
+        return true
+      }
+    }
+    return false
+  }
+
+  async getRoutingRules(
+    targetType?: RoutingRule['targetType'],
+  ): Promise<RoutingRule[]> {
+    const query = this.knex('routing_rules')
+      .select('*')
+      .orderBy([
+        { column: 'priority', order: 'asc' },
+        { column: 'id', order: 'asc' },
+      ])
+
+    if (targetType) {
+      query.where('target_type', targetType)
+    }
+
+    const rows = await query
+    return rows.map((row) => this.mapRoutingRule(row))
+  }
+
+  async getRoutingRule(id: number): Promise<RoutingRule | null> {
+    const row = await this.knex('routing_rules').where('id', id).first()
+    return row ? this.mapRoutingRule(row) : null
+  }
+
+  async createRoutingRule(rule: RoutingRuleInput): Promise<RoutingRule> {
+    const [created] = await this.knex('routing_rules')
+      .insert({
+        name: rule.name,
+        target_type: rule.targetType,
+        instance_id: rule.instanceId,
+        priority: rule.priority,
+        enabled: rule.enabled,
+        condition: JSON.stringify(rule.condition),
+        root_folder: rule.rootFolder,
+        quality_profile: rule.qualityProfile,
+        tags: JSON.stringify(rule.tags),
+        season_monitoring: rule.seasonMonitoring,
+        monitored: rule.monitored,
+        search_on_add: rule.searchOnAdd,
+        created_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+      .returning('*')
+
+    return this.mapRoutingRule(created)
+  }
+
+  async updateRoutingRule(
+    id: number,
+    updates: Partial<RoutingRuleInput>,
+  ): Promise<boolean> {
+    const updated = await this.knex('routing_rules')
+      .where('id', id)
+      .update({
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.targetType !== undefined && {
+          target_type: updates.targetType,
+        }),
+        ...(updates.instanceId !== undefined && {
+          instance_id: updates.instanceId,
+        }),
+        ...(updates.priority !== undefined && { priority: updates.priority }),
+        ...(updates.enabled !== undefined && { enabled: updates.enabled }),
+        ...(updates.condition !== undefined && {
+          condition: JSON.stringify(updates.condition),
+        }),
+        ...(updates.rootFolder !== undefined && {
+          root_folder: updates.rootFolder,
+        }),
+        ...(updates.qualityProfile !== undefined && {
+          quality_profile: updates.qualityProfile,
+        }),
+        ...(updates.tags !== undefined && {
+          tags: JSON.stringify(updates.tags),
+        }),
+        ...(updates.seasonMonitoring !== undefined && {
+          season_monitoring: updates.seasonMonitoring,
+        }),
+        ...(updates.monitored !== undefined && {
+          monitored: updates.monitored,
+        }),
+        ...(updates.searchOnAdd !== undefined && {
+          search_on_add: updates.searchOnAdd,
+        }),
+        updated_at: this.timestamp,
+      })
+
+    return updated > 0
+  }
+
+  async deleteRoutingRule(id: number): Promise<boolean> {
+    const deleted = await this.knex('routing_rules').where('id', id).delete()
+    if (deleted > 0) {
+      await this.recordRoutingDeletion()
+    }
+    return deleted > 0
+  }
+
+  private mapRoutingRule(row: {
+    id: number
+    name: string
+    target_type: RoutingRule['targetType']
+    instance_id: number
+    priority: number
+    enabled: number | boolean
+    condition: string
+    root_folder: string | null
+    quality_profile: number | null
+    tags: string | null
+    season_monitoring: string | null
+    monitored: number | boolean
+    search_on_add: number | boolean
+    created_at: string
+    updated_at: string
+  }): RoutingRule {
+    return {
+      id: row.id,
+      name: row.name,
+      targetType: row.target_type,
+      instanceId: row.instance_id,
+      priority: row.priority,
+      enabled: Boolean(row.enabled),
+      condition: JSON.parse(row.condition),
+      rootFolder: row.root_folder,
+      qualityProfile: row.quality_profile,
+      tags: JSON.parse(row.tags || '[]'),
+      seasonMonitoring: row.season_monitoring,
+      monitored: Boolean(row.monitored),
+      searchOnAdd: Boolean(row.search_on_add),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  async getUserRoutes(userId?: number): Promise<UserRoute[]> {
+    const query = this.knex('user_routing')
+      .join('users', 'user_routing.user_id', 'users.id')
+      .select('user_routing.*', 'users.name as user_name')
+      .orderBy([
+        { column: 'users.name', order: 'asc' },
+        { column: 'user_routing.id', order: 'asc' },
+      ])
+
+    if (userId !== undefined) {
+      query.where('user_routing.user_id', userId)
+    }
+
+    const rows = await query
+    return rows.map((row) => this.mapUserRoute(row))
+  }
+
+  async getUserRoute(id: number): Promise<UserRoute | null> {
+    const row = await this.knex('user_routing')
+      .join('users', 'user_routing.user_id', 'users.id')
+      .select('user_routing.*', 'users.name as user_name')
+      .where('user_routing.id', id)
+      .first()
+    return row ? this.mapUserRoute(row) : null
+  }
+
+  async getUserRoutesForUsers(
+    targetType: UserRoute['targetType'],
+    userIds: number[],
+  ): Promise<UserRoute[]> {
+    if (userIds.length === 0) {
+      return []
+    }
+
+    const rows = await this.knex('user_routing')
+      .join('users', 'user_routing.user_id', 'users.id')
+      .whereIn('user_routing.user_id', userIds)
+      .where('user_routing.target_type', targetType)
+      .select('user_routing.*', 'users.name as user_name')
+      .orderBy('user_routing.id', 'asc')
+
+    return rows.map((row) => this.mapUserRoute(row))
+  }
+
+  async createUserRoute(route: UserRouteInput): Promise<UserRoute> {
+    const [created] = await this.knex('user_routing')
+      .insert({
+        user_id: route.userId,
+        target_type: route.targetType,
+        instance_id: route.instanceId,
+        root_folder: route.rootFolder,
+        quality_profile: route.qualityProfile,
+        exclusive: route.exclusive,
+        created_at: this.timestamp,
+        updated_at: this.timestamp,
+      })
+      .onConflict(['user_id', 'target_type', 'instance_id'])
+      .ignore()
+      .returning('id')
+
+    if (!created) {
+      throw new Error('User already has a route to this instance')
+    }
+
+    const userRoute = await this.getUserRoute(
+      typeof created === 'object' ? created.id : created,
+    )
+    if (!userRoute) {
+      throw new Error('Failed to create user route')
+    }
+    return userRoute
+  }
+
+  async updateUserRoute(
+    id: number,
+    updates: Partial<UserRouteInput>,
+  ): Promise<boolean> {
+    const updated = await this.knex('user_routing')
+      .where('id', id)
+      .update({
+        ...(updates.userId !== undefined && { user_id: updates.userId }),
+        ...(updates.targetType !== undefined && {
+          target_type: updates.targetType,
+        }),
+        ...(updates.instanceId !== undefined && {
+          instance_id: updates.instanceId,
+        }),
+        ...(updates.rootFolder !== undefined && {
+          root_folder: updates.rootFolder,
+        }),
+        ...(updates.qualityProfile !== undefined && {
+          quality_profile: updates.qualityProfile,
+        }),
+        ...(updates.exclusive !== undefined && {
+          exclusive: updates.exclusive,
+        }),
+        updated_at: this.timestamp,
+      })
+
+    return updated > 0
+  }
+
+  async deleteUserRoute(id: number): Promise<boolean> {
+    const deleted = await this.knex('user_routing').where('id', id).delete()
+    if (deleted > 0) {
+      await this.recordRoutingDeletion()
+    }
+    return deleted > 0
+  }
+
+  private mapUserRoute(row: {
+    id: number
+    user_id: number
+    user_name: string
+    target_type: UserRoute['targetType']
+    instance_id: number
+    root_folder: string | null
+    quality_profile: number | null
+    exclusive: number | boolean
+    created_at: string
+    updated_at: string
+  }): UserRoute {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userName: row.user_name,
+      targetType: row.target_type,
+      instanceId: row.instance_id,
+      rootFolder: row.root_folder,
+      qualityProfile: row.quality_profile,
+      exclusive: Boolean(row.exclusive),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  async createRoutingHistoryEntry(
+    entry: NewRoutingHistoryEntry,
+  ): Promise<void> {
+    await this.knex('routing_history').insert({
+      guid: entry.guid,
+      key: entry.key,
+      title: entry.title,
+      instance_type: entry.instanceType,
+      instance_id: entry.instanceId,
+      source: entry.source,
+      route_name: entry.routeName,
+      root_folder: entry.rootFolder,
+      quality_profile: entry.qualityProfile,
+      status: entry.status,
+      error_message: entry.errorMessage,
+      created_at: this.timestamp,
+    })
+  }
+
+  async getRoutingHistory(guid: string): Promise<RoutingHistoryEntry[]> {
+    const rows = await this.knex('routing_history')
+      .leftJoin('sonarr_instances', function () {
+        this.on(
+          'routing_history.instance_id',
+          '=',
+          'sonarr_instances.id',
+        ).andOnVal('routing_history.instance_type', '=', 'sonarr')
+      })
+      .leftJoin('radarr_instances', function () {
+        this.on(
+          'routing_history.instance_id',
+          '=',
+          'radarr_instances.id',
+        ).andOnVal('routing_history.instance_type', '=', 'radarr')
+      })
+      .where('routing_history.guid', guid)
+      .select(
+        'routing_history.*',
+        this.knex.raw(
+          'COALESCE(sonarr_instances.name, radarr_instances.name) as instance_name',
+        ),
+      )
+      .orderBy('routing_history.created_at', 'desc')
+      .orderBy('routing_history.id', 'desc')
+
+    return rows.map((row) => ({
+      id: row.id,
+      guid: row.guid,
+      key: row.key,
+      title: row.title,
+      instanceType: row.instance_type,
+      instanceId: row.instance_id,
+      instanceName: row.instance_name ?? null,
+      source: row.source,
+      routeName: row.route_name,
+      rootFolder: row.root_folder,
+      qualityProfile: row.quality_profile,
+      status: row.status,
+      errorMessage: row.error_message,
+      createdAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Most recently routed items with the number of distinct instances each
+   * was sent to.
+   */
+  async getRecentlyRoutedItems(limit = 50): Promise<RoutedItemSummary[]> {
+    const rows = await this.knex('routing_history')
+      .select('guid')
+      .max('title as title')
+      .countDistinct({
+        instance_count: this.knex.raw("instance_type || ':' || instance_id"),
+      })
+      .sum({
+        failure_count: this.knex.raw(
+          "CASE WHEN status = 'failed' THEN 1 ELSE 0 END",
+        ),
+      })
+      .max('created_at as last_routed_at')
+      .groupBy('guid')
+      .orderBy('last_routed_at', 'desc')
+      .limit(limit)
+
+    return rows.map((row) => ({
+      guid: row.guid,
+      title: row.title,
+      instanceCount: Number(row.instance_count),
+      failureCount: Number(row.failure_count),
+      lastRoutedAt: row.last_routed_at,
+    }))
+  }
+
+  async createInstanceHealthCheck(
+    check: NewInstanceHealthCheck,
+  ): Promise<void> {
+    await this.knex('instance_health_checks').insert({
+      instance_type: check.instanceType,
+      instance_id: check.instanceId,
+      healthy: check.healthy,
+      latency_ms: check.latencyMs,
+      error: check.error,
+      checked_at: this.timestamp,
+    })
+  }
+
+  async getInstanceHealthHistory(
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+    limit = 60,
+  ): Promise<InstanceHealthCheck[]> {
+    const rows = await this.knex('instance_health_checks')
+      .where({ instance_type: instanceType, instance_id: instanceId })
+      .orderBy('checked_at', 'desc')
+      .orderBy('id', 'desc')
+      .limit(limit)
+
+    return rows.map((row) => ({
+      healthy: Boolean(row.healthy),
+      latencyMs: row.latency_ms,
+      error: row.error,
+      checkedAt: row.checked_at,
+    }))
+  }
+
+  async deleteInstanceHealthChecksBefore(cutoff: string): Promise<number> {
+    return this.knex('instance_health_checks')
+      .where('checked_at', '<', cutoff)
+      .delete()
+  }
 }
@@ -0,0 +1,491 @@
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
+import type {
+  DeleteSyncStatus,
+  DeleteSyncContentResult,
+  DeleteSyncResult,
+  DeleteSyncCandidate,
+  DeleteSyncPreview,
+  PendingDeletion,
+} from '@root/types/delete-sync.types.js'
+import {
+  buildWatchlistGuidSet,
+  findUnmatchedItems,
+} from '@utils/watchlist-matching.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const LAST_RUN_CHECKPOINT = 'delete_sync'
+
+export class DeleteSyncService {
+  private status: DeleteSyncStatus = 'stopped'
+  private scheduleInterval: NodeJS.Timeout | null = null
+  private pendingDeletionInterval: NodeJS.Timeout | null = null
+  private scheduledFrom: Date | null = null
+  private lastRunAt: Date | null = null
+  private lastResult: DeleteSyncResult | null = null
+  private isDeleting = false
+
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly fastify: FastifyInstance,
+    private readonly scheduleCheckIntervalMs: number = 60 * 60 * 1000,
+  ) {
+    this.log.info('Initializing Delete Sync Service')
+  }
+
+  private get config() {
+    return this.fastify.config
+  }
+
+  private get sonarrManager() {
+    return this.fastify.sonarrManager
+  }
+
+  private get radarrManager() {
+    return this.fastify.radarrManager
+  }
+
+  private get dbService() {
+    return this.fastify.db
+  }
+
+  private get protection() {
+    return this.fastify.protection
+  }
+
+  getStatus(): DeleteSyncStatus {
+    return this.status
+  }
+
+  isRunInProgress(): boolean {
+    return this.isDeleting
+  }
+
+  getLastRunAt(): Date | null {
+    return this.lastRunAt
+  }
+
+  getLastResult(): DeleteSyncResult | null {
+    return this.lastResult
+  }
+
+  getNextRunAt(): Date | null {
+    if (this.status !== 'running') {
+      return null
+    }
+
+    const from = this.lastRunAt ?? this.scheduledFrom
+    if (!from) {
+      return null
+    }
+
+    const intervalDays = this.config.deleteIntervalDays || 7
+    return new Date(from.getTime() + intervalDays * DAY_MS)
+  }
+
+  async startDeleteSync() {
+    if (this.status !== 'stopped') {
+      this.log.warn(`Delete sync already ${this.status}, skipping start`)
+      return false
+    }
+
+    this.log.info('Starting Delete Sync Service...')
+    this.status = 'starting'
+
+    // Restarts must not push the next run out by another full interval
+    if (!this.lastRunAt) {
+      const lastRunAt =
+        await this.dbService.getSyncCheckpoint(LAST_RUN_CHECKPOINT)
+      this.lastRunAt = lastRunAt ? new Date(lastRunAt) : null
+    }
+
+    this.scheduledFrom = new Date()
+    this.startScheduleCheck()
+
+    this.status = 'running'
+    this.log.info(
+      `Delete sync running, next run scheduled for ${this.getNextRunAt()?.toISOString()}`,
+    )
+    return true
+  }
+
+  async stop() {
+    if (this.status !== 'running' && this.status !== 'starting') {
+      this.log.warn(`Cannot stop delete sync: current status is ${this.status}`)
+      return false
+    }
+
+    this.log.info('Stopping Delete Sync Service')
+    this.status = 'stopping'
+
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval)
+      this.scheduleInterval = null
+    }
+
+    this.scheduledFrom = null
+    this.status = 'stopped'
+
+    return true
+  }
+
+  private startScheduleCheck() {
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval)
+    }
+
+    // The delete interval is measured in days, which is longer than
+    // setInterval can represent, so poll and compare against the next run.
+    this.scheduleInterval = setInterval(async () => {
+      const nextRunAt = this.getNextRunAt()
+      if (!nextRunAt || Date.now() < nextRunAt.getTime() || this.isDeleting) {
+        return
+      }
+
+      try {
+        await this.runDeleteSync()
+      } catch (error) {
+        this.log.error('Error during scheduled delete sync:', error)
+      }
+    }, this.scheduleCheckIntervalMs)
+  }
+
+  /**
+   * Removal grace periods belong to the removal action rather than the
+   * delete schedule, so pending deletions are checked on their own interval
+   * whether or not the delete sync is running.
+   */
+  startPendingDeletionCheck() {
+    if (this.pendingDeletionInterval) {
+      clearInterval(this.pendingDeletionInterval)
+    }
+
+    this.pendingDeletionInterval = setInterval(async () => {
+      try {
+        await this.processPendingDeletions()
+      } catch (error) {
+        this.log.error('Error processing pending deletions:', error)
+      }
+    }, this.scheduleCheckIntervalMs)
+  }
+
+  stopPendingDeletionCheck() {
+    if (this.pendingDeletionInterval) {
+      clearInterval(this.pendingDeletionInterval)
+      this.pendingDeletionInterval = null
+    }
+  }
+
+  async runDeleteSync(): Promise<DeleteSyncResult> {
+    if (this.isDeleting) {
+      throw new Error('Delete sync is already in progress')
+    }
+
+    this.isDeleting = true
+    const startedAt = new Date()
+
+    try {
+      const plan = await this.buildDeletionPlan()
+      const shows: DeleteSyncContentResult = {
+        deleted: 0,
+        skipped: plan.skipped.shows,
+        failed: 0,
+      }
+      const movies: DeleteSyncContentResult = {
+        deleted: 0,
+        skipped: plan.skipped.movies,
+        failed: 0,
+      }
+
+      for (const candidate of plan.shows) {
+        await this.deleteCandidate(candidate, shows)
+      }
+      for (const candidate of plan.movies) {
+        await this.deleteCandidate(candidate, movies)
+      }
+
+      const result: DeleteSyncResult = {
+        shows,
+        movies,
+        startedAt: startedAt.toISOString(),
+        completedAt: new Date().toISOString(),
+      }
+
+      this.lastRunAt = startedAt
+      this.lastResult = result
+      await this.dbService.setSyncCheckpoint(
+        LAST_RUN_CHECKPOINT,
+        startedAt.toISOString(),
+      )
+      this.log.info('Delete sync completed:', result)
+
+      return result
+    } catch (error) {
+      this.log.error('Error during delete sync:', error)
+      throw error
+    } finally {
+      this.isDeleting = false
+    }
+  }
+
+  async previewDeleteSync(): Promise<DeleteSyncPreview> {
+    return this.buildDeletionPlan()
+  }
+
+  private async buildDeletionPlan(): Promise<DeleteSyncPreview> {
+    const plan: DeleteSyncPreview = {
+      shows: [],
+      movies: [],
+      skipped: { shows: 0, movies: 0 },
+      protected: { shows: 0, movies: 0 },
+      generatedAt: new Date().toISOString(),
+    }
+
+    const { deleteMovie, deleteEndedShow, deleteContinuingShow, deleteFiles } =
+      this.config
+
+    if (!deleteMovie && !deleteEndedShow && !deleteContinuingShow) {
+      this.log.info('All delete options are disabled, nothing to delete')
+      return plan
+    }
+
+    const [watchlistShows, watchlistMovies] = await Promise.all([
+      this.dbService.getAllShowWatchlistItems(),
+      this.dbService.getAllMovieWatchlistItems(),
+    ])
+    // Items removed from every watchlist stay in the set: the removal action
+    // and its grace period decide what happens to them, not the delete sync.
+    const watchlistGuids = buildWatchlistGuidSet([
+      ...watchlistShows,
+      ...watchlistMovies,
+    ])
+
+    // An empty watchlist almost always means the watchlists have not been
+    // fetched yet, and deleting against it would wipe every library.
+    if (watchlistGuids.size === 0) {
+      this.log.warn('No watchlist items found, skipping delete sync')
+      return plan
+    }
+
+    const protectedGuids = await this.protection.getProtectedGuids()
+
+    if (deleteEndedShow || deleteContinuingShow) {
+      const [existingSeries, instances] = await Promise.all([
+        this.sonarrManager.fetchAllSeries(true),
+        this.sonarrManager.getAllInstances(),
+      ])
+      const instanceNames = new Map(
+        instances.map((instance) => [instance.id, instance.name]),
+      )
+
+      for (const series of findUnmatchedItems(existingSeries, watchlistGuids)) {
+        const isEnded = series.series_status === 'ended'
+        if (
+          (isEnded && !deleteEndedShow) ||
+          (!isEnded && !deleteContinuingShow)
+        ) {
+          plan.skipped.shows++
+          continue
+        }
+
+        if (this.protection.isProtected(series.guids, protectedGuids)) {
+          plan.protected.shows++
+          continue
+        }
+
+        const instanceId = series.sonarr_instance_id ?? 0
+        plan.shows.push({
+          instanceType: 'sonarr',
+          instanceId,
+          instanceName: instanceNames.get(instanceId) ?? `Sonarr ${instanceId}`,
+          title: series.title,
+          guids: series.guids,
+          reason: `${isEnded ? 'ended' : 'continuing'} show, no watchlisters`,
+          deleteFiles,
+        })
+      }
+    }
+
+    if (deleteMovie) {
+      const [existingMovies, instances] = await Promise.all([
+        this.radarrManager.fetchAllMovies(true),
+        this.radarrManager.getAllInstances(),
+      ])
+      const instanceNames = new Map(
+        instances.map((instance) => [instance.id, instance.name]),
+      )
+
+      for (const movie of findUnmatchedItems(existingMovies, watchlistGuids)) {
+        if (this.protection.isProtected(movie.guids, protectedGuids)) {
+          plan.protected.movies++
+          continue
+        }
+
+        const instanceId = movie.radarr_instance_id ?? 0
+        plan.movies.push({
+          instanceType: 'radarr',
+          instanceId,
+          instanceName: instanceNames.get(instanceId) ?? `Radarr ${instanceId}`,
+          title: movie.title,
+          guids: movie.guids,
+          reason: 'movie, no watchlisters',
+          deleteFiles,
+        })
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Deletes items whose removal grace period has expired. Items that were
+   * watchlisted again or have since been protected are dropped instead.
+   */
+  async processPendingDeletions(): Promise<number> {
+    if (this.isDeleting) {
+      return 0
+    }
+
+    const due = await this.dbService.getPendingDeletions(
+      new Date().toISOString(),
+    )
+    if (due.length === 0) {
+      return 0
+    }
+
+    this.isDeleting = true
+    let deleted = 0
+
+    try {
+      const protectedGuids = await this.protection.getProtectedGuids()
+
+      for (const pending of due) {
+        const watchlisted = await this.dbService.getWatchlistItemsByGuids(
+          pending.guids,
+        )
+        if (watchlisted.some((item) => !item.removed_at)) {
+          this.log.info(
+            `${pending.title} was watchlisted again, cancelling deletion`,
+          )
+        } else if (this.protection.isProtected(pending.guids, protectedGuids)) {
+          this.log.info(`${pending.title} is protected, cancelling deletion`)
+        } else {
+          deleted += await this.deletePendingItem(pending)
+        }
+
+        await this.dbService.deletePendingDeletion(pending.id)
+      }
+    } finally {
+      this.isDeleting = false
+    }
+
+    return deleted
+  }
+
+  private async deletePendingItem(pending: PendingDeletion): Promise<number> {
+    const result: DeleteSyncContentResult = {
+      deleted: 0,
+      skipped: 0,
+      failed: 0,
+    }
+    const reason = 'removed from all watchlists, grace period expired'
+    const { deleteFiles } = this.config
+
+    if (pending.type === 'show') {
+      const [existingSeries, instances] = await Promise.all([
+        this.sonarrManager.fetchAllSeries(true),
+        this.sonarrManager.getAllInstances(),
+      ])
+
+      for (const series of existingSeries) {
+        if (!series.guids.some((guid) => pending.guids.includes(guid))) {
+          continue
+        }
+        const instanceId = series.sonarr_instance_id ?? 0
+        await this.deleteCandidate(
+          {
+            instanceType: 'sonarr',
+            instanceId,
+            instanceName:
+              instances.find((instance) => instance.id === instanceId)?.name ??
+              `Sonarr ${instanceId}`,
+            title: series.title,
+            guids: series.guids,
+            reason,
+            deleteFiles,
+          },
+          result,
+        )
+      }
+    } else {
+      const [existingMovies, instances] = await Promise.all([
+        this.radarrManager.fetchAllMovies(true),
+        this.radarrManager.getAllInstances(),
+      ])
+
+      for (const movie of existingMovies) {
+        if (!movie.guids.some((guid) => pending.guids.includes(guid))) {
+          continue
+        }
+        const instanceId = movie.radarr_instance_id ?? 0
+        await this.deleteCandidate(
+          {
+            instanceType: 'radarr',
+            instanceId,
+            instanceName:
+              instances.find((instance) => instance.id === instanceId)?.name ??
+              `Radarr ${instanceId}`,
+            title: movie.title,
+            guids: movie.guids,
+            reason,
+            deleteFiles,
+          },
+          result,
+        )
+      }
+    }
+
+    return result.deleted
+  }
+
+  private async deleteCandidate(
+    candidate: DeleteSyncCandidate,
+    result: DeleteSyncContentResult,
+  ) {
+    const { instanceType, instanceId, instanceName, title } = candidate
+
+    try {
+      if (instanceType === 'sonarr') {
+        const sonarrService = this.sonarrManager.getSonarrService(instanceId)
+        if (!sonarrService) {
+          throw new Error(`Sonarr service ${instanceId} not found`)
+        }
+        await sonarrService.deleteFromSonarr(
+          { title, guids: candidate.guids, type: 'show' },
+          candidate.deleteFiles,
+        )
+      } else {
+        const radarrService = this.radarrManager.getRadarrService(instanceId)
+        if (!radarrService) {
+          throw new Error(`Radarr service ${instanceId} not found`)
+        }
+        await radarrService.deleteFromRadarr(
+          { title, guids: candidate.guids, type: 'movie' },
+          candidate.deleteFiles,
+        )
+      }
+
+      await this.dbService.removeWatchlistItemInstances(
+        instanceType,
+        instanceId,
+        candidate.guids,
+      )
+      result.deleted++
+      this.log.info(
+        `Deleted ${title} from ${instanceName} (${candidate.reason})`,
+      )
+    } catch (error) {
+      result.failed++
+      this.log.error(`Failed to delete ${title} from ${instanceName}:`, error)
+    }
+  }
+}
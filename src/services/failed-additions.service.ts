@@ -0,0 +1,246 @@
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
+import type {
+  FailedAddition,
+  FailedAdditionStatus,
+} from '@root/types/failed-addition.types.js'
+import type { RoutingTargetAddOptions } from '@root/types/routing-plan.types.js'
+import { ArrApiError } from '@utils/arr-api-error.js'
+
+const MAX_RETRY_ATTEMPTS = 5
+const RETRY_BASE_MS = 5 * 60 * 1000
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000
+
+interface FailedAdditionContext {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  title: string
+  key: string
+  guids: string[]
+  genres: string[]
+  rootFolder?: string | null
+  qualityProfile?: string | number | null
+  addOptions?: RoutingTargetAddOptions
+}
+
+export class FailedAdditionsService {
+  private retryInterval: NodeJS.Timeout | null = null
+  private isRetrying = false
+
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly fastify: FastifyInstance,
+    private readonly retryCheckIntervalMs: number = 60 * 1000,
+  ) {}
+
+  private get dbService() {
+    return this.fastify.db
+  }
+
+  private get sonarrManager() {
+    return this.fastify.sonarrManager
+  }
+
+  private get radarrManager() {
+    return this.fastify.radarrManager
+  }
+
+  start() {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval)
+    }
+
+    this.retryInterval = setInterval(async () => {
+      try {
+        await this.retryDueAdditions()
+      } catch (error) {
+        this.log.error('Error retrying failed additions:', error)
+      }
+    }, this.retryCheckIntervalMs)
+  }
+
+  stop() {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval)
+      this.retryInterval = null
+    }
+  }
+
+  async recordFailure(
+    context: FailedAdditionContext,
+    error: unknown,
+  ): Promise<void> {
+    const guid = context.guids[0]
+    if (!guid) {
+      return
+    }
+
+    try {
+      await this.dbService.createFailedAddition({
+        instanceType: context.instanceType,
+        instanceId: context.instanceId,
+        guid,
+        title: context.title,
+        key: context.key,
+        guids: context.guids,
+        genres: context.genres,
+        rootFolder: context.rootFolder ?? null,
+        qualityProfile:
+          context.qualityProfile != null
+            ? String(context.qualityProfile)
+            : null,
+        addOptions: context.addOptions ?? {},
+        ...this.describeError(error),
+        nextAttemptAt: this.getNextAttemptAt(0),
+      })
+      this.log.info(
+        `Recorded failed addition of ${context.title} to ${context.instanceType} instance ${context.instanceId}`,
+      )
+    } catch (recordError) {
+      this.log.error(
+        `Unable to record failed addition of ${context.title}:`,
+        recordError,
+      )
+    }
+  }
+
+  async resolve(
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+    guids: string[],
+  ): Promise<void> {
+    if (guids.length === 0) {
+      return
+    }
+
+    await this.dbService.resolveFailedAddition(
+      instanceType,
+      instanceId,
+      guids[0],
+    )
+  }
+
+  async getFailedAdditions(
+    status?: FailedAdditionStatus,
+  ): Promise<FailedAddition[]> {
+    return this.dbService.getFailedAdditions(status)
+  }
+
+  /**
+   * Retries a single failed addition immediately, including dead-lettered
+   * ones. Returns the updated record, or null once the addition succeeded.
+   */
+  async retry(id: number): Promise<FailedAddition | null> {
+    const addition = await this.dbService.getFailedAddition(id)
+    if (!addition) {
+      throw new Error('Failed addition not found')
+    }
+
+    const succeeded = await this.attempt(addition)
+    return succeeded ? null : this.dbService.getFailedAddition(id)
+  }
+
+  async dismiss(id: number): Promise<boolean> {
+    return this.dbService.deleteFailedAddition(id)
+  }
+
+  /**
+   * Retries every queued addition for an instance right away, regardless of
+   * its backoff. Called when the instance recovers from being down.
+   */
+  async retryInstance(
+    instanceType: 'sonarr' | 'radarr',
+    instanceId: number,
+  ): Promise<void> {
+    const queued = await this.dbService.getRetryingFailedAdditionsForInstance(
+      instanceType,
+      instanceId,
+    )
+    for (const addition of queued) {
+      await this.attempt(addition)
+    }
+  }
+
+  private async retryDueAdditions() {
+    if (this.isRetrying) {
+      return
+    }
+
+    this.isRetrying = true
+
+    try {
+      const due = await this.dbService.getDueFailedAdditions()
+      for (const addition of due) {
+        // Waits for the instance to recover instead of using up attempts
+        if (
+          !this.fastify.instanceHealth.isHealthy(
+            addition.instanceType,
+            addition.instanceId,
+          )
+        ) {
+          continue
+        }
+        await this.attempt(addition)
+      }
+    } finally {
+      this.isRetrying = false
+    }
+  }
+
+  private async attempt(addition: FailedAddition): Promise<boolean> {
+    try {
+      if (addition.instanceType === 'sonarr') {
+        await this.sonarrManager.retryFailedAddition(addition)
+      } else {
+        await this.radarrManager.retryFailedAddition(addition)
+      }
+
+      await this.dbService.deleteFailedAddition(addition.id)
+      this.log.info(
+        `Retried ${addition.title} on ${addition.instanceType} instance ${addition.instanceId} successfully`,
+      )
+      return true
+    } catch (error) {
+      const attempts = addition.attempts + 1
+      const isDead = attempts >= MAX_RETRY_ATTEMPTS
+
+      await this.dbService.updateFailedAddition(addition.id, {
+        ...this.describeError(error),
+        attempts,
+        status: isDead ? 'dead' : 'retrying',
+        nextAttemptAt: isDead ? null : this.getNextAttemptAt(attempts),
+      })
+
+      if (isDead) {
+        this.log.error(
+          `Moved ${addition.title} to the dead-letter list after ${attempts} attempts`,
+        )
+      } else {
+        this.log.warn(
+          `Retry ${attempts} of ${addition.title} on ${addition.instanceType} instance ${addition.instanceId} failed`,
+        )
+      }
+      return false
+    }
+  }
+
+  private getNextAttemptAt(attempts: number): string {
+    const delay = Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS)
+    return new Date(Date.now() + delay).toISOString()
+  }
+
+  private describeError(error: unknown) {
+    if (error instanceof ArrApiError) {
+      return {
+        statusCode: error.status,
+        errorMessage: error.message,
+        errorBody: error.body || null,
+      }
+    }
+
+    return {
+      statusCode: null,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      errorBody: null,
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
+import type {
+  InstanceHealth,
+  InstanceHealthStatus,
+} from '@root/types/instance-health.types.js'
+
+type InstanceType = 'sonarr' | 'radarr'
+
+/** Consecutive failed checks before an instance counts as down */
+const FAILURE_THRESHOLD = 2
+const HISTORY_RETENTION_MS = 24 * 60 * 60 * 1000
+const HISTORY_LIMIT = 60
+
+interface InstanceHealthState {
+  status: InstanceHealthStatus
+  latencyMs: number | null
+  lastError: string | null
+  lastCheckedAt: string | null
+  statusChangedAt: string | null
+  consecutiveFailures: number
+}
+
+interface CheckableInstance {
+  type: InstanceType
+  id: number
+  name: string
+  verify: () => Promise<unknown>
+}
+
+/**
+ * Periodically checks every Sonarr and Radarr instance with a system status
+ * request and tracks whether it is up, along with latency history. Routing
+ * asks it whether an instance is healthy before adding, and additions queued
+ * while an instance was down are retried as soon as it recovers.
+ */
+export class InstanceHealthService {
+  private checkInterval: NodeJS.Timeout | null = null
+  private isChecking = false
+  private readonly states = new Map<string, InstanceHealthState>()
+
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly fastify: FastifyInstance,
+    private readonly checkIntervalMs: number = 60 * 1000,
+  ) {}
+
+  private get dbService() {
+    return this.fastify.db
+  }
+
+  start() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval)
+    }
+
+    this.checkInterval = setInterval(async () => {
+      try {
+        await this.checkAll()
+      } catch (error) {
+        this.log.error('Error checking instance health:', error)
+      }
+    }, this.checkIntervalMs)
+  }
+
+  stop() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval)
+      this.checkInterval = null
+    }
+  }
+
+  /**
+   * Instances that have not been checked yet count as healthy, so routing
+   * is not held up before the first check completes.
+   */
+  isHealthy(type: InstanceType, id: number): boolean {
+    return this.states.get(stateKey(type, id))?.status !== 'down'
+  }
+
+  async checkAll(): Promise<void> {
+    if (this.isChecking) {
+      return
+    }
+
+    this.isChecking = true
+
+    try {
+      const instances = await this.getCheckableInstances()
+      const liveKeys = new Set(
+        instances.map((instance) => stateKey(instance.type, instance.id)),
+      )
+      for (const key of this.states.keys()) {
+        if (!liveKeys.has(key)) {
+          this.states.delete(key)
+        }
+      }
+
+      await Promise.all(instances.map((instance) => this.check(instance)))
+
+      const cutoff = new Date(Date.now() - HISTORY_RETENTION_MS).toISOString()
+      await this.dbService.deleteInstanceHealthChecksBefore(cutoff)
+    } finally {
+      this.isChecking = false
+    }
+  }
+
+  async getHealth(): Promise<InstanceHealth[]> {
+    const instances = await this.getCheckableInstances()
+    return Promise.all(instances.map((instance) => this.describe(instance)))
+  }
+
+  async getInstanceHealth(
+    type: InstanceType,
+    id: number,
+  ): Promise<InstanceHealth | null> {
+    const instance = (await this.getCheckableInstances()).find(
+      (candidate) => candidate.type === type && candidate.id === id,
+    )
+    return instance ? this.describe(instance) : null
+  }
+
+  private async describe(instance: CheckableInstance): Promise<InstanceHealth> {
+    const state = this.states.get(stateKey(instance.type, instance.id))
+    return {
+      instanceType: instance.type,
+      instanceId: instance.id,
+      instanceName: instance.name,
+      status: state?.status ?? 'unknown',
+      latencyMs: state?.latencyMs ?? null,
+      lastError: state?.lastError ?? null,
+      lastCheckedAt: state?.lastCheckedAt ?? null,
+      statusChangedAt: state?.statusChangedAt ?? null,
+      consecutiveFailures: state?.consecutiveFailures ?? 0,
+      history: await this.dbService.getInstanceHealthHistory(
+        instance.type,
+        instance.id,
+        HISTORY_LIMIT,
+      ),
+    }
+  }
+
+  private async check(instance: CheckableInstance): Promise<void> {
+    const startedAt = Date.now()
+    let error: string | null = null
+    try {
+      await instance.verify()
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+    }
+    const latencyMs = error === null ? Date.now() - startedAt : null
+
+    try {
+      await this.dbService.createInstanceHealthCheck({
+        instanceType: instance.type,
+        instanceId: instance.id,
+        healthy: error === null,
+        latencyMs,
+        error,
+      })
+    } catch (recordError) {
+      this.log.error(
+        `Unable to record health check of ${instance.name}:`,
+        recordError,
+      )
+    }
+
+    await this.updateState(instance, latencyMs, error)
+  }
+
+  private async updateState(
+    instance: CheckableInstance,
+    latencyMs: number | null,
+    error: string | null,
+  ): Promise<void> {
+    const key = stateKey(instance.type, instance.id)
+    const now = new Date().toISOString()
+    const state: InstanceHealthState = this.states.get(key) ?? {
+      status: 'unknown',
+      latencyMs: null,
+      lastError: null,
+      lastCheckedAt: null,
+      statusChangedAt: null,
+      consecutiveFailures: 0,
+    }
+    const previousStatus = state.status
+
+    state.lastCheckedAt = now
+    state.latencyMs = latencyMs
+    state.lastError = error
+
+    if (error === null) {
+      state.consecutiveFailures = 0
+      if (previousStatus !== 'up') {
+        state.status = 'up'
+        state.statusChangedAt = now
+      }
+    } else {
+      state.consecutiveFailures += 1
+      if (
+        previousStatus !== 'down' &&
+        state.consecutiveFailures >= FAILURE_THRESHOLD
+      ) {
+        state.status = 'down'
+        state.statusChangedAt = now
+        this.log.warn(
+          `${instance.name} (${instance.type}) is down after ${state.consecutiveFailures} failed checks: ${error}`,
+        )
+      }
+    }
+
+    this.states.set(key, state)
+
+    if (previousStatus === 'down' && state.status === 'up') {
+      this.log.info(
+        `${instance.name} (${instance.type}) recovered, retrying queued additions`,
+      )
+      try {
+        await this.fastify.failedAdditions.retryInstance(
+          instance.type,
+          instance.id,
+        )
+      } catch (retryError) {
+        this.log.error(
+          `Error retrying queued additions for ${instance.name}:`,
+          retryError,
+        )
+      }
+    }
+  }
+
+  /** Instances with placeholder credentials are never checked */
+  private async getCheckableInstances(): Promise<CheckableInstance[]> {
+    const [sonarrInstances, radarrInstances] = await Promise.all([
+      this.fastify.sonarrManager.getAllInstances(),
+      this.fastify.radarrManager.getAllInstances(),
+    ])
+
+    const instances: CheckableInstance[] = []
+    for (const instance of sonarrInstances) {
+      const service = this.fastify.sonarrManager.getSonarrService(instance.id)
+      if (!service || instance.apiKey === 'placeholder') continue
+      instances.push({
+        type: 'sonarr',
+        id: instance.id,
+        name: instance.name,
+        verify: () => service.verifyConnection(instance),
+      })
+    }
+    for (const instance of radarrInstances) {
+      const service = this.fastify.radarrManager.getRadarrService(instance.id)
+      if (!service || instance.apiKey === 'placeholder') continue
+      instances.push({
+        type: 'radarr',
+        id: instance.id,
+        name: instance.name,
+        verify: () => service.verifyConnection(instance),
+      })
+    }
+    return instances
+  }
+}
+
+function stateKey(type: InstanceType, id: number): string {
+  return `${type}:${id}`
+}
@@ -0,0 +1,62 @@
+import type { FastifyBaseLogger } from 'fastify'
+import type { ConnectionTestResult } from '@root/types/sonarr.types.js'
+import type {
+  MediaBackend,
+  MediaBackendDescriptor,
+  MediaBackendInfo,
+  MediaBackendInstanceSummary,
+} from '@root/types/media-backend.types.js'
+
+/**
+ * Keeps track of the media backend types Pulsarr can talk to. Each type
+ * hands over its own instances through its descriptor.
+ */
+export class MediaBackendRegistry {
+  private readonly descriptors = new Map<string, MediaBackendDescriptor>()
+
+  constructor(private readonly log: FastifyBaseLogger) {}
+
+  register(descriptor: MediaBackendDescriptor): void {
+    if (this.descriptors.has(descriptor.type)) {
+      throw new Error(`Media backend type ${descriptor.type} already exists`)
+    }
+    this.descriptors.set(descriptor.type, descriptor)
+    this.log.info(`Registered ${descriptor.displayName} backend`)
+  }
+
+  getDescriptors(): MediaBackendInfo[] {
+    return [...this.descriptors.values()].map((descriptor) => ({
+      type: descriptor.type,
+      displayName: descriptor.displayName,
+      contentType: descriptor.contentType,
+    }))
+  }
+
+  getDescriptor(type: string): MediaBackendDescriptor | undefined {
+    return this.descriptors.get(type)
+  }
+
+  async getInstances(type: string): Promise<MediaBackendInstanceSummary[]> {
+    return this.requireDescriptor(type).listInstances()
+  }
+
+  getBackend(type: string, instanceId: number): MediaBackend | undefined {
+    return this.descriptors.get(type)?.getBackend(instanceId)
+  }
+
+  async testConnection(
+    type: string,
+    baseUrl: string,
+    apiKey: string,
+  ): Promise<ConnectionTestResult> {
+    return this.requireDescriptor(type).testConnection(baseUrl, apiKey)
+  }
+
+  private requireDescriptor(type: string): MediaBackendDescriptor {
+    const descriptor = this.descriptors.get(type)
+    if (!descriptor) {
+      throw new Error(`Unknown media backend type: ${type}`)
+    }
+    return descriptor
+  }
+}
@@ -9,6 +9,7 @@ import {
   getPlexWatchlistUrls,
   fetchWatchlistFromRss,
 } from '@utils/plex.js'
+import { applyGenreAliases, buildGenreAliasMap } from '@utils/genre-aliases.js'
 import type {
   Item as WatchlistItem,
   TokenWatchlistItem,
@@ -466,7 +467,9 @@ export class PlexWatchlistService {
           })
         }
 
-        await this.dbService.createWatchlistItems(itemsToInsert)
+        await this.dbService.createWatchlistItems(
+          await this.withGenreAliases(itemsToInsert),
+        )
         await this.dbService.syncGenresFromWatchlist()
 
         this.log.info(`Processed ${itemsToInsert.length} new items`)
@@ -526,9 +529,10 @@ export class PlexWatchlistService {
     })
 
     try {
-      await this.dbService.createWatchlistItems(linkItems, {
-        onConflict: 'merge',
-      })
+      await this.dbService.createWatchlistItems(
+        await this.withGenreAliases(linkItems),
+        { onConflict: 'merge' },
+      )
 
       await this.dbService.syncGenresFromWatchlist()
 
@@ -683,6 +687,31 @@ export class PlexWatchlistService {
     }
   }
 
+  /**
+   * Plex metadata and RSS keywords name some genres differently, so aliased
+   * genres are rewritten before items are stored.
+   */
+  private async withGenreAliases<T extends { genres?: string | string[] }>(
+    items: T[],
+  ): Promise<T[]> {
+    const aliases = buildGenreAliasMap(await this.dbService.getGenreAliases())
+    if (aliases.size === 0) {
+      return items
+    }
+
+    return items.map((item) =>
+      item.genres
+        ? {
+            ...item,
+            genres: applyGenreAliases(
+              Array.isArray(item.genres) ? item.genres : [item.genres],
+              aliases,
+            ),
+          }
+        : item,
+    )
+  }
+
   private prepareItemsForInsertion(
     processedItems: Map<Friend & { userId: number }, Set<WatchlistItem>>,
   ) {
@@ -863,7 +892,9 @@ export class PlexWatchlistService {
     }))
 
     if (formattedItems.length > 0) {
-      await this.dbService.createTempRssItems(formattedItems)
+      await this.dbService.createTempRssItems(
+        await this.withGenreAliases(formattedItems),
+      )
       await this.dbService.syncGenresFromWatchlist()
       this.log.info(`Stored ${formattedItems.length} RSS items for ${source}`)
     }
@@ -878,6 +909,10 @@ export class PlexWatchlistService {
       1,
       this.log,
     )
+    // A failed fetch returns no users, so the RSS diff keeps its snapshot
+    if (!selfItems) {
+      return { total: 0, users: [] }
+    }
 
     const watchlistGroup: WatchlistGroup = {
       user: {
@@ -904,6 +939,9 @@ export class PlexWatchlistService {
       1,
       this.log,
     )
+    if (!friendsItems) {
+      return { total: 0, users: [] }
+    }
 
     const watchlistGroup: WatchlistGroup = {
       user: {
@@ -0,0 +1,142 @@
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
+import type {
+  ProtectedItem,
+  TaggedProtectedItem,
+} from '@root/types/protection.types.js'
+
+export class ProtectionService {
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly fastify: FastifyInstance,
+  ) {}
+
+  private get config() {
+    return this.fastify.config
+  }
+
+  private get dbService() {
+    return this.fastify.db
+  }
+
+  private get sonarrManager() {
+    return this.fastify.sonarrManager
+  }
+
+  private get radarrManager() {
+    return this.fastify.radarrManager
+  }
+
+  async getProtectedItems(): Promise<ProtectedItem[]> {
+    return this.dbService.getProtectedItems()
+  }
+
+  async addProtectedItem(
+    item: Pick<ProtectedItem, 'guid' | 'title' | 'reason'>,
+  ): Promise<ProtectedItem> {
+    this.log.info(`Protecting ${item.title ?? item.guid} from deletion`)
+    return this.dbService.createProtectedItem(item)
+  }
+
+  async removeProtectedItem(id: number): Promise<boolean> {
+    this.log.info(`Removing deletion protection ${id}`)
+    return this.dbService.deleteProtectedItem(id)
+  }
+
+  /**
+   * Collects everything carrying the protection tag across all Sonarr and
+   * Radarr instances. Instances that fail to respond are logged and skipped.
+   */
+  async getTaggedItems(): Promise<TaggedProtectedItem[]> {
+    return (await this.collectTaggedItems()).items
+  }
+
+  private async collectTaggedItems(): Promise<{
+    items: TaggedProtectedItem[]
+    failedInstances: string[]
+  }> {
+    const label = this.config.protectionTag
+    if (!label) {
+      return { items: [], failedInstances: [] }
+    }
+
+    const taggedItems: TaggedProtectedItem[] = []
+    const failedInstances: string[] = []
+
+    for (const instance of await this.sonarrManager.getAllInstances()) {
+      const sonarrService = this.sonarrManager.getSonarrService(instance.id)
+      if (!sonarrService) continue
+
+      try {
+        const series = await sonarrService.fetchSeriesWithTag(label)
+        for (const show of series) {
+          taggedItems.push({
+            instanceType: 'sonarr',
+            instanceId: instance.id,
+            instanceName: instance.name,
+            title: show.title,
+            guids: show.guids,
+          })
+        }
+      } catch (error) {
+        failedInstances.push(instance.name)
+        this.log.error(
+          `Error fetching protected series from Sonarr instance ${instance.name}:`,
+          error,
+        )
+      }
+    }
+
+    for (const instance of await this.radarrManager.getAllInstances()) {
+      const radarrService = this.radarrManager.getRadarrService(instance.id)
+      if (!radarrService) continue
+
+      try {
+        const movies = await radarrService.fetchMoviesWithTag(label)
+        for (const movie of movies) {
+          taggedItems.push({
+            instanceType: 'radarr',
+            instanceId: instance.id,
+            instanceName: instance.name,
+            title: movie.title,
+            guids: movie.guids,
+          })
+        }
+      } catch (error) {
+        failedInstances.push(instance.name)
+        this.log.error(
+          `Error fetching protected movies from Radarr instance ${instance.name}:`,
+          error,
+        )
+      }
+    }
+
+    return { items: taggedItems, failedInstances }
+  }
+
+  /**
+   * Returns every GUID that must never be deleted, combining the explicit
+   * protected_items list with tagged content. Deletion paths should call this
+   * once per run and check candidates with isProtected. Throws if any
+   * instance's tags could not be read, since its tagged items would
+   * otherwise count as unprotected.
+   */
+  async getProtectedGuids(): Promise<Set<string>> {
+    const [protectedItems, { items: taggedItems, failedInstances }] =
+      await Promise.all([this.getProtectedItems(), this.collectTaggedItems()])
+
+    if (failedInstances.length > 0) {
+      throw new Error(
+        `Unable to read protection tags from ${failedInstances.join(', ')}, refusing to delete`,
+      )
+    }
+
+    return new Set([
+      ...protectedItems.map((item) => item.guid),
+      ...taggedItems.flatMap((item) => item.guids),
+    ])
+  }
+
+  isProtected(guids: string[], protectedGuids: Set<string>): boolean {
+    return guids.some((guid) => protectedGuids.has(guid))
+  }
+}
@@ -0,0 +1,85 @@
+import type { FastifyInstance } from 'fastify'
+import type { RadarrService } from '@services/radarr.service.js'
+import type {
+  MediaBackend,
+  MediaBackendAddOptions,
+  MediaBackendDescriptor,
+  MediaBackendProfile,
+  MediaBackendRootFolder,
+  MediaItem,
+} from '@root/types/media-backend.types.js'
+
+/**
+ * Exposes a Radarr instance through the generic media backend interface.
+ * Radarr-specific behaviour (minimum availability, monitor mode, requester
+ * tags) stays with the instance settings the service already applies.
+ */
+export class RadarrBackend implements MediaBackend {
+  constructor(private readonly service: RadarrService) {}
+
+  async fetchLibrary(bypassCache = false): Promise<MediaItem[]> {
+    return [...(await this.service.fetchMovies(bypassCache))]
+  }
+
+  async addItem(
+    item: MediaItem,
+    options: MediaBackendAddOptions = {},
+  ): Promise<void> {
+    await this.service.addToRadarr(
+      { ...item, type: 'movie' },
+      options.rootFolder,
+      options.qualityProfile,
+      { tags: options.tags },
+    )
+  }
+
+  deleteItem(item: MediaItem, deleteFiles: boolean): Promise<void> {
+    return this.service.deleteFromRadarr(
+      { ...item, type: 'movie' },
+      deleteFiles,
+    )
+  }
+
+  async fetchQualityProfiles(): Promise<MediaBackendProfile[]> {
+    const profiles = await this.service.fetchQualityProfiles()
+    return profiles.map(({ id, name }) => ({ id, name }))
+  }
+
+  async fetchRootFolders(): Promise<MediaBackendRootFolder[]> {
+    const folders = await this.service.fetchRootFolders()
+    return folders.map(({ path }) => ({ path }))
+  }
+
+  setupWebhook(): Promise<void> {
+    return this.service.setupWebhook()
+  }
+
+  removeWebhook(): Promise<void> {
+    return this.service.removeWebhook()
+  }
+}
+
+export function createRadarrBackendDescriptor(
+  fastify: FastifyInstance,
+): MediaBackendDescriptor {
+  return {
+    type: 'radarr',
+    displayName: 'Radarr',
+    contentType: 'movie',
+    testConnection: (baseUrl, apiKey) =>
+      fastify.radarrManager.testConnection(baseUrl, apiKey),
+    listInstances: async () => {
+      const instances = await fastify.radarrManager.getAllInstances()
+      return instances.map(({ id, name, baseUrl, isDefault }) => ({
+        id,
+        name,
+        baseUrl,
+        isDefault,
+      }))
+    },
+    getBackend: (instanceId) => {
+      const service = fastify.radarrManager.getRadarrService(instanceId)
+      return service ? new RadarrBackend(service) : undefined
+    },
+  }
+}
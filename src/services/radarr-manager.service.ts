@@ -5,9 +5,28 @@ import type {
   RadarrInstance,
   RadarrGenreRoute,
   ConnectionTestResult,
+  RadarrAddOverrides,
 } from '@root/types/radarr.types.js'
 import type { Item as RadarrItem } from '@root/types/radarr.types.js'
 import type { TemptRssWatchlistItem } from '@root/types/plex.types.js'
+import type { FailedAddition } from '@root/types/failed-addition.types.js'
+import type {
+  RoutingContext,
+  RoutingRule,
+} from '@root/types/routing-rule.types.js'
+import type {
+  ResolvedRoutingTarget,
+  RoutingPlan,
+  RoutingTarget,
+  RoutingTargetAddOptions,
+} from '@root/types/routing-plan.types.js'
+import type { User } from '@root/types/config.types.js'
+import type { RoutingHistorySource } from '@root/types/routing-history.types.js'
+import {
+  conditionUsesMetadata,
+  findMatchingRule,
+} from '@utils/routing-rules.js'
+import { buildGenreAliasMap, expandGenres } from '@utils/genre-aliases.js'
 
 export class RadarrManagerService {
   private radarrServices: Map<number, RadarrService> = new Map()
@@ -92,7 +111,7 @@ export class RadarrManagerService {
     }
   }
 
-  async fetchAllMovies(): Promise<RadarrItem[]> {
+  async fetchAllMovies(bypass = false): Promise<RadarrItem[]> {
     const allMovies: RadarrItem[] = []
     const instances = await this.fastify.db.getAllRadarrInstances()
 
@@ -106,7 +125,7 @@ export class RadarrManagerService {
           continue
         }
 
-        const instanceMovies = await radarrService.fetchMovies()
+        const instanceMovies = await radarrService.fetchMovies(bypass)
 
         for (const movie of Array.from(instanceMovies)) {
           allMovies.push({
@@ -125,137 +144,596 @@ export class RadarrManagerService {
   }
 
   async routeItemToRadarr(item: RadarrItem, key: string): Promise<void> {
-    const itemGenres = new Set(
-      Array.isArray(item.genres)
-        ? item.genres
-        : typeof item.genres === 'string'
-          ? [item.genres]
-          : [],
+    const radarrItem = this.prepareRadarrItem(item)
+    const plan = await this.planRouting(radarrItem)
+
+    if (
+      plan.targets.length === 0 &&
+      plan.genreRoutes.length === 0 &&
+      plan.defaultInstanceId === null
+    ) {
+      throw new Error('No default Radarr instance configured')
+    }
+
+    const routedInstanceIds = new Set(
+      plan.targets.map((target) => target.instanceId),
     )
+    for (const target of plan.targets) {
+      if (this.fastify.instanceHealth.isHealthy('radarr', target.instanceId)) {
+        await this.addToInstance(target, radarrItem, key, plan.requesters)
+        continue
+      }
+
+      const failover = await this.findFailoverTarget(target, routedInstanceIds)
+      if (failover) {
+        routedInstanceIds.add(failover.instanceId)
+        await this.addToInstance(failover, radarrItem, key, plan.requesters)
+      } else {
+        await this.queueUntilRecovered(target, radarrItem, key)
+      }
+    }
+  }
 
-    const genreRoutes = await this.fastify.db.getRadarrGenreRoutes()
+  /**
+   * Picks a healthy member of a down instance's synced instances that the
+   * item is not already going to. The failover target uses that instance's
+   * own root folder and quality profile, since paths and profiles differ
+   * between instances.
+   */
+  private async findFailoverTarget(
+    target: RoutingTarget,
+    routedInstanceIds: Set<number>,
+  ): Promise<RoutingTarget | null> {
     const instances = await this.fastify.db.getAllRadarrInstances()
+    const downInstance = instances.find(
+      (instance) => instance.id === target.instanceId,
+    )
+    if (!downInstance) {
+      return null
+    }
+
+    const failover = instances.find(
+      (instance) =>
+        (downInstance.syncedInstances || []).includes(instance.id) &&
+        !routedInstanceIds.has(instance.id) &&
+        this.radarrServices.has(instance.id) &&
+        this.fastify.instanceHealth.isHealthy('radarr', instance.id),
+    )
+    if (!failover) {
+      return null
+    }
+
+    this.log.warn(
+      `Radarr instance ${downInstance.name} is down, failing over to synced instance ${failover.name}`,
+    )
+    return {
+      ...target,
+      instanceId: failover.id,
+      reason: `failover from ${downInstance.name} (${target.reason})`,
+      rootFolder: null,
+      qualityProfile: null,
+    }
+  }
+
+  /**
+   * Queues an add for a down instance with no healthy synced instance to
+   * fail over to. The failed additions queue holds it until the health
+   * checker sees the instance recover.
+   */
+  private async queueUntilRecovered(
+    target: RoutingTarget,
+    item: RadarrItem,
+    key: string,
+  ): Promise<void> {
+    const error = new Error(
+      `Radarr instance ${target.instanceId} is down, queued until it recovers`,
+    )
+    this.log.warn(`Queued ${item.title} for ${target.reason}: ${error.message}`)
+    await this.fastify.failedAdditions.recordFailure(
+      {
+        instanceType: 'radarr',
+        instanceId: target.instanceId,
+        title: item.title,
+        key,
+        guids: item.guids,
+        genres: item.genres ?? [],
+        rootFolder: target.rootFolder,
+        qualityProfile: target.qualityProfile,
+        addOptions: this.targetAddOptions(target),
+      },
+      error,
+    )
+    await this.recordRoutingHistory(key, item, target, {
+      rootFolder: target.rootFolder,
+      qualityProfile: target.qualityProfile,
+      error,
+    })
+  }
+
+  /**
+   * Works out where an item would be added without adding it. A matching
+   * routing rule wins outright, then user routes, then genre routes or the
+   * default instance with its synced instances. Watchlisting users are read
+   * from the database unless given.
+   */
+  async planRouting(
+    item: RadarrItem,
+    watchlisters?: User[],
+  ): Promise<RoutingPlan> {
+    const prepared = this.prepareRadarrItem(item)
+    const genreAliases = buildGenreAliasMap(
+      await this.fastify.db.getGenreAliases(),
+    )
+    // Aliases match both ways, so routes and rules see every alias of the
+    // item's genres as well
+    const radarrItem = {
+      ...prepared,
+      genres: expandGenres(prepared.genres ?? [], genreAliases),
+    }
+    const itemGenres = new Set(
+      radarrItem.genres.map((genre) => genre.toLowerCase()),
+    )
+    const users =
+      watchlisters ??
+      (await this.fastify.db.getWatchlistUsers(radarrItem.guids))
+
+    const plan: RoutingPlan = {
+      matchedRule: null,
+      userRoutes: [],
+      genreRoutes: [],
+      defaultInstanceId: null,
+      syncedInstanceIds: [],
+      targets: [],
+      requesters: users.map((user) => user.name),
+    }
+
+    const rule = await this.findRoutingRule(radarrItem, users)
+    if (rule) {
+      plan.matchedRule = { id: rule.id, name: rule.name }
+      plan.targets.push({
+        instanceId: rule.instanceId,
+        source: 'rule',
+        reason: `rule "${rule.name}"`,
+        rootFolder: rule.rootFolder,
+        qualityProfile: rule.qualityProfile,
+        tags: rule.tags.length > 0 ? rule.tags : undefined,
+        monitored: rule.monitored,
+        searchOnAdd: rule.searchOnAdd,
+      })
+      return plan
+    }
+
+    const userRoutes = await this.fastify.db.getUserRoutesForUsers(
+      'radarr',
+      users.map((user) => user.id),
+    )
+    for (const route of userRoutes) {
+      if (!this.radarrServices.has(route.instanceId)) {
+        this.log.warn(
+          `Radarr service ${route.instanceId} not found for user route of ${route.userName}`,
+        )
+        continue
+      }
+
+      plan.userRoutes.push({
+        id: route.id,
+        userName: route.userName,
+        instanceId: route.instanceId,
+        exclusive: route.exclusive,
+      })
+      const alreadyTargeted = plan.targets.some(
+        (target) => target.instanceId === route.instanceId,
+      )
+      if (alreadyTargeted) continue
+      plan.targets.push({
+        instanceId: route.instanceId,
+        source: 'user-route',
+        reason: `user route for ${route.userName}`,
+        rootFolder: route.rootFolder,
+        qualityProfile: route.qualityProfile,
+      })
+    }
+
+    // Exclusive user routes replace genre and default routing entirely
+    if (plan.userRoutes.some((route) => route.exclusive)) {
+      return plan
+    }
+
+    const routedInstanceIds = new Set(
+      plan.targets.map((target) => target.instanceId),
+    )
 
-    const genreMatches = genreRoutes.filter((route) =>
-      itemGenres.has(route.genre),
+    const genreMatches = (await this.fastify.db.getRadarrGenreRoutes()).filter(
+      (route) => itemGenres.has(route.genre.toLowerCase()),
     )
+    plan.genreRoutes = genreMatches.map((route) => ({
+      id: route.id,
+      name: route.name,
+      genre: route.genre,
+      instanceId: route.radarrInstanceId,
+    }))
 
     if (genreMatches.length > 0) {
       for (const match of genreMatches) {
-        this.log.info(
-          `Processing genre route "${match.name}" for genre "${match.genre}"`,
-        )
-        const radarrService = this.radarrServices.get(match.radarrInstanceId)
+        if (routedInstanceIds.has(match.radarrInstanceId)) continue
+        routedInstanceIds.add(match.radarrInstanceId)
+        plan.targets.push({
+          instanceId: match.radarrInstanceId,
+          source: 'genre-route',
+          reason: `genre route "${match.name}" for genre "${match.genre}"`,
+          rootFolder: match.rootFolder,
+          qualityProfile: match.qualityProfile,
+          minimumAvailability: match.minimumAvailability ?? undefined,
+          movieMonitor: match.monitor ?? undefined,
+          searchOnAdd: match.searchOnAdd ?? undefined,
+        })
+      }
+      return plan
+    }
+
+    const defaultInstance = await this.fastify.db.getDefaultRadarrInstance()
+    if (!defaultInstance) {
+      return plan
+    }
+
+    plan.defaultInstanceId = defaultInstance.id
+    plan.syncedInstanceIds = defaultInstance.syncedInstances || []
+
+    const syncedInstanceIds = new Set([
+      defaultInstance.id,
+      ...(defaultInstance.syncedInstances || []),
+    ])
+    const syncedInstances = (
+      await this.fastify.db.getAllRadarrInstances()
+    ).filter((instance) => syncedInstanceIds.has(instance.id))
+
+    const targetInstances =
+      syncedInstances.length > 0 ? syncedInstances : [defaultInstance]
+
+    for (const instance of targetInstances) {
+      if (routedInstanceIds.has(instance.id)) continue
+      plan.targets.push({
+        instanceId: instance.id,
+        source: 'default',
+        reason:
+          instance.id === defaultInstance.id
+            ? 'default instance'
+            : `synced with default instance ${defaultInstance.name}`,
+        rootFolder: instance.rootFolder || null,
+        qualityProfile:
+          instance.qualityProfile !== null &&
+          instance.qualityProfile !== undefined &&
+          /^\d+$/.test(String(instance.qualityProfile))
+            ? Number(instance.qualityProfile)
+            : null,
+      })
+    }
+
+    return plan
+  }
+
+  /**
+   * Resolves each planned target against its instance the same way an add
+   * would, for previews. Unreachable instances report an error instead.
+   */
+  async resolveRoutingTargets(
+    plan: RoutingPlan,
+  ): Promise<ResolvedRoutingTarget[]> {
+    const instances = await this.fastify.db.getAllRadarrInstances()
+
+    return Promise.all(
+      plan.targets.map(async (target) => {
+        const instanceName =
+          instances.find((instance) => instance.id === target.instanceId)
+            ?.name ?? `#${target.instanceId}`
+        const radarrService = this.radarrServices.get(target.instanceId)
         if (!radarrService) {
-          this.log.warn(
-            `Radarr service ${match.radarrInstanceId} not found for genre route "${match.name}"`,
-          )
-          continue
+          return {
+            ...target,
+            instanceName,
+            resolved: null,
+            error: `Radarr service ${target.instanceId} not initialized`,
+          }
         }
 
-        const radarrItem = this.prepareRadarrItem(item)
-
         try {
-          await radarrService.addToRadarr(
-            radarrItem,
-            match.rootFolder,
-            match.qualityProfile,
-          )
-          await this.fastify.db.updateWatchlistItem(key, {
-            radarr_instance_id: match.radarrInstanceId,
-          })
-          this.log.info(
-            `Successfully routed item to genre-specific instance ${match.radarrInstanceId} using route "${match.name}"`,
+          const addTarget = await radarrService.resolveAddTarget(
+            target.rootFolder ?? undefined,
+            target.qualityProfile ?? undefined,
+            this.addOverrides(target, plan.requesters),
           )
+          return {
+            ...target,
+            instanceName,
+            resolved: {
+              rootFolder: addTarget.rootFolderPath,
+              qualityProfileId: addTarget.qualityProfileId,
+              qualityProfileName: addTarget.qualityProfileName,
+              tags: addTarget.tags,
+              monitored: addTarget.monitored,
+              searchOnAdd: addTarget.addOptions.searchForMovie,
+              minimumAvailability: addTarget.minimumAvailability,
+              movieMonitor: addTarget.addOptions.monitor,
+            },
+            error: null,
+          }
         } catch (error) {
-          this.log.error(
-            `Failed to add item to genre-specific instance ${match.radarrInstanceId} using route "${match.name}":`,
-            error,
-          )
+          return {
+            ...target,
+            instanceName,
+            resolved: null,
+            error: error instanceof Error ? error.message : String(error),
+          }
         }
-      }
-    } else {
-      const defaultInstance = await this.fastify.db.getDefaultRadarrInstance()
-      if (!defaultInstance) {
-        throw new Error('No default Radarr instance configured')
-      }
+      }),
+    )
+  }
 
-      const syncedInstanceIds = new Set([
-        defaultInstance.id,
-        ...(defaultInstance.syncedInstances || []),
-      ])
+  /**
+   * Finds the first enabled routing rule matching the item whose target
+   * instance is available.
+   */
+  private async findRoutingRule(
+    item: RadarrItem,
+    users: User[],
+  ): Promise<RoutingRule | undefined> {
+    const rules = (await this.fastify.db.getRoutingRules('radarr')).filter(
+      (rule) => rule.enabled,
+    )
+    if (rules.length === 0) {
+      return undefined
+    }
 
-      const syncedInstances = instances.filter((instance) =>
-        syncedInstanceIds.has(instance.id),
-      )
+    const context: RoutingContext = {
+      contentType: 'movie',
+      genres: item.genres ?? [],
+      users: users.flatMap((user) =>
+        user.alias ? [user.name, user.alias] : [user.name],
+      ),
+    }
 
-      const targetInstances =
-        syncedInstances.length > 0 ? syncedInstances : [defaultInstance]
+    if (rules.some((rule) => conditionUsesMetadata(rule.condition))) {
+      Object.assign(context, await this.lookupRoutingMetadata(item, rules))
+    }
 
-      for (const instance of targetInstances) {
-        const radarrService = this.radarrServices.get(instance.id)
-        if (!radarrService) {
-          this.log.warn(`Radarr service ${instance.id} not found`)
-          continue
-        }
+    const rule = findMatchingRule(rules, context)
+    if (rule && !this.radarrServices.has(rule.instanceId)) {
+      this.log.warn(
+        `Radarr service ${rule.instanceId} not found for routing rule "${rule.name}"`,
+      )
+      return undefined
+    }
 
-        const radarrItem = this.prepareRadarrItem(item)
+    return rule
+  }
 
-        try {
-          const matchingRoute = genreRoutes.find(
-            (route) =>
-              route.radarrInstanceId === instance.id &&
-              itemGenres.has(route.genre),
-          )
+  /** Add options of a target, kept with failed additions for retries */
+  private targetAddOptions(target: RoutingTarget): RoutingTargetAddOptions {
+    return {
+      tags: target.tags,
+      monitored: target.monitored,
+      searchOnAdd: target.searchOnAdd,
+      minimumAvailability: target.minimumAvailability,
+      movieMonitor: target.movieMonitor,
+    }
+  }
 
-          if (matchingRoute) {
-            this.log.info(
-              `Using genre route "${matchingRoute.name}" for default instance routing`,
-            )
-          }
+  private addOverrides(
+    options: RoutingTargetAddOptions,
+    requesters: string[],
+  ): RadarrAddOverrides {
+    return {
+      tags: options.tags,
+      requesters,
+      monitored: options.monitored,
+      searchOnAdd: options.searchOnAdd,
+      minimumAvailability: options.minimumAvailability,
+      monitor: options.movieMonitor,
+    }
+  }
 
-          const targetRootFolder =
-            matchingRoute?.rootFolder || instance.rootFolder
-          let targetQualityProfileId: number | undefined = undefined
+  /**
+   * Adds the item to a planned target, records the instance on the watchlist
+   * item and tracks the outcome in the failed additions list.
+   */
+  private async addToInstance(
+    target: RoutingTarget,
+    item: RadarrItem,
+    key: string,
+    requesters: string[],
+  ): Promise<void> {
+    const { instanceId, reason } = target
+    const radarrService = this.radarrServices.get(instanceId)
+    if (!radarrService) {
+      this.log.warn(`Radarr service ${instanceId} not found for ${reason}`)
+      return
+    }
 
-          const isNumericQualityProfile = (
-            value: string | number | null,
-          ): value is number => {
-            if (value === null) return false
-            if (typeof value === 'number') return true
-            return /^\d+$/.test(value)
-          }
+    this.log.info(`Routing ${item.title} with ${reason}`)
 
-          if (matchingRoute?.qualityProfile) {
-            if (isNumericQualityProfile(matchingRoute.qualityProfile)) {
-              targetQualityProfileId = Number(matchingRoute.qualityProfile)
-            }
-          } else if (instance.qualityProfile) {
-            if (isNumericQualityProfile(instance.qualityProfile)) {
-              targetQualityProfileId = Number(instance.qualityProfile)
-            }
-          }
+    try {
+      const added = await radarrService.addToRadarr(
+        item,
+        target.rootFolder ?? undefined,
+        target.qualityProfile ?? undefined,
+        this.addOverrides(target, requesters),
+      )
+      await this.fastify.db.updateWatchlistItem(key, {
+        radarr_instance_id: instanceId,
+      })
+      await this.fastify.db.addWatchlistItemInstance(
+        item.guids,
+        'radarr',
+        instanceId,
+      )
+      await this.fastify.failedAdditions.resolve(
+        'radarr',
+        instanceId,
+        item.guids,
+      )
+      this.log.info(
+        `Successfully routed item to instance ${instanceId} using ${reason}`,
+      )
+      await this.recordRoutingHistory(key, item, target, {
+        rootFolder: added.rootFolderPath,
+        qualityProfile: added.qualityProfileId,
+      })
+    } catch (error) {
+      this.log.error(
+        `Failed to add item to instance ${instanceId} using ${reason}:`,
+        error,
+      )
+      await this.fastify.failedAdditions.recordFailure(
+        {
+          instanceType: 'radarr',
+          instanceId,
+          title: item.title,
+          key,
+          guids: item.guids,
+          genres: item.genres ?? [],
+          rootFolder: target.rootFolder,
+          qualityProfile: target.qualityProfile,
+          addOptions: this.targetAddOptions(target),
+        },
+        error,
+      )
+      await this.recordRoutingHistory(key, item, target, {
+        rootFolder: target.rootFolder,
+        qualityProfile: target.qualityProfile,
+        error,
+      })
+    }
+  }
 
-          await radarrService.addToRadarr(
-            radarrItem,
-            targetRootFolder || undefined,
-            targetQualityProfileId,
-          )
+  /**
+   * Appends to the routing history. History is informational, so failures
+   * to write it are logged rather than interrupting routing.
+   */
+  private async recordRoutingHistory(
+    key: string,
+    item: RadarrItem,
+    target: Pick<RoutingTarget, 'instanceId' | 'reason'> & {
+      source: RoutingHistorySource
+    },
+    outcome: {
+      rootFolder: string | null
+      qualityProfile: number | string | null
+      error?: unknown
+    },
+  ): Promise<void> {
+    try {
+      await this.fastify.db.createRoutingHistoryEntry({
+        // RSS keys are random per fetch, so history is grouped by GUID
+        guid: item.guids[0] ?? key,
+        key,
+        title: item.title,
+        instanceType: 'radarr',
+        instanceId: target.instanceId,
+        source: target.source,
+        routeName: target.reason,
+        rootFolder: outcome.rootFolder,
+        qualityProfile:
+          outcome.qualityProfile === null
+            ? null
+            : String(outcome.qualityProfile),
+        status: outcome.error === undefined ? 'success' : 'failed',
+        errorMessage:
+          outcome.error === undefined
+            ? null
+            : outcome.error instanceof Error
+              ? outcome.error.message
+              : String(outcome.error),
+      })
+    } catch (historyError) {
+      this.log.error(
+        `Failed to record routing history for ${item.title}:`,
+        historyError,
+      )
+    }
+  }
 
-          await this.fastify.db.updateWatchlistItem(key, {
-            radarr_instance_id: instance.id,
-          })
-          this.log.info(
-            `Successfully routed item to instance ${instance.id} with quality profile ${targetQualityProfileId ?? 'default'}`,
-          )
-        } catch (error) {
-          this.log.error(
-            `Failed to add item to instance ${instance.id}:`,
-            error,
-          )
-        }
+  /**
+   * Fetches year, language and certification from the first reachable rule
+   * target. Lookup failures leave those fields unset so rules relying on
+   * them simply do not match.
+   */
+  private async lookupRoutingMetadata(
+    item: RadarrItem,
+    rules: RoutingRule[],
+  ): Promise<Partial<RoutingContext>> {
+    const instanceIds = [
+      ...new Set([
+        ...rules.map((rule) => rule.instanceId),
+        ...this.radarrServices.keys(),
+      ]),
+    ]
+
+    for (const instanceId of instanceIds) {
+      const radarrService = this.radarrServices.get(instanceId)
+      if (!radarrService) continue
+
+      try {
+        const metadata = await radarrService.lookupRoutingMetadata(item)
+        return metadata ?? {}
+      } catch (error) {
+        this.log.warn(
+          `Unable to look up routing metadata for ${item.title} on Radarr instance ${instanceId}:`,
+          error,
+        )
       }
     }
+
+    return {}
+  }
+
+  async retryFailedAddition(addition: FailedAddition): Promise<void> {
+    const radarrService = this.radarrServices.get(addition.instanceId)
+    if (!radarrService) {
+      throw new Error(`Radarr instance ${addition.instanceId} not found`)
+    }
+
+    const qualityProfile =
+      addition.qualityProfile && /^\d+$/.test(addition.qualityProfile)
+        ? Number(addition.qualityProfile)
+        : (addition.qualityProfile ?? undefined)
+
+    const item = this.prepareRadarrItem({
+      title: addition.title,
+      guids: addition.guids,
+      type: 'movie',
+      genres: addition.genres,
+    })
+    const watchlisters = await this.fastify.db.getWatchlistUsers(item.guids)
+    const added = await radarrService.addToRadarr(
+      item,
+      addition.rootFolder ?? undefined,
+      qualityProfile,
+      this.addOverrides(
+        addition.addOptions,
+        watchlisters.map((user) => user.name),
+      ),
+    )
+    await this.fastify.db.updateWatchlistItem(addition.key, {
+      radarr_instance_id: addition.instanceId,
+    })
+    await this.fastify.db.addWatchlistItemInstance(
+      item.guids,
+      'radarr',
+      addition.instanceId,
+    )
+    await this.recordRoutingHistory(
+      addition.key,
+      item,
+      {
+        instanceId: addition.instanceId,
+        source: 'retry',
+        reason: 'failed addition retry',
+      },
+      {
+        rootFolder: added.rootFolderPath,
+        qualityProfile: added.qualityProfileId,
+      },
+    )
   }
 
   private prepareRadarrItem(radarrItem: RadarrItem): RadarrItem {
@@ -297,6 +775,25 @@ export class RadarrManagerService {
     )
   }
 
+  async unmonitorItem(guids: string[]): Promise<number> {
+    let unmonitored = 0
+
+    for (const [instanceId, radarrService] of this.radarrServices) {
+      try {
+        if (await radarrService.unmonitorMovie(guids)) {
+          unmonitored++
+        }
+      } catch (error) {
+        this.log.error(
+          `Failed to unmonitor item in Radarr instance ${instanceId}:`,
+          error,
+        )
+      }
+    }
+
+    return unmonitored
+  }
+
   async addInstance(instance: Omit<RadarrInstance, 'id'>): Promise<number> {
     const id = await this.fastify.db.createRadarrInstance(instance)
     const radarrService = new RadarrService(
@@ -1,6 +1,8 @@
 import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
 import type {
-  RadarrAddOptions,
+  RadarrAddOverrides,
+  RadarrAddTarget,
+  RadarrLookupResult,
   RadarrPost,
   RadarrMovie,
   Item,
@@ -12,11 +14,32 @@ import type {
   PingResponse,
   ConnectionTestResult,
   WebhookNotification,
+  Tag,
 } from '@root/types/radarr.types.js'
+import type { RoutingMetadata } from '@root/types/routing-rule.types.js'
+import { ArrApiClient } from '@utils/arr-api-client.js'
+import { ArrApiError } from '@utils/arr-api-error.js'
+import { LibraryCache } from '@utils/library-cache.js'
+import { buildTagLabels, findTag, normalizeTagLabel } from '@utils/arr-tags.js'
+import { findQualityProfile, hasRootFolder } from '@utils/arr-references.js'
+import {
+  buildWebhookCredentials,
+  generateWebhookSecret,
+  type WebhookCredentials,
+} from '@utils/webhook-auth.js'
+
+const LIBRARY_CACHE_TTL_MS = 5 * 60 * 1000
+const VERIFY_TIMEOUT_MS = 10 * 1000
 
 export class RadarrService {
   private config: RadarrConfiguration | null = null
+  private client: ArrApiClient | null = null
   private webhookInitialized = false
+  private webhookCredentials: WebhookCredentials | null = null
+  private readonly libraryCache = new LibraryCache<Item>(LIBRARY_CACHE_TTL_MS)
+  private readonly exclusionsCache = new LibraryCache<Item>(
+    LIBRARY_CACHE_TTL_MS,
+  )
 
   constructor(
     private readonly log: FastifyBaseLogger,
@@ -32,6 +55,13 @@ export class RadarrService {
     return this.config
   }
 
+  private get api(): ArrApiClient {
+    if (!this.client) {
+      throw new Error('Radarr service not initialized')
+    }
+    return this.client
+  }
+
   private constructWebhookUrl(): string {
     const url = new URL(this.appBaseUrl)
     url.port = this.port.toString()
@@ -39,11 +69,39 @@ export class RadarrService {
     return url.toString()
   }
 
-  private async setupWebhook(): Promise<void> {
+  /**
+   * Loads the instance's webhook secret, generating and storing one the
+   * first time, so the webhook route can tell calls from this instance apart
+   * from anyone else reaching the port.
+   */
+  private async resolveWebhookCredentials(
+    instanceId: number,
+  ): Promise<WebhookCredentials> {
+    let secret = await this.fastify.db.getInstanceWebhookSecret(
+      'radarr',
+      instanceId,
+    )
+    if (!secret) {
+      secret = generateWebhookSecret()
+      await this.fastify.db.setInstanceWebhookSecret(
+        'radarr',
+        instanceId,
+        secret,
+      )
+    }
+    return buildWebhookCredentials('radarr', instanceId, secret)
+  }
+
+  async setupWebhook(): Promise<void> {
     if (this.webhookInitialized) {
       return
     }
 
+    const credentials = this.webhookCredentials
+    if (!credentials) {
+      throw new Error('Radarr webhook credentials not initialized')
+    }
+
     await new Promise((resolve) => setTimeout(resolve, 1000))
 
     try {
@@ -53,7 +111,7 @@ export class RadarrService {
       )
 
       const existingWebhooks =
-        await this.getFromRadarr<WebhookNotification[]>('notification')
+        await this.api.get<WebhookNotification[]>('notification')
       const existingPulsarrWebhook = existingWebhooks.find(
         (hook) => hook.name === 'Pulsarr',
       )
@@ -62,12 +120,22 @@ export class RadarrService {
         const currentWebhookUrl = existingPulsarrWebhook.fields.find(
           (field) => field.name === 'url',
         )?.value
-        if (currentWebhookUrl === expectedWebhookUrl) {
+        // The password is masked in responses, but the username carries a
+        // fingerprint of the secret; webhooks created before secrets have none
+        const currentUsername = existingPulsarrWebhook.fields.find(
+          (field) => field.name === 'username',
+        )?.value
+        if (
+          currentWebhookUrl === expectedWebhookUrl &&
+          currentUsername === credentials.username
+        ) {
           this.log.info('Pulsarr Radarr webhook exists with correct URL')
           return
         }
-        this.log.info('Pulsarr Radarr webhook URL mismatch, recreating webhook')
-        await this.deleteNotification(existingPulsarrWebhook.id)
+        this.log.info(
+          'Pulsarr Radarr webhook URL or credentials mismatch, recreating webhook',
+        )
+        await this.api.delete(`notification/${existingPulsarrWebhook.id}`)
       }
 
       const webhookConfig = {
@@ -137,6 +205,7 @@ export class RadarrService {
             order: 2,
             name: 'username',
             label: 'Username',
+            value: credentials.username,
             type: 'textbox',
             advanced: false,
             privacy: 'userName',
@@ -146,6 +215,7 @@ export class RadarrService {
             order: 3,
             name: 'password',
             label: 'Password',
+            value: credentials.password,
             type: 'password',
             advanced: false,
             privacy: 'password',
@@ -170,7 +240,7 @@ export class RadarrService {
       }
 
       try {
-        const response = await this.postToRadarr('notification', webhookConfig)
+        const response = await this.api.post('notification', webhookConfig)
         this.log.info(
           `Successfully created Pulsarr webhook with URL for Radarr: ${expectedWebhookUrl}`,
         )
@@ -194,12 +264,12 @@ export class RadarrService {
   async removeWebhook(): Promise<void> {
     try {
       const existingWebhooks =
-        await this.getFromRadarr<WebhookNotification[]>('notification')
+        await this.api.get<WebhookNotification[]>('notification')
       const pulsarrWebhook = existingWebhooks.find(
         (hook) => hook.name === 'Pulsarr',
       )
       if (pulsarrWebhook) {
-        await this.deleteNotification(pulsarrWebhook.id)
+        await this.api.delete(`notification/${pulsarrWebhook.id}`)
         this.log.info('Successfully removed Pulsarr webhook for Radarr')
       }
     } catch (error) {
@@ -208,22 +278,6 @@ export class RadarrService {
     }
   }
 
-  private async deleteNotification(notificationId: number): Promise<void> {
-    const config = this.radarrConfig
-    const url = new URL(
-      `${config.radarrBaseUrl}/api/v3/notification/${notificationId}`,
-    )
-    const response = await fetch(url.toString(), {
-      method: 'DELETE',
-      headers: {
-        'X-Api-Key': config.radarrApiKey,
-      },
-    })
-    if (!response.ok) {
-      throw new Error(`Radarr API error: ${response.statusText}`)
-    }
-  }
-
   async initialize(instance: RadarrInstance): Promise<void> {
     try {
       if (!instance.baseUrl || !instance.apiKey) {
@@ -232,6 +286,13 @@ export class RadarrService {
         )
       }
 
+      this.client = new ArrApiClient({
+        service: 'Radarr',
+        baseUrl: instance.baseUrl,
+        apiKey: instance.apiKey,
+        log: this.log,
+      })
+
       // Skip webhook setup for placeholder credentials
       if (instance.apiKey === 'placeholder') {
         this.log.info(
@@ -242,7 +303,11 @@ export class RadarrService {
           radarrApiKey: instance.apiKey,
           radarrQualityProfileId: instance.qualityProfile || null,
           radarrRootFolder: instance.rootFolder || null,
-          radarrTagIds: instance.tags,
+          radarrTags: instance.tags,
+          radarrUserTags: instance.userTags,
+          radarrMinimumAvailability: instance.minimumAvailability,
+          radarrMonitor: instance.monitor,
+          radarrSearchOnAdd: instance.searchOnAdd,
         }
         return
       }
@@ -252,9 +317,17 @@ export class RadarrService {
         radarrApiKey: instance.apiKey,
         radarrQualityProfileId: instance.qualityProfile || null,
         radarrRootFolder: instance.rootFolder || null,
-        radarrTagIds: instance.tags,
+        radarrTags: instance.tags,
+        radarrUserTags: instance.userTags,
+        radarrMinimumAvailability: instance.minimumAvailability,
+        radarrMonitor: instance.monitor,
+        radarrSearchOnAdd: instance.searchOnAdd,
       }
 
+      this.webhookCredentials = await this.resolveWebhookCredentials(
+        instance.id,
+      )
+
       this.log.info(
         `Successfully initialized base Radarr service for ${instance.name}`,
       )
@@ -282,21 +355,20 @@ export class RadarrService {
     }
   }
 
-  private async verifyConnection(instance: RadarrInstance): Promise<unknown> {
-    const url = new URL(`${instance.baseUrl}/api/v3/system/status`)
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'X-Api-Key': instance.apiKey,
-        Accept: 'application/json',
-      },
+  /**
+   * Fetches the system status in a single attempt, so the instance health
+   * checker sees a down instance after one timeout instead of after retries.
+   */
+  async verifyConnection(instance: RadarrInstance): Promise<unknown> {
+    const client = new ArrApiClient({
+      service: 'Radarr',
+      baseUrl: instance.baseUrl,
+      apiKey: instance.apiKey,
+      log: this.log,
+      timeoutMs: VERIFY_TIMEOUT_MS,
+      retries: 0,
     })
-
-    if (!response.ok) {
-      throw new Error(`Connection verification failed: ${response.statusText}`)
-    }
-
-    return response.json()
+    return client.get('system/status')
   }
 
   private toItem(movie: RadarrMovie): Item {
@@ -312,13 +384,14 @@ export class RadarrService {
       added: movie.added,
       status: movie.hasFile ? 'grabbed' : 'requested',
       movie_status: movie.isAvailable ? 'available' : 'unavailable',
+      instance_status: movie.hasFile ? 'available' : 'requested',
+      tags: movie.tags,
     }
   }
 
   async fetchQualityProfiles(): Promise<QualityProfile[]> {
     try {
-      const profiles =
-        await this.getFromRadarr<QualityProfile[]>('qualityprofile')
+      const profiles = await this.api.get<QualityProfile[]>('qualityprofile')
       return profiles
     } catch (err) {
       this.log.error(`Error fetching quality profiles: ${err}`)
@@ -328,7 +401,7 @@ export class RadarrService {
 
   async fetchRootFolders(): Promise<RootFolder[]> {
     try {
-      const rootFolders = await this.getFromRadarr<RootFolder[]>('rootfolder')
+      const rootFolders = await this.api.get<RootFolder[]>('rootfolder')
       return rootFolders
     } catch (err) {
       this.log.error(`Error fetching root folders: ${err}`)
@@ -336,16 +409,88 @@ export class RadarrService {
     }
   }
 
+  async fetchTags(): Promise<Tag[]> {
+    try {
+      return await this.api.get<Tag[]>('tag')
+    } catch (err) {
+      this.log.error(`Error fetching tags: ${err}`)
+      throw err
+    }
+  }
+
+  async createTag(label: string): Promise<Tag> {
+    const tag = await this.api.post<Tag>('tag', {
+      label: normalizeTagLabel(label),
+    })
+    this.log.info(`Created Radarr tag "${tag.label}"`)
+    return tag
+  }
+
+  /** Returns the tag with the given label, creating it if needed */
+  async ensureTag(label: string): Promise<Tag> {
+    const existing = findTag(await this.fetchTags(), label)
+    return existing ?? this.createTag(label)
+  }
+
+  /**
+   * Maps tag labels to Radarr tag IDs, creating any tag the instance does not
+   * have yet.
+   */
+  async resolveTagIds(labels: string[]): Promise<number[]> {
+    if (labels.length === 0) {
+      return []
+    }
+
+    const tags = await this.fetchTags()
+    const tagIds = new Set<number>()
+    for (const label of labels) {
+      let tag = findTag(tags, label)
+      if (!tag) {
+        if (!normalizeTagLabel(label)) continue
+        tag = await this.createTag(label)
+        tags.push(tag)
+      }
+      tagIds.add(tag.id)
+    }
+    return [...tagIds]
+  }
+
+  async fetchMoviesWithTag(label: string): Promise<Item[]> {
+    const tags = await this.fetchTags()
+    const tag = tags.find(
+      (tag) => tag.label.toLowerCase() === label.toLowerCase(),
+    )
+    if (!tag) {
+      return []
+    }
+
+    const movies = await this.fetchMovies(true)
+    return [...movies].filter((movie) => movie.tags?.includes(tag.id))
+  }
+
+  /**
+   * Drops the cached library and exclusions so the next read fetches fresh
+   * data. Called after our own changes and when the instance reports one.
+   */
+  invalidateLibraryCache() {
+    this.libraryCache.invalidate()
+    this.exclusionsCache.invalidate()
+  }
+
   async fetchMovies(bypass = false): Promise<Set<Item>> {
     try {
-      const movies = await this.getFromRadarr<RadarrMovie[]>('movie')
+      const movieItems = await this.libraryCache.get(async () => {
+        const movies = await this.api.get<RadarrMovie[]>('movie')
+        return movies.map((movie) => this.toItem(movie))
+      })
 
-      let exclusions: Set<Item> = new Set()
+      let exclusions: Item[] = []
       if (!bypass) {
-        exclusions = await this.fetchExclusions()
+        exclusions = await this.exclusionsCache.get(async () => [
+          ...(await this.fetchExclusions()),
+        ])
       }
 
-      const movieItems = movies.map((movie) => this.toItem(movie))
       return new Set([...movieItems, ...exclusions])
     } catch (err) {
       this.log.error(`Error fetching movies: ${err}`)
@@ -354,37 +499,25 @@ export class RadarrService {
   }
 
   async fetchExclusions(pageSize = 1000): Promise<Set<Item>> {
-    const config = this.radarrConfig
     try {
       let currentPage = 1
       let totalRecords = 0
       const allExclusions: RadarrMovie[] = []
 
       do {
-        const url = new URL(`${config.radarrBaseUrl}/api/v3/exclusions/paged`)
-        url.searchParams.append('page', currentPage.toString())
-        url.searchParams.append('pageSize', pageSize.toString())
-        url.searchParams.append('sortDirection', 'ascending')
-        url.searchParams.append('sortKey', 'movieTitle')
-
-        const response = await fetch(url.toString(), {
-          method: 'GET',
-          headers: {
-            'X-Api-Key': config.radarrApiKey,
-            Accept: 'application/json',
-          },
+        const pagedResult = await this.api.get<
+          PagedResult<{
+            id: number
+            tmdbId: number
+            movieTitle: string
+            movieYear: number
+          }>
+        >('exclusions/paged', {
+          page: currentPage,
+          pageSize,
+          sortDirection: 'ascending',
+          sortKey: 'movieTitle',
         })
-
-        if (!response.ok) {
-          throw new Error(`Radarr API error: ${response.statusText}`)
-        }
-
-        const pagedResult = (await response.json()) as PagedResult<{
-          id: number
-          tmdbId: number
-          movieTitle: string
-          movieYear: number
-        }>
         totalRecords = pagedResult.totalRecords
 
         const exclusionMovies = pagedResult.records.map((record) => ({
@@ -410,41 +543,51 @@ export class RadarrService {
     }
   }
 
-  private isNumericQualityProfile(
-    value: string | number | null,
-  ): value is number {
-    if (value === null) return false
-    if (typeof value === 'number') return true
-    return /^\d+$/.test(value)
+  /**
+   * Warns about a root folder or quality profile that no longer exists on
+   * the instance, or refuses the add when broken routing is blocked.
+   */
+  private handleBrokenReference(message: string): void {
+    if (this.fastify.config.blockBrokenRouting) {
+      throw new Error(`${message}, routing to it is blocked`)
+    }
+    this.log.warn(message)
   }
 
-  private async resolveRootFolder(
+  private resolveRootFolder(
+    rootFolders: RootFolder[],
     overrideRootFolder?: string,
-  ): Promise<string> {
-    const rootFolderPath =
-      overrideRootFolder || this.radarrConfig.radarrRootFolder
-    if (rootFolderPath) return rootFolderPath
-
-    const rootFolders = await this.fetchRootFolders()
+  ): string {
     if (rootFolders.length === 0) {
       throw new Error('No root folders configured in Radarr')
     }
 
+    const rootFolderPath =
+      overrideRootFolder || this.radarrConfig.radarrRootFolder
+    if (rootFolderPath) {
+      if (hasRootFolder(rootFolders, rootFolderPath)) return rootFolderPath
+      this.handleBrokenReference(
+        `Root folder "${rootFolderPath}" no longer exists in Radarr`,
+      )
+    }
+
     const defaultPath = rootFolders[0].path
     this.log.info(`Using root folder: ${defaultPath}`)
     return defaultPath
   }
 
-  private async resolveQualityProfileId(
+  private resolveQualityProfileId(
     profiles: QualityProfile[],
-  ): Promise<number> {
-    const configProfile = this.radarrConfig.radarrQualityProfileId
+    overrideQualityProfile?: number | string | null,
+  ): number {
+    const configProfile =
+      overrideQualityProfile ?? this.radarrConfig.radarrQualityProfileId
 
     if (profiles.length === 0) {
       throw new Error('No quality profiles configured in Radarr')
     }
 
-    if (configProfile === null) {
+    if (configProfile === null || configProfile === '') {
       const defaultId = profiles[0].id
       this.log.info(
         `Using default quality profile: ${profiles[0].name} (ID: ${defaultId})`,
@@ -452,24 +595,16 @@ export class RadarrService {
       return defaultId
     }
 
-    if (this.isNumericQualityProfile(configProfile)) {
-      return Number(configProfile)
-    }
-
-    const matchingProfile = profiles.find(
-      (profile) =>
-        profile.name.toLowerCase() === configProfile.toString().toLowerCase(),
-    )
-
+    const matchingProfile = findQualityProfile(profiles, configProfile)
     if (matchingProfile) {
-      this.log.info(
+      this.log.debug(
         `Using matched quality profile: ${matchingProfile.name} (ID: ${matchingProfile.id})`,
       )
       return matchingProfile.id
     }
 
-    this.log.warn(
-      `Could not find quality profile "${configProfile}". Available profiles: ${profiles.map((p) => p.name).join(', ')}`,
+    this.handleBrokenReference(
+      `Quality profile "${configProfile}" no longer exists in Radarr. Available profiles: ${profiles.map((p) => p.name).join(', ')}`,
     )
     const fallbackId = profiles[0].id
     this.log.info(
@@ -486,40 +621,124 @@ export class RadarrService {
     return Number.isNaN(parsed) ? 0 : parsed
   }
 
+  /**
+   * Looks a movie up by its TMDB GUID, falling back to its IMDb GUID.
+   * Returns null when the movie has neither or Radarr does not know it.
+   */
+  private async lookupMovie(item: Item): Promise<RadarrLookupResult | null> {
+    const tmdbId = this.extractTmdbId(item)
+    const imdbId = item.guids
+      .find((guid) => guid.startsWith('imdb:'))
+      ?.replace('imdb:', '')
+
+    try {
+      if (tmdbId) {
+        return await this.api.get<RadarrLookupResult>('movie/lookup/tmdb', {
+          tmdbId,
+        })
+      }
+      if (imdbId) {
+        return await this.api.get<RadarrLookupResult>('movie/lookup/imdb', {
+          imdbId,
+        })
+      }
+      return null
+    } catch (err) {
+      if (err instanceof ArrApiError && err.status === 404) {
+        return null
+      }
+      throw err
+    }
+  }
+
+  /**
+   * Resolves the root folder, quality profile, tags and monitoring options an
+   * add would use, applying overrides on top of the instance configuration.
+   */
+  async resolveAddTarget(
+    overrideRootFolder?: string,
+    overrideQualityProfileId?: number | string | null,
+    overrides: RadarrAddOverrides = {},
+  ): Promise<RadarrAddTarget> {
+    const config = this.radarrConfig
+    const monitor = overrides.monitor ?? config.radarrMonitor
+
+    const [rootFolders, qualityProfiles] = await Promise.all([
+      this.fetchRootFolders(),
+      this.fetchQualityProfiles(),
+    ])
+    const rootFolderPath = this.resolveRootFolder(
+      rootFolders,
+      overrideRootFolder,
+    )
+    const qualityProfileId = this.resolveQualityProfileId(
+      qualityProfiles,
+      overrideQualityProfileId,
+    )
+
+    return {
+      rootFolderPath,
+      qualityProfileId,
+      qualityProfileName:
+        qualityProfiles.find(
+          (profile) => profile.id.toString() === String(qualityProfileId),
+        )?.name ?? null,
+      tags: buildTagLabels(
+        overrides.tags ?? config.radarrTags,
+        config.radarrUserTags ? (overrides.requesters ?? []) : [],
+      ),
+      // A monitor mode of none adds the movie unmonitored
+      monitored: overrides.monitored ?? monitor !== 'none',
+      minimumAvailability:
+        overrides.minimumAvailability ?? config.radarrMinimumAvailability,
+      addOptions: {
+        monitor,
+        searchForMovie: overrides.searchOnAdd ?? config.radarrSearchOnAdd,
+      },
+    }
+  }
+
   async addToRadarr(
     item: Item,
     overrideRootFolder?: string,
     overrideQualityProfileId?: number | string | null,
-  ): Promise<void> {
-    const config = this.radarrConfig
+    overrides: RadarrAddOverrides = {},
+  ): Promise<RadarrAddTarget> {
     try {
-      const addOptions: RadarrAddOptions = {
-        searchForMovie: true,
+      const lookup = await this.lookupMovie(item)
+      if (!lookup) {
+        throw new Error(
+          `Could not find ${item.title} in Radarr by TMDB or IMDb ID`,
+        )
       }
 
-      const tmdbId = this.extractTmdbId(item)
-
-      const rootFolderPath = await this.resolveRootFolder(overrideRootFolder)
-
-      const qualityProfiles = await this.fetchQualityProfiles()
-      const qualityProfileId =
-        overrideQualityProfileId !== undefined
-          ? overrideQualityProfileId
-          : await this.resolveQualityProfileId(qualityProfiles)
+      const target = await this.resolveAddTarget(
+        overrideRootFolder,
+        overrideQualityProfileId,
+        overrides,
+      )
 
       const movie: RadarrPost = {
-        title: item.title,
-        tmdbId,
-        qualityProfileId,
-        rootFolderPath,
-        addOptions,
-        tags: config.radarrTagIds,
+        title: lookup.title,
+        titleSlug: lookup.titleSlug,
+        tmdbId: lookup.tmdbId,
+        imdbId: lookup.imdbId,
+        year: lookup.year,
+        images: lookup.images,
+        qualityProfileId: target.qualityProfileId,
+        rootFolderPath: target.rootFolderPath,
+        addOptions: target.addOptions,
+        monitored: target.monitored,
+        minimumAvailability: target.minimumAvailability,
+        tags: await this.resolveTagIds(target.tags),
       }
 
-      await this.postToRadarr<void>('movie', movie)
+      await this.api.post<void>('movie', movie)
+      this.invalidateLibraryCache()
       this.log.info(
-        `Sent ${item.title} to Radarr (Quality Profile: ${qualityProfileId}, Root Folder: ${rootFolderPath})`,
+        `Sent ${lookup.title} (${lookup.year ?? 'unknown year'}) to Radarr (Quality Profile: ${target.qualityProfileId}, Root Folder: ${target.rootFolderPath}, Minimum Availability: ${target.minimumAvailability})`,
       )
+      return target
     } catch (err) {
       this.log.debug(
         `Received warning for sending ${item.title} to Radarr: ${err}`,
@@ -528,6 +747,47 @@ export class RadarrService {
     }
   }
 
+  /**
+   * Looks up routing metadata (year, original language, certification) for a
+   * movie. Returns null when the movie has no TMDB or IMDb GUID or Radarr
+   * does not know it.
+   */
+  async lookupRoutingMetadata(item: Item): Promise<RoutingMetadata | null> {
+    const movie = await this.lookupMovie(item)
+    if (!movie) {
+      return null
+    }
+
+    return {
+      year: movie.year ?? null,
+      language: movie.originalLanguage?.name ?? null,
+      certification: movie.certification ?? null,
+    }
+  }
+
+  async unmonitorMovie(guids: string[]): Promise<boolean> {
+    const library = await this.fetchMovies(true)
+    const match = [...library].find((movie) =>
+      movie.guids.some((guid) => guids.includes(guid)),
+    )
+    const radarrId = match?.guids
+      .find((guid) => guid.startsWith('radarr:'))
+      ?.replace('radarr:', '')
+
+    if (!match || !radarrId) {
+      return false
+    }
+
+    const existing = await this.api.get<RadarrMovie>(`movie/${radarrId}`)
+    await this.api.put(`movie/${radarrId}`, {
+      ...existing,
+      monitored: false,
+    })
+    this.invalidateLibraryCache()
+    this.log.info(`Unmonitored ${match.title} in Radarr`)
+    return true
+  }
+
   async deleteFromRadarr(item: Item, deleteFiles: boolean): Promise<void> {
     const config = this.radarrConfig
     try {
@@ -572,7 +832,11 @@ export class RadarrService {
         throw new Error('Failed to obtain valid Radarr ID')
       }
 
-      await this.deleteFromRadarrById(radarrId, deleteFiles)
+      await this.api.delete(`movie/${radarrId}`, {
+        deleteFiles,
+        addImportExclusion: false,
+      })
+      this.invalidateLibraryCache()
       this.log.info(`Deleted ${item.title} from Radarr`)
     } catch (err) {
       this.log.error(`Error deleting from Radarr: ${err}`)
@@ -580,68 +844,6 @@ export class RadarrService {
     }
   }
 
-  private async getFromRadarr<T>(endpoint: string): Promise<T> {
-    const config = this.radarrConfig
-    const url = new URL(`${config.radarrBaseUrl}/api/v3/${endpoint}`)
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'X-Api-Key': config.radarrApiKey,
-        Accept: 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Radarr API error: ${response.statusText}`)
-    }
-
-    return response.json() as Promise<T>
-  }
-
-  private async postToRadarr<T>(
-    endpoint: string,
-    payload: unknown,
-  ): Promise<T> {
-    const config = this.radarrConfig
-    const url = new URL(`${config.radarrBaseUrl}/api/v3/${endpoint}`)
-    const response = await fetch(url.toString(), {
-      method: 'POST',
-      headers: {
-        'X-Api-Key': config.radarrApiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(payload),
-    })
-
-    if (!response.ok) {
-      throw new Error(`Radarr API error: ${response.statusText}`)
-    }
-
-    return response.json() as Promise<T>
-  }
-
-  private async deleteFromRadarrById(
-    id: number,
-    deleteFiles: boolean,
-  ): Promise<void> {
-    const config = this.radarrConfig
-    const url = new URL(`${config.radarrBaseUrl}/api/v3/movie/${id}`)
-    url.searchParams.append('deleteFiles', deleteFiles.toString())
-    url.searchParams.append('addImportExclusion', 'false')
-
-    const response = await fetch(url.toString(), {
-      method: 'DELETE',
-      headers: {
-        'X-Api-Key': config.radarrApiKey,
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Radarr API error: ${response.statusText}`)
-    }
-  }
-
   async testConnection(
     baseUrl: string,
     apiKey: string,
@@ -654,23 +856,14 @@ export class RadarrService {
         }
       }
 
-      const url = new URL(`${baseUrl}/ping`)
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'X-Api-Key': apiKey,
-          Accept: 'application/json',
-        },
+      const client = new ArrApiClient({
+        service: 'Radarr',
+        baseUrl,
+        apiKey,
+        log: this.log,
+        retries: 0,
       })
-
-      if (!response.ok) {
-        return {
-          success: false,
-          message: `Connection failed: ${response.statusText}`,
-        }
-      }
-
-      const pingResponse = (await response.json()) as PingResponse
+      const pingResponse = await client.ping<PingResponse>()
       if (pingResponse.status !== 'OK') {
         return {
           success: false,
@@ -683,6 +876,12 @@ export class RadarrService {
         message: 'Connection successful',
       }
     } catch (error) {
+      if (error instanceof ArrApiError) {
+        return {
+          success: false,
+          message: `Connection failed: ${error.statusText}`,
+        }
+      }
       this.log.error('Connection test error:', error)
       return {
         success: false,
@@ -0,0 +1,82 @@
+import type { FastifyInstance } from 'fastify'
+import type { SonarrService } from '@services/sonarr.service.js'
+import type {
+  MediaBackend,
+  MediaBackendAddOptions,
+  MediaBackendDescriptor,
+  MediaBackendProfile,
+  MediaBackendRootFolder,
+  MediaItem,
+} from '@root/types/media-backend.types.js'
+
+/**
+ * Exposes a Sonarr instance through the generic media backend interface.
+ * Sonarr-specific behaviour (season monitoring, series type, requester tags)
+ * stays with the instance settings the service already applies.
+ */
+export class SonarrBackend implements MediaBackend {
+  constructor(private readonly service: SonarrService) {}
+
+  async fetchLibrary(bypassCache = false): Promise<MediaItem[]> {
+    return [...(await this.service.fetchSeries(bypassCache))]
+  }
+
+  async addItem(
+    item: MediaItem,
+    options: MediaBackendAddOptions = {},
+  ): Promise<void> {
+    await this.service.addToSonarr(
+      item,
+      options.rootFolder,
+      options.qualityProfile,
+      { tags: options.tags },
+    )
+  }
+
+  deleteItem(item: MediaItem, deleteFiles: boolean): Promise<void> {
+    return this.service.deleteFromSonarr(item, deleteFiles)
+  }
+
+  async fetchQualityProfiles(): Promise<MediaBackendProfile[]> {
+    const profiles = await this.service.fetchQualityProfiles()
+    return profiles.map(({ id, name }) => ({ id, name }))
+  }
+
+  async fetchRootFolders(): Promise<MediaBackendRootFolder[]> {
+    const folders = await this.service.fetchRootFolders()
+    return folders.map(({ path }) => ({ path }))
+  }
+
+  setupWebhook(): Promise<void> {
+    return this.service.setupWebhook()
+  }
+
+  removeWebhook(): Promise<void> {
+    return this.service.removeWebhook()
+  }
+}
+
+export function createSonarrBackendDescriptor(
+  fastify: FastifyInstance,
+): MediaBackendDescriptor {
+  return {
+    type: 'sonarr',
+    displayName: 'Sonarr',
+    contentType: 'show',
+    testConnection: (baseUrl, apiKey) =>
+      fastify.sonarrManager.testConnection(baseUrl, apiKey),
+    listInstances: async () => {
+      const instances = await fastify.sonarrManager.getAllInstances()
+      return instances.map(({ id, name, baseUrl, isDefault }) => ({
+        id,
+        name,
+        baseUrl,
+        isDefault,
+      }))
+    },
+    getBackend: (instanceId) => {
+      const service = fastify.sonarrManager.getSonarrService(instanceId)
+      return service ? new SonarrBackend(service) : undefined
+    },
+  }
+}
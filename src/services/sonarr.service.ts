@@ -1,6 +1,8 @@
 import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
 import type {
-  SonarrAddOptions,
+  SonarrAddOverrides,
+  SonarrAddTarget,
+  SonarrLookupResult,
   SonarrPost,
   SonarrSeries,
   SonarrItem as Item,
@@ -12,11 +14,32 @@ import type {
   ConnectionTestResult,
   PingResponse,
   WebhookNotification,
+  Tag,
 } from '@root/types/sonarr.types.js'
+import type { RoutingMetadata } from '@root/types/routing-rule.types.js'
+import { ArrApiClient } from '@utils/arr-api-client.js'
+import { ArrApiError } from '@utils/arr-api-error.js'
+import { LibraryCache } from '@utils/library-cache.js'
+import { buildTagLabels, findTag, normalizeTagLabel } from '@utils/arr-tags.js'
+import { findQualityProfile, hasRootFolder } from '@utils/arr-references.js'
+import {
+  buildWebhookCredentials,
+  generateWebhookSecret,
+  type WebhookCredentials,
+} from '@utils/webhook-auth.js'
+
+const LIBRARY_CACHE_TTL_MS = 5 * 60 * 1000
+const VERIFY_TIMEOUT_MS = 10 * 1000
 
 export class SonarrService {
   private config: SonarrConfiguration | null = null
+  private client: ArrApiClient | null = null
   private webhookInitialized = false
+  private webhookCredentials: WebhookCredentials | null = null
+  private readonly libraryCache = new LibraryCache<Item>(LIBRARY_CACHE_TTL_MS)
+  private readonly exclusionsCache = new LibraryCache<Item>(
+    LIBRARY_CACHE_TTL_MS,
+  )
 
   constructor(
     private readonly log: FastifyBaseLogger,
@@ -32,6 +55,13 @@ export class SonarrService {
     return this.config
   }
 
+  private get api(): ArrApiClient {
+    if (!this.client) {
+      throw new Error('Sonarr service not initialized')
+    }
+    return this.client
+  }
+
   private constructWebhookUrl(): string {
     const url = new URL(this.appBaseUrl)
     url.port = this.port.toString()
@@ -39,11 +69,39 @@ export class SonarrService {
     return url.toString()
   }
 
-  private async setupWebhook(): Promise<void> {
+  /**
+   * Loads the instance's webhook secret, generating and storing one the
+   * first time, so the webhook route can tell calls from this instance apart
+   * from anyone else reaching the port.
+   */
+  private async resolveWebhookCredentials(
+    instanceId: number,
+  ): Promise<WebhookCredentials> {
+    let secret = await this.fastify.db.getInstanceWebhookSecret(
+      'sonarr',
+      instanceId,
+    )
+    if (!secret) {
+      secret = generateWebhookSecret()
+      await this.fastify.db.setInstanceWebhookSecret(
+        'sonarr',
+        instanceId,
+        secret,
+      )
+    }
+    return buildWebhookCredentials('sonarr', instanceId, secret)
+  }
+
+  async setupWebhook(): Promise<void> {
     if (this.webhookInitialized) {
       return
     }
 
+    const credentials = this.webhookCredentials
+    if (!credentials) {
+      throw new Error('Sonarr webhook credentials not initialized')
+    }
+
     await new Promise((resolve) => setTimeout(resolve, 1000))
 
     try {
@@ -53,7 +111,7 @@ export class SonarrService {
       )
 
       const existingWebhooks =
-        await this.getFromSonarr<WebhookNotification[]>('notification')
+        await this.api.get<WebhookNotification[]>('notification')
       const existingPulsarrWebhook = existingWebhooks.find(
         (hook) => hook.name === 'Pulsarr',
       )
@@ -62,16 +120,24 @@ export class SonarrService {
         const currentWebhookUrl = existingPulsarrWebhook.fields.find(
           (field) => field.name === 'url',
         )?.value
+        // The password is masked in responses, but the username carries a
+        // fingerprint of the secret; webhooks created before secrets have none
+        const currentUsername = existingPulsarrWebhook.fields.find(
+          (field) => field.name === 'username',
+        )?.value
 
-        if (currentWebhookUrl === expectedWebhookUrl) {
+        if (
+          currentWebhookUrl === expectedWebhookUrl &&
+          currentUsername === credentials.username
+        ) {
           this.log.info('Pulsarr Sonarr webhook exists with correct URL')
           return
         }
 
         this.log.info(
-          'Pulsarr webhook URL mismatch, recreating webhook for Sonarr',
+          'Pulsarr webhook URL or credentials mismatch, recreating webhook for Sonarr',
         )
-        await this.deleteNotification(existingPulsarrWebhook.id)
+        await this.api.delete(`notification/${existingPulsarrWebhook.id}`)
       }
 
       const webhookConfig = {
@@ -120,6 +186,24 @@ export class SonarrService {
             type: 'select',
             advanced: false,
           },
+          {
+            order: 2,
+            name: 'username',
+            label: 'Username',
+            value: credentials.username,
+            type: 'textbox',
+            advanced: false,
+            privacy: 'userName',
+          },
+          {
+            order: 3,
+            name: 'password',
+            label: 'Password',
+            value: credentials.password,
+            type: 'password',
+            advanced: false,
+            privacy: 'password',
+          },
         ],
         implementationName: 'Webhook',
         implementation: 'Webhook',
@@ -129,7 +213,7 @@ export class SonarrService {
       }
 
       try {
-        const response = await this.postToSonarr('notification', webhookConfig)
+        const response = await this.api.post('notification', webhookConfig)
         this.log.info(
           `Successfully created Pulsarr webhook with URL for Sonarr: ${expectedWebhookUrl}`,
         )
@@ -152,13 +236,13 @@ export class SonarrService {
   async removeWebhook(): Promise<void> {
     try {
       const existingWebhooks =
-        await this.getFromSonarr<WebhookNotification[]>('notification')
+        await this.api.get<WebhookNotification[]>('notification')
       const pulsarrWebhook = existingWebhooks.find(
         (hook) => hook.name === 'Pulsarr',
       )
 
       if (pulsarrWebhook) {
-        await this.deleteNotification(pulsarrWebhook.id)
+        await this.api.delete(`notification/${pulsarrWebhook.id}`)
         this.log.info('Successfully removed Pulsarr webhook for Sonarr')
       }
     } catch (error) {
@@ -167,24 +251,6 @@ export class SonarrService {
     }
   }
 
-  private async deleteNotification(notificationId: number): Promise<void> {
-    const config = this.sonarrConfig
-    const url = new URL(
-      `${config.sonarrBaseUrl}/api/v3/notification/${notificationId}`,
-    )
-
-    const response = await fetch(url.toString(), {
-      method: 'DELETE',
-      headers: {
-        'X-Api-Key': config.sonarrApiKey,
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Sonarr API error: ${response.statusText}`)
-    }
-  }
-
   async initialize(instance: SonarrInstance): Promise<void> {
     try {
       if (!instance.baseUrl || !instance.apiKey) {
@@ -193,6 +259,13 @@ export class SonarrService {
         )
       }
 
+      this.client = new ArrApiClient({
+        service: 'Sonarr',
+        baseUrl: instance.baseUrl,
+        apiKey: instance.apiKey,
+        log: this.log,
+      })
+
       // Skip webhook setup for placeholder credentials
       if (instance.apiKey === 'placeholder') {
         this.log.info(
@@ -204,8 +277,12 @@ export class SonarrService {
           sonarrQualityProfileId: instance.qualityProfile || null,
           sonarrLanguageProfileId: 1,
           sonarrRootFolder: instance.rootFolder || null,
-          sonarrTagIds: instance.tags,
+          sonarrTags: instance.tags,
+          sonarrUserTags: instance.userTags,
           sonarrSeasonMonitoring: instance.seasonMonitoring,
+          sonarrSeriesType: instance.seriesType,
+          sonarrSeasonFolder: instance.seasonFolder,
+          sonarrSearchOnAdd: instance.searchOnAdd,
         }
         return
       }
@@ -216,10 +293,18 @@ export class SonarrService {
         sonarrQualityProfileId: instance.qualityProfile || null,
         sonarrLanguageProfileId: 1,
         sonarrRootFolder: instance.rootFolder || null,
-        sonarrTagIds: instance.tags,
+        sonarrTags: instance.tags,
+        sonarrUserTags: instance.userTags,
         sonarrSeasonMonitoring: instance.seasonMonitoring,
+        sonarrSeriesType: instance.seriesType,
+        sonarrSeasonFolder: instance.seasonFolder,
+        sonarrSearchOnAdd: instance.searchOnAdd,
       }
 
+      this.webhookCredentials = await this.resolveWebhookCredentials(
+        instance.id,
+      )
+
       this.log.info(
         `Successfully initialized base Sonarr service for ${instance.name}`,
       )
@@ -259,23 +344,14 @@ export class SonarrService {
         }
       }
 
-      const url = new URL(`${baseUrl}/ping`)
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'X-Api-Key': apiKey,
-          Accept: 'application/json',
-        },
+      const client = new ArrApiClient({
+        service: 'Sonarr',
+        baseUrl,
+        apiKey,
+        log: this.log,
+        retries: 0,
       })
-
-      if (!response.ok) {
-        return {
-          success: false,
-          message: `Connection failed: ${response.statusText}`,
-        }
-      }
-
-      const pingResponse = (await response.json()) as PingResponse
+      const pingResponse = await client.ping<PingResponse>()
       if (pingResponse.status !== 'OK') {
         return {
           success: false,
@@ -288,6 +364,12 @@ export class SonarrService {
         message: 'Connection successful',
       }
     } catch (error) {
+      if (error instanceof ArrApiError) {
+        return {
+          success: false,
+          message: `Connection failed: ${error.statusText}`,
+        }
+      }
       this.log.error('Connection test error:', error)
       return {
         success: false,
@@ -297,21 +379,20 @@ export class SonarrService {
     }
   }
 
-  private async verifyConnection(instance: SonarrInstance): Promise<unknown> {
-    const url = new URL(`${instance.baseUrl}/api/v3/system/status`)
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'X-Api-Key': instance.apiKey,
-        Accept: 'application/json',
-      },
+  /**
+   * Fetches the system status in a single attempt, so the instance health
+   * checker sees a down instance after one timeout instead of after retries.
+   */
+  async verifyConnection(instance: SonarrInstance): Promise<unknown> {
+    const client = new ArrApiClient({
+      service: 'Sonarr',
+      baseUrl: instance.baseUrl,
+      apiKey: instance.apiKey,
+      log: this.log,
+      timeoutMs: VERIFY_TIMEOUT_MS,
+      retries: 0,
     })
-
-    if (!response.ok) {
-      throw new Error(`Connection verification failed: ${response.statusText}`)
-    }
-
-    return response.json()
+    return client.get('system/status')
   }
 
   private toItem(series: SonarrSeries): Item {
@@ -321,10 +402,19 @@ export class SonarrService {
           season.statistics?.episodeFileCount &&
           season.statistics.episodeFileCount > 0,
       ) ?? false
+    const monitoredSeasons =
+      series.seasons?.filter(
+        (season) => season.monitored && season.seasonNumber > 0,
+      ) ?? []
+    const isComplete =
+      monitoredSeasons.length > 0 &&
+      monitoredSeasons.every(
+        (season) => season.statistics?.percentOfEpisodes === 100,
+      )
     return {
       title: series.title,
       guids: [
-        series.imdbId,
+        series.imdbId ? `imdb:${series.imdbId}` : undefined,
         series.tvdbId ? `tvdb:${series.tvdbId}` : undefined,
         `sonarr:${series.id}`,
       ].filter((x): x is string => !!x),
@@ -333,13 +423,18 @@ export class SonarrService {
       added: series.added,
       status: hasEpisodes ? 'grabbed' : 'requested',
       series_status: series.ended ? 'ended' : 'continuing',
+      instance_status: isComplete
+        ? 'available'
+        : hasEpisodes
+          ? 'grabbed'
+          : 'requested',
+      tags: series.tags,
     }
   }
 
   async fetchQualityProfiles(): Promise<QualityProfile[]> {
     try {
-      const profiles =
-        await this.getFromSonarr<QualityProfile[]>('qualityprofile')
+      const profiles = await this.api.get<QualityProfile[]>('qualityprofile')
       return profiles
     } catch (err) {
       this.log.error(`Error fetching quality profiles: ${err}`)
@@ -349,7 +444,7 @@ export class SonarrService {
 
   async fetchRootFolders(): Promise<RootFolder[]> {
     try {
-      const rootFolders = await this.getFromSonarr<RootFolder[]>('rootfolder')
+      const rootFolders = await this.api.get<RootFolder[]>('rootfolder')
       return rootFolders
     } catch (err) {
       this.log.error(`Error fetching root folders: ${err}`)
@@ -357,16 +452,88 @@ export class SonarrService {
     }
   }
 
+  async fetchTags(): Promise<Tag[]> {
+    try {
+      return await this.api.get<Tag[]>('tag')
+    } catch (err) {
+      this.log.error(`Error fetching tags: ${err}`)
+      throw err
+    }
+  }
+
+  async createTag(label: string): Promise<Tag> {
+    const tag = await this.api.post<Tag>('tag', {
+      label: normalizeTagLabel(label),
+    })
+    this.log.info(`Created Sonarr tag "${tag.label}"`)
+    return tag
+  }
+
+  /** Returns the tag with the given label, creating it if needed */
+  async ensureTag(label: string): Promise<Tag> {
+    const existing = findTag(await this.fetchTags(), label)
+    return existing ?? this.createTag(label)
+  }
+
+  /**
+   * Maps tag labels to Sonarr tag IDs, creating any tag the instance does not
+   * have yet.
+   */
+  async resolveTagIds(labels: string[]): Promise<number[]> {
+    if (labels.length === 0) {
+      return []
+    }
+
+    const tags = await this.fetchTags()
+    const tagIds = new Set<number>()
+    for (const label of labels) {
+      let tag = findTag(tags, label)
+      if (!tag) {
+        if (!normalizeTagLabel(label)) continue
+        tag = await this.createTag(label)
+        tags.push(tag)
+      }
+      tagIds.add(tag.id)
+    }
+    return [...tagIds]
+  }
+
+  async fetchSeriesWithTag(label: string): Promise<Item[]> {
+    const tags = await this.fetchTags()
+    const tag = tags.find(
+      (tag) => tag.label.toLowerCase() === label.toLowerCase(),
+    )
+    if (!tag) {
+      return []
+    }
+
+    const series = await this.fetchSeries(true)
+    return [...series].filter((show) => show.tags?.includes(tag.id))
+  }
+
+  /**
+   * Drops the cached library and exclusions so the next read fetches fresh
+   * data. Called after our own changes and when the instance reports one.
+   */
+  invalidateLibraryCache() {
+    this.libraryCache.invalidate()
+    this.exclusionsCache.invalidate()
+  }
+
   async fetchSeries(bypass = false): Promise<Set<Item>> {
     try {
-      const shows = await this.getFromSonarr<SonarrSeries[]>('series')
+      const showItems = await this.libraryCache.get(async () => {
+        const shows = await this.api.get<SonarrSeries[]>('series')
+        return shows.map((show) => this.toItem(show))
+      })
 
-      let exclusions: Set<Item> = new Set()
+      let exclusions: Item[] = []
       if (!bypass) {
-        exclusions = await this.fetchExclusions()
+        exclusions = await this.exclusionsCache.get(async () => [
+          ...(await this.fetchExclusions()),
+        ])
       }
 
-      const showItems = shows.map((show) => this.toItem(show))
       return new Set([...showItems, ...exclusions])
     } catch (err) {
       this.log.error(`Error fetching series: ${err}`)
@@ -375,34 +542,21 @@ export class SonarrService {
   }
 
   async fetchExclusions(pageSize = 1000): Promise<Set<Item>> {
-    const config = this.sonarrConfig
     try {
       let currentPage = 1
       let totalRecords = 0
       const allExclusions: SonarrSeries[] = []
 
       do {
-        const url = new URL(
-          `${config.sonarrBaseUrl}/api/v3/importlistexclusion/paged`,
-        )
-        url.searchParams.append('page', currentPage.toString())
-        url.searchParams.append('pageSize', pageSize.toString())
-        url.searchParams.append('sortDirection', 'ascending')
-        url.searchParams.append('sortKey', 'title')
-
-        const response = await fetch(url.toString(), {
-          method: 'GET',
-          headers: {
-            'X-Api-Key': config.sonarrApiKey,
-            Accept: 'application/json',
+        const pagedResult = await this.api.get<PagedResult<SonarrSeries>>(
+          'importlistexclusion/paged',
+          {
+            page: currentPage,
+            pageSize,
+            sortDirection: 'ascending',
+            sortKey: 'title',
           },
-        })
-
-        if (!response.ok) {
-          throw new Error(`Sonarr API error: ${response.statusText}`)
-        }
-
-        const pagedResult = (await response.json()) as PagedResult<SonarrSeries>
+        )
         totalRecords = pagedResult.totalRecords
         allExclusions.push(...pagedResult.records)
 
@@ -420,41 +574,51 @@ export class SonarrService {
     }
   }
 
-  private isNumericQualityProfile(
-    value: string | number | null,
-  ): value is number {
-    if (value === null) return false
-    if (typeof value === 'number') return true
-    return /^\d+$/.test(value)
+  /**
+   * Warns about a root folder or quality profile that no longer exists on
+   * the instance, or refuses the add when broken routing is blocked.
+   */
+  private handleBrokenReference(message: string): void {
+    if (this.fastify.config.blockBrokenRouting) {
+      throw new Error(`${message}, routing to it is blocked`)
+    }
+    this.log.warn(message)
   }
 
-  private async resolveRootFolder(
+  private resolveRootFolder(
+    rootFolders: RootFolder[],
     overrideRootFolder?: string,
-  ): Promise<string> {
-    const rootFolderPath =
-      overrideRootFolder || this.sonarrConfig.sonarrRootFolder
-    if (rootFolderPath) return rootFolderPath
-
-    const rootFolders = await this.fetchRootFolders()
+  ): string {
     if (rootFolders.length === 0) {
       throw new Error('No root folders configured in Sonarr')
     }
 
+    const rootFolderPath =
+      overrideRootFolder || this.sonarrConfig.sonarrRootFolder
+    if (rootFolderPath) {
+      if (hasRootFolder(rootFolders, rootFolderPath)) return rootFolderPath
+      this.handleBrokenReference(
+        `Root folder "${rootFolderPath}" no longer exists in Sonarr`,
+      )
+    }
+
     const defaultPath = rootFolders[0].path
     this.log.info(`Using root folder: ${defaultPath}`)
     return defaultPath
   }
 
-  private async resolveQualityProfileId(
+  private resolveQualityProfileId(
     profiles: QualityProfile[],
-  ): Promise<number> {
-    const configProfile = this.sonarrConfig.sonarrQualityProfileId
+    overrideQualityProfile?: number | string | null,
+  ): number {
+    const configProfile =
+      overrideQualityProfile ?? this.sonarrConfig.sonarrQualityProfileId
 
     if (profiles.length === 0) {
       throw new Error('No quality profiles configured in Sonarr')
     }
 
-    if (configProfile === null) {
+    if (configProfile === null || configProfile === '') {
       const defaultId = profiles[0].id
       this.log.info(
         `Using default quality profile: ${profiles[0].name} (ID: ${defaultId})`,
@@ -462,24 +626,16 @@ export class SonarrService {
       return defaultId
     }
 
-    if (this.isNumericQualityProfile(configProfile)) {
-      return Number(configProfile)
-    }
-
-    const matchingProfile = profiles.find(
-      (profile) =>
-        profile.name.toLowerCase() === configProfile.toString().toLowerCase(),
-    )
-
+    const matchingProfile = findQualityProfile(profiles, configProfile)
     if (matchingProfile) {
-      this.log.info(
+      this.log.debug(
         `Using matched quality profile: ${matchingProfile.name} (ID: ${matchingProfile.id})`,
       )
       return matchingProfile.id
     }
 
-    this.log.warn(
-      `Could not find quality profile "${configProfile}". Available profiles: ${profiles.map((p) => p.name).join(', ')}`,
+    this.handleBrokenReference(
+      `Quality profile "${configProfile}" no longer exists in Sonarr. Available profiles: ${profiles.map((p) => p.name).join(', ')}`,
     )
     const fallbackId = profiles[0].id
     this.log.info(
@@ -488,46 +644,123 @@ export class SonarrService {
     return fallbackId
   }
 
+  /**
+   * Resolves the root folder, quality profile, tags and monitoring options an
+   * add would use, applying overrides on top of the instance configuration.
+   */
+  async resolveAddTarget(
+    overrideRootFolder?: string,
+    overrideQualityProfileId?: number | string | null,
+    overrides: SonarrAddOverrides = {},
+  ): Promise<SonarrAddTarget> {
+    const config = this.sonarrConfig
+    const searchOnAdd = overrides.searchOnAdd ?? config.sonarrSearchOnAdd
+    const seriesType = overrides.seriesType ?? config.sonarrSeriesType
+
+    const [rootFolders, qualityProfiles] = await Promise.all([
+      this.fetchRootFolders(),
+      this.fetchQualityProfiles(),
+    ])
+    const rootFolderPath = this.resolveRootFolder(
+      rootFolders,
+      overrideRootFolder,
+    )
+    const qualityProfileId = this.resolveQualityProfileId(
+      qualityProfiles,
+      overrideQualityProfileId,
+    )
+
+    return {
+      rootFolderPath,
+      qualityProfileId,
+      qualityProfileName:
+        qualityProfiles.find(
+          (profile) => profile.id.toString() === String(qualityProfileId),
+        )?.name ?? null,
+      tags: buildTagLabels(
+        overrides.tags ?? config.sonarrTags,
+        config.sonarrUserTags ? (overrides.requesters ?? []) : [],
+      ),
+      monitored: overrides.monitored ?? true,
+      seriesType,
+      seasonFolder: overrides.seasonFolder ?? config.sonarrSeasonFolder,
+      addOptions: {
+        monitor: overrides.seasonMonitoring ?? config.sonarrSeasonMonitoring,
+        // Daily shows can have thousands of aired episodes, so only search
+        // for missing ones rather than also upgrading existing files
+        searchForCutoffUnmetEpisodes: searchOnAdd && seriesType !== 'daily',
+        searchForMissingEpisodes: searchOnAdd,
+      },
+    }
+  }
+
+  /**
+   * Looks a show up by its TVDB GUID, falling back to its IMDb GUID. Returns
+   * null when the show has neither or Sonarr does not know it.
+   */
+  private async lookupSeries(item: Item): Promise<SonarrLookupResult | null> {
+    const tvdbId = item.guids
+      .find((guid) => guid.startsWith('tvdb:'))
+      ?.replace('tvdb:', '')
+    const imdbId = item.guids
+      .find((guid) => guid.startsWith('imdb:'))
+      ?.replace('imdb:', '')
+
+    const term = tvdbId ? `tvdb:${tvdbId}` : imdbId ? `imdb:${imdbId}` : null
+    if (!term) {
+      return null
+    }
+
+    const results = await this.api.get<SonarrLookupResult[]>('series/lookup', {
+      term,
+    })
+    return results[0] ?? null
+  }
+
   async addToSonarr(
     item: Item,
     overrideRootFolder?: string,
     overrideQualityProfileId?: number | string | null,
-  ): Promise<void> {
-    const config = this.sonarrConfig
+    overrides: SonarrAddOverrides = {},
+  ): Promise<SonarrAddTarget> {
     try {
-      const addOptions: SonarrAddOptions = {
-        monitor: config.sonarrSeasonMonitoring,
-        searchForCutoffUnmetEpisodes: true,
-        searchForMissingEpisodes: true,
+      const series = await this.lookupSeries(item)
+      if (!series) {
+        throw new Error(
+          `Could not find ${item.title} in Sonarr by TVDB or IMDb ID`,
+        )
       }
 
-      const tvdbId = item.guids
-        .find((guid) => guid.startsWith('tvdb:'))
-        ?.replace('tvdb:', '')
-
-      const rootFolderPath = await this.resolveRootFolder(overrideRootFolder)
-
-      const qualityProfiles = await this.fetchQualityProfiles()
-      const qualityProfileId =
-        overrideQualityProfileId !== undefined
-          ? overrideQualityProfileId
-          : await this.resolveQualityProfileId(qualityProfiles)
+      const target = await this.resolveAddTarget(
+        overrideRootFolder,
+        overrideQualityProfileId,
+        overrides,
+      )
 
       const show: SonarrPost = {
-        title: item.title,
-        tvdbId: tvdbId ? Number.parseInt(tvdbId, 10) : 0,
-        qualityProfileId,
-        rootFolderPath,
-        addOptions,
+        title: series.title,
+        titleSlug: series.titleSlug,
+        tvdbId: series.tvdbId,
+        imdbId: series.imdbId,
+        year: series.year,
+        images: series.images,
+        seasons: series.seasons,
+        qualityProfileId: target.qualityProfileId,
+        rootFolderPath: target.rootFolderPath,
+        addOptions: target.addOptions,
         languageProfileId: null,
-        monitored: true,
-        tags: config.sonarrTagIds,
+        monitored: target.monitored,
+        seriesType: target.seriesType,
+        seasonFolder: target.seasonFolder,
+        tags: await this.resolveTagIds(target.tags),
       }
 
-      await this.postToSonarr<void>('series', show)
+      await this.api.post<void>('series', show)
+      this.invalidateLibraryCache()
       this.log.info(
-        `Sent ${item.title} to Sonarr (Quality Profile: ${qualityProfileId}, Root Folder: ${rootFolderPath})`,
+        `Sent ${series.title} (${series.year ?? 'unknown year'}) to Sonarr (Quality Profile: ${target.qualityProfileId}, Root Folder: ${target.rootFolderPath}, Series Type: ${target.seriesType})`,
       )
+      return target
     } catch (err) {
       this.log.debug(
         `Received warning for sending ${item.title} to Sonarr: ${err}`,
@@ -536,6 +769,47 @@ export class SonarrService {
     }
   }
 
+  /**
+   * Looks up routing metadata (year, original language, certification) for a
+   * show. Returns null when the show has no TVDB or IMDb GUID or Sonarr does
+   * not know it.
+   */
+  async lookupRoutingMetadata(item: Item): Promise<RoutingMetadata | null> {
+    const match = await this.lookupSeries(item)
+    if (!match) {
+      return null
+    }
+
+    return {
+      year: match.year ?? null,
+      language: match.originalLanguage?.name ?? null,
+      certification: match.certification ?? null,
+    }
+  }
+
+  async unmonitorSeries(guids: string[]): Promise<boolean> {
+    const library = await this.fetchSeries(true)
+    const match = [...library].find((show) =>
+      show.guids.some((guid) => guids.includes(guid)),
+    )
+    const sonarrId = match?.guids
+      .find((guid) => guid.startsWith('sonarr:'))
+      ?.replace('sonarr:', '')
+
+    if (!match || !sonarrId) {
+      return false
+    }
+
+    const existing = await this.api.get<SonarrSeries>(`series/${sonarrId}`)
+    await this.api.put(`series/${sonarrId}`, {
+      ...existing,
+      monitored: false,
+    })
+    this.invalidateLibraryCache()
+    this.log.info(`Unmonitored ${match.title} in Sonarr`)
+    return true
+  }
+
   async deleteFromSonarr(item: Item, deleteFiles: boolean): Promise<void> {
     const config = this.sonarrConfig
     try {
@@ -581,73 +855,15 @@ export class SonarrService {
         throw new Error('Failed to obtain valid Sonarr ID')
       }
 
-      await this.deleteFromSonarrById(sonarrId, deleteFiles)
+      await this.api.delete(`series/${sonarrId}`, {
+        deleteFiles,
+        addImportListExclusion: false,
+      })
+      this.invalidateLibraryCache()
       this.log.info(`Deleted ${item.title} from Sonarr`)
     } catch (err) {
       this.log.error(`Error deleting from Sonarr: ${err}`)
       throw err
     }
   }
-
-  private async getFromSonarr<T>(endpoint: string): Promise<T> {
-    const config = this.sonarrConfig
-    const url = new URL(`${config.sonarrBaseUrl}/api/v3/${endpoint}`)
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'X-Api-Key': config.sonarrApiKey,
-        Accept: 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Sonarr API error: ${response.statusText}`)
-    }
-
-    return response.json() as Promise<T>
-  }
-
-  private async postToSonarr<T>(
-    endpoint: string,
-    payload: unknown,
-  ): Promise<T> {
-    const config = this.sonarrConfig
-    const url = new URL(`${config.sonarrBaseUrl}/api/v3/${endpoint}`)
-    const response = await fetch(url.toString(), {
-      method: 'POST',
-      headers: {
-        'X-Api-Key': config.sonarrApiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(payload),
-    })
-
-    if (!response.ok) {
-      throw new Error(`Sonarr API error: ${response.statusText}`)
-    }
-
-    return response.json() as Promise<T>
-  }
-
-  private async deleteFromSonarrById(
-    id: number,
-    deleteFiles: boolean,
-  ): Promise<void> {
-    const config = this.sonarrConfig
-    const url = new URL(`${config.sonarrBaseUrl}/api/v3/series/${id}`)
-    url.searchParams.append('deleteFiles', deleteFiles.toString())
-    url.searchParams.append('addImportListExclusion', 'false')
-
-    const response = await fetch(url.toString(), {
-      method: 'DELETE',
-      headers: {
-        'X-Api-Key': config.sonarrApiKey,
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Sonarr API error: ${response.statusText}`)
-    }
-  }
 }
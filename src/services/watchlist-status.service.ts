@@ -1,7 +1,10 @@
 import type { FastifyBaseLogger, FastifyInstance } from 'fastify'
 import type { Item as SonarrItem } from '@root/types/sonarr.types.js'
 import type { Item as RadarrItem } from '@root/types/radarr.types.js'
-import type { DatabaseWatchlistItem } from '@root/types/watchlist-status.types.js'
+import type {
+  DatabaseWatchlistItem,
+  WatchlistItemInstance,
+} from '@root/types/watchlist-status.types.js'
 
 export class StatusService {
   constructor(
@@ -27,6 +30,7 @@ export class StatusService {
         existingSeries,
         watchlistItems,
       )
+      await this.syncInstanceMappings('sonarr', existingSeries, watchlistItems)
 
       if (updates.length > 0) {
         return await this.dbService.bulkUpdateWatchlistItems(updates)
@@ -46,6 +50,7 @@ export class StatusService {
         existingMovies,
         watchlistItems,
       )
+      await this.syncInstanceMappings('radarr', existingMovies, watchlistItems)
       if (updates.length > 0) {
         return await this.dbService.bulkUpdateWatchlistItems(updates)
       }
@@ -134,11 +139,71 @@ export class StatusService {
     return updates
   }
 
+  /**
+   * Records every instance each watchlist item lives in along with its
+   * per-instance status. Mappings are only added or updated here; they are
+   * removed when content is deleted or an instance goes away, so an instance
+   * that failed to respond does not lose its mappings.
+   */
+  private async syncInstanceMappings(
+    instanceType: 'sonarr' | 'radarr',
+    arrItems: Array<SonarrItem | RadarrItem>,
+    watchlistItems: DatabaseWatchlistItem[],
+  ): Promise<void> {
+    const existing = new Map(
+      (await this.dbService.getWatchlistItemInstances(instanceType)).map(
+        (mapping) => [
+          `${mapping.watchlistItemId}:${mapping.instanceId}`,
+          mapping.status,
+        ],
+      ),
+    )
+    const changes: WatchlistItemInstance[] = []
+
+    for (const item of watchlistItems) {
+      if (item.id === undefined) continue
+
+      for (const match of this.findMatches(arrItems, item.guids)) {
+        const instanceId =
+          'sonarr_instance_id' in match
+            ? match.sonarr_instance_id
+            : 'radarr_instance_id' in match
+              ? match.radarr_instance_id
+              : undefined
+        if (!instanceId) continue
+
+        const status = match.instance_status ?? 'requested'
+        if (existing.get(`${item.id}:${instanceId}`) !== status) {
+          changes.push({
+            watchlistItemId: item.id,
+            instanceType,
+            instanceId,
+            status,
+          })
+        }
+      }
+    }
+
+    if (changes.length > 0) {
+      await this.dbService.upsertWatchlistItemInstances(changes)
+      this.log.debug(
+        `Updated ${changes.length} ${instanceType} instance mappings`,
+      )
+    }
+  }
+
   private findMatch<T extends SonarrItem | RadarrItem>(
     items: T[],
     itemGuids: string[] | string | undefined,
   ): T | undefined {
-    if (!itemGuids) return undefined
+    return this.findMatches(items, itemGuids)[0]
+  }
+
+  private findMatches<T extends SonarrItem | RadarrItem>(
+    items: T[],
+    itemGuids: string[] | string | undefined,
+  ): T[] {
+    if (!itemGuids) return []
 
     const guids = Array.isArray(itemGuids)
       ? itemGuids
@@ -146,7 +211,7 @@ export class StatusService {
         ? JSON.parse(itemGuids)
         : []
 
-    return items.find((item) =>
+    return items.filter((item) =>
       item.guids.some((itemGuid) => guids.includes(itemGuid)),
     )
   }
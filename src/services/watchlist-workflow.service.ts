@@ -3,22 +3,56 @@ import type {
   TemptRssWatchlistItem,
   RssWatchlistResults,
   WatchlistItem,
+  Item as DbWatchlistItem,
 } from '@root/types/plex.types.js'
 import type { Item as SonarrItem } from '@root/types/sonarr.types.js'
 import type { Item as RadarrItem } from '@root/types/radarr.types.js'
-
-type WorkflowStatus = 'stopped' | 'running' | 'starting' | 'stopping'
+import type {
+  WorkflowQueueItem,
+  WorkflowQueueStatus,
+} from '@root/types/workflow-queue.types.js'
+import type {
+  WorkflowStatus,
+  WorkflowPhase,
+  WorkflowPhaseState,
+} from '@root/types/watchlist-workflow.types.js'
+import {
+  buildGuidIndex,
+  buildWatchlistGuidSet,
+  findByGuids,
+  findUnmatchedItems,
+  parseGuids,
+} from '@utils/watchlist-matching.js'
+
+type SyncEligibility = 'sync' | 'blocked' | 'unknown'
+
+const MAX_QUEUE_ATTEMPTS = 5
+const QUEUE_RETRY_BASE_MS = 30 * 1000
+const QUEUE_RETRY_MAX_MS = 60 * 60 * 1000
+const QUEUE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const INITIAL_SYNC_CHECKPOINT = 'initial_sync'
+const FULL_SYNC_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+const WORKFLOW_PHASES: Record<WorkflowPhase, string> = {
+  refresh: 'watchlist refresh',
+  'status-sync': 'status sync',
+  'initial-sync': 'initial sync check',
+  rss: 'RSS feed regeneration',
+}
 
 export class WatchlistWorkflowService {
   private status: WorkflowStatus = 'stopped'
   private rssCheckInterval: NodeJS.Timeout | null = null
   private queueCheckInterval: NodeJS.Timeout | null = null
   private lastQueueItemTime: number = Date.now()
-  private changeQueue: Set<TemptRssWatchlistItem> = new Set()
+  private hasPendingChanges = false
   private previousSelfItems: Map<string, WatchlistItem> = new Map()
   private previousFriendsItems: Map<string, WatchlistItem> = new Map()
+  private deferredItems: Map<string, TemptRssWatchlistItem> = new Map()
   private isRefreshing = false
+  private isProcessingQueue = false
   private isRunning = false
+  private runningPhases: Set<WorkflowPhase> = new Set()
 
   constructor(
     private readonly log: FastifyBaseLogger,
@@ -70,18 +104,22 @@ export class WatchlistWorkflowService {
       await this.plexService.pingPlex()
       this.log.info('Plex connection verified')
       await this.fetchWatchlists()
-      await this.initialSyncCheck()
-      const rssFeeds = await this.plexService.generateAndSaveRssFeeds()
-      if ('error' in rssFeeds) {
-        throw new Error(`Failed to generate RSS feeds: ${rssFeeds.error}`)
+      await this.executePhase('initial-sync')
+      await this.executePhase('rss')
+
+      const recovered = await this.dbService.resetInProgressWorkflowQueueItems()
+      if (recovered > 0) {
+        this.log.info(`Resuming ${recovered} interrupted queue items`)
       }
-      await this.initializeRssSnapshots()
+
       this.startRssCheck()
       this.startQueueProcessor()
 
       this.status = 'running'
       this.isRunning = true
       this.log.info('Watchlist testing workflow running')
+
+      await this.processQueue()
       return true
     } catch (error) {
       this.status = 'stopped'
@@ -92,7 +130,11 @@ export class WatchlistWorkflowService {
   }
 
   async stop() {
-    if (this.status !== 'running' && this.status !== 'starting') {
+    if (
+      this.status !== 'running' &&
+      this.status !== 'starting' &&
+      this.status !== 'paused'
+    ) {
       this.log.warn(`Cannot stop workflow: current status is ${this.status}`)
       return false
     }
@@ -110,14 +152,151 @@ export class WatchlistWorkflowService {
       this.queueCheckInterval = null
     }
 
-    this.changeQueue.clear()
+    this.hasPendingChanges = false
+    this.deferredItems.clear()
     this.isRunning = false
     this.status = 'stopped'
 
     return true
   }
 
+  /**
+   * Suspends routing while keeping the RSS snapshots, so the first RSS check
+   * after resuming picks up everything that changed while paused.
+   */
+  async pause() {
+    if (this.status !== 'running') {
+      this.log.warn(`Cannot pause workflow: current status is ${this.status}`)
+      return false
+    }
+
+    this.log.info('Pausing Watchlist workflow')
+
+    if (this.rssCheckInterval) {
+      clearInterval(this.rssCheckInterval)
+      this.rssCheckInterval = null
+    }
+
+    if (this.queueCheckInterval) {
+      clearInterval(this.queueCheckInterval)
+      this.queueCheckInterval = null
+    }
+
+    this.isRunning = false
+    this.status = 'paused'
+
+    return true
+  }
+
+  async resume() {
+    if (this.status !== 'paused') {
+      this.log.warn(`Cannot resume workflow: current status is ${this.status}`)
+      return false
+    }
+
+    this.log.info('Resuming Watchlist workflow')
+    this.startRssCheck()
+    this.startQueueProcessor()
+    this.isRunning = true
+    this.status = 'running'
+
+    await this.processQueue()
+    return true
+  }
+
   async fetchWatchlists() {
+    await this.executePhase('refresh')
+    await this.executePhase('status-sync')
+  }
+
+  isPhaseRunning(phase: WorkflowPhase): boolean {
+    return this.runningPhases.has(phase)
+  }
+
+  async getPhases(): Promise<WorkflowPhaseState[]> {
+    const phases = Object.keys(WORKFLOW_PHASES) as WorkflowPhase[]
+    return Promise.all(
+      phases.map(async (phase) => ({
+        phase,
+        lastRunAt: await this.dbService.getSyncCheckpoint(`phase:${phase}`),
+        running: this.runningPhases.has(phase),
+      })),
+    )
+  }
+
+  /**
+   * Runs a single workflow phase on demand. Phases can run whether or not
+   * the workflow itself is running, but never while it is starting or
+   * stopping, and never twice at the same time.
+   */
+  async runPhase(phase: WorkflowPhase) {
+    if (this.status === 'starting' || this.status === 'stopping') {
+      throw new Error(`Cannot run a phase while the workflow is ${this.status}`)
+    }
+
+    if (this.runningPhases.has(phase)) {
+      throw new Error(`The ${WORKFLOW_PHASES[phase]} is already running`)
+    }
+
+    await this.executePhase(phase)
+  }
+
+  private async executePhase(phase: WorkflowPhase) {
+    const label = WORKFLOW_PHASES[phase]
+    const operationId = `workflow-phase-${phase}-${Date.now()}`
+
+    this.runningPhases.add(phase)
+    this.emitPhaseProgress(operationId, 'start', 0, `Starting ${label}`)
+
+    try {
+      switch (phase) {
+        case 'refresh':
+          await this.refreshWatchlists()
+          break
+        case 'status-sync':
+          await this.syncStatuses()
+          break
+        case 'initial-sync':
+          await this.initialSyncCheck()
+          break
+        case 'rss':
+          await this.regenerateRssFeeds()
+          break
+      }
+
+      await this.dbService.setSyncCheckpoint(
+        `phase:${phase}`,
+        new Date().toISOString(),
+      )
+      this.emitPhaseProgress(operationId, 'complete', 100, `Completed ${label}`)
+    } catch (error) {
+      this.emitPhaseProgress(operationId, 'error', 100, `Failed ${label}`)
+      throw error
+    } finally {
+      this.runningPhases.delete(phase)
+    }
+  }
+
+  private emitPhaseProgress(
+    operationId: string,
+    phase: string,
+    progress: number,
+    message: string,
+  ) {
+    if (!this.fastify.progress.hasActiveConnections()) {
+      return
+    }
+
+    this.fastify.progress.emit({
+      operationId,
+      type: 'workflow-phase',
+      phase,
+      progress,
+      message,
+    })
+  }
+
+  private async refreshWatchlists() {
     this.log.info('Refreshing watchlists')
     try {
       await Promise.all([
@@ -125,17 +304,36 @@ export class WatchlistWorkflowService {
         this.plexService.getOthersWatchlists(),
       ])
       this.log.info('Watchlists refreshed successfully')
+    } catch (error) {
+      this.log.error('Error refreshing watchlists:', error)
+      throw error
+    }
+  }
 
+  private async syncStatuses() {
+    try {
       const { shows, movies } = await this.showStatusService.syncAllStatuses()
       this.log.info(
-        `Updated ${shows} show statuses and ${movies} movie statuses after watchlist refresh`,
+        `Updated ${shows} show statuses and ${movies} movie statuses`,
       )
     } catch (error) {
-      this.log.error('Error refreshing watchlists:', error)
+      this.log.error('Error syncing watchlist statuses:', error)
       throw error
     }
   }
 
+  private async regenerateRssFeeds() {
+    const rssFeeds = await this.plexService.generateAndSaveRssFeeds()
+    if ('error' in rssFeeds) {
+      throw new Error(`Failed to generate RSS feeds: ${rssFeeds.error}`)
+    }
+
+    // New feed URLs invalidate the snapshots the RSS diff compares against
+    if (this.status !== 'stopped' && this.status !== 'stopping') {
+      await this.initializeRssSnapshots()
+    }
+  }
+
   private async initializeRssSnapshots() {
     this.log.info('Initializing RSS snapshots')
     const results = await this.plexService.processRssWatchlists()
@@ -185,35 +383,77 @@ export class WatchlistWorkflowService {
   }
 
   private async processRssResults(results: RssWatchlistResults) {
-    if (results.self.users[0]?.watchlist) {
-      const currentItems = this.createItemMap(results.self.users[0].watchlist)
-      const changes = this.detectChanges(this.previousSelfItems, currentItems)
+    const removedItems: WatchlistItem[] = []
+    const selfWatchlist = results.self.users[0]?.watchlist
+    const friendsWatchlist = results.friends.users[0]?.watchlist
+
+    if (
+      selfWatchlist &&
+      !this.isUnexpectedlyEmpty('self', this.previousSelfItems, selfWatchlist)
+    ) {
+      const currentItems = this.createItemMap(selfWatchlist)
+      const { changes, removed } = this.detectChanges(
+        this.previousSelfItems,
+        currentItems,
+      )
       if (changes.size > 0) {
         await this.addToQueue(changes, 'self')
       }
+      removedItems.push(...removed)
       this.previousSelfItems = currentItems
     }
 
-    if (results.friends.users[0]?.watchlist) {
-      const currentItems = this.createItemMap(
-        results.friends.users[0].watchlist,
+    if (
+      friendsWatchlist &&
+      !this.isUnexpectedlyEmpty(
+        'friends',
+        this.previousFriendsItems,
+        friendsWatchlist,
       )
-      const changes = this.detectChanges(
+    ) {
+      const currentItems = this.createItemMap(friendsWatchlist)
+      const { changes, removed } = this.detectChanges(
         this.previousFriendsItems,
         currentItems,
       )
       if (changes.size > 0) {
         await this.addToQueue(changes, 'friends')
       }
+      removedItems.push(...removed)
       this.previousFriendsItems = currentItems
     }
+
+    if (removedItems.length > 0) {
+      await this.processRemovedItems(removedItems)
+    }
+  }
+
+  /**
+   * A feed that drops from a populated snapshot to nothing at all is far
+   * more likely a Plex hiccup than a cleared watchlist. It is ignored, and
+   * the snapshot kept, rather than treating every item as removed.
+   */
+  private isUnexpectedlyEmpty(
+    source: 'self' | 'friends',
+    previousItems: Map<string, WatchlistItem>,
+    watchlist: WatchlistItem[],
+  ): boolean {
+    if (watchlist.length > 0 || previousItems.size === 0) {
+      return false
+    }
+
+    this.log.warn(
+      `The ${source} RSS feed returned no items after previously holding ${previousItems.size}, ignoring it`,
+    )
+    return true
   }
 
   private detectChanges(
     previousItems: Map<string, WatchlistItem>,
     currentItems: Map<string, WatchlistItem>,
-  ): Set<TemptRssWatchlistItem> {
+  ): { changes: Set<TemptRssWatchlistItem>; removed: WatchlistItem[] } {
     const changes = new Set<TemptRssWatchlistItem>()
+    const removed: WatchlistItem[] = []
 
     currentItems.forEach((currentItem, guid) => {
       const previousItem = previousItems.get(guid)
@@ -250,6 +490,7 @@ export class WatchlistWorkflowService {
     previousItems.forEach((item, guid) => {
       if (!currentItems.has(guid)) {
         this.log.debug('Removed item detected', { guid, title: item.title })
+        removed.push(item)
       }
     })
 
@@ -261,7 +502,81 @@ export class WatchlistWorkflowService {
       })
     }
 
-    return changes
+    return { changes, removed }
+  }
+
+  /**
+   * Handles GUIDs that dropped out of an RSS feed. Only items that are no
+   * longer present in either feed have lost their last watchlister; those
+   * are marked as removed and the configured removal action is applied.
+   */
+  private async processRemovedItems(items: WatchlistItem[]) {
+    const remainingGuids = new Set(
+      [
+        ...this.previousSelfItems.values(),
+        ...this.previousFriendsItems.values(),
+      ].flatMap((item) => item.guids),
+    )
+
+    for (const item of items) {
+      if (item.guids.some((guid) => remainingGuids.has(guid))) {
+        this.log.debug(`${item.title} is still watchlisted by another user`)
+        continue
+      }
+
+      try {
+        await this.handleLastWatchlisterRemoval(item)
+      } catch (error) {
+        this.log.error(`Error handling removal of ${item.title}:`, error)
+      }
+    }
+  }
+
+  private async handleLastWatchlisterRemoval(item: WatchlistItem) {
+    const action = this.config.removedItemAction || 'none'
+    const type = item.type.toLowerCase()
+
+    await this.dbService.markWatchlistItemsRemoved(item.guids)
+    this.log.info(
+      `${item.title} was removed by its last watchlister, applying removal action: ${action}`,
+    )
+
+    if (action === 'unmonitor') {
+      const unmonitored =
+        type === 'show'
+          ? await this.sonarrManager.unmonitorItem(item.guids)
+          : await this.radarrManager.unmonitorItem(item.guids)
+      this.log.info(`Unmonitored ${item.title} in ${unmonitored} instances`)
+    } else if (action === 'delete' && (type === 'show' || type === 'movie')) {
+      const graceDays = this.config.removedItemGraceDays ?? 7
+      const deleteAfter = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000)
+      await this.dbService.createPendingDeletion({
+        guid: item.guids[0],
+        title: item.title,
+        type,
+        guids: item.guids,
+        deleteAfter: deleteAfter.toISOString(),
+      })
+      this.log.info(
+        `Queued ${item.title} for deletion after ${deleteAfter.toISOString()}`,
+      )
+    }
+
+    this.emitRemovalEvent(item, action)
+  }
+
+  private emitRemovalEvent(item: WatchlistItem, action: string) {
+    if (!this.fastify.progress.hasActiveConnections()) {
+      return
+    }
+
+    this.fastify.progress.emit({
+      operationId: `watchlist-removal-${Date.now()}`,
+      type: 'watchlist-removal',
+      phase: action,
+      progress: 100,
+      message: `${item.title} was removed from all watchlists`,
+    })
   }
 
   private convertToTempItem(item: WatchlistItem): TemptRssWatchlistItem {
@@ -282,30 +597,27 @@ export class WatchlistWorkflowService {
     let hasNewItems = false
 
     for (const item of items) {
-      if (!this.changeQueue.has(item)) {
-        this.changeQueue.add(item)
-        hasNewItems = true
-
-        if (item.type.toLowerCase() === 'show') {
-          this.log.info(`Processing show ${item.title} immediately`)
-          const normalizedItem = {
-            ...item,
-            type: 'show',
-          }
-          await this.processSonarrItem(normalizedItem)
-        } else if (item.type.toLowerCase() === 'movie') {
-          this.log.info(`Processing movie ${item.title} immediately`)
-          const normalizedItem = {
-            ...item,
-            type: 'movie',
-          }
-          await this.processRadarrItem(normalizedItem)
-        }
+      const guids = parseGuids(item.guids)
+      if (guids.length === 0) {
+        this.log.warn(`${item.title} has no GUIDs, skipping`)
+        continue
+      }
+
+      hasNewItems = true
+      await this.dbService.restoreRemovedWatchlistItems(guids)
+
+      const eligibility = await this.getSyncEligibility(item, source)
+      if (eligibility !== 'sync') {
+        this.deferItem(item, eligibility)
+        continue
       }
+
+      await this.enqueueItem(item, source)
     }
 
     if (hasNewItems) {
       this.lastQueueItemTime = Date.now()
+      this.hasPendingChanges = true
       this.log.info(
         `Added ${items.size} changed items to queue from ${source} RSS feed`,
       )
@@ -315,6 +627,248 @@ export class WatchlistWorkflowService {
       } catch (error) {
         this.log.error(`Error storing ${source} RSS items:`, error)
       }
+
+      await this.processQueue()
+    }
+  }
+
+  private async enqueueItem(
+    item: TemptRssWatchlistItem,
+    source: 'self' | 'friends' | null,
+  ) {
+    const guids = parseGuids(item.guids)
+    const queued = await this.dbService.enqueueWorkflowItem({
+      guid: guids[0],
+      title: item.title,
+      type: item.type.toLowerCase(),
+      key: item.key,
+      thumb: item.thumb,
+      guids,
+      genres: Array.isArray(item.genres)
+        ? item.genres
+        : typeof item.genres === 'string'
+          ? [item.genres]
+          : [],
+      source,
+    })
+
+    if (queued) {
+      this.log.debug(`Queued ${item.title} for routing`)
+    } else {
+      this.log.debug(`${item.title} is already queued, skipping`)
+    }
+  }
+
+  /**
+   * Routes every queue item that is due. Failures are retried with
+   * exponential backoff until MAX_QUEUE_ATTEMPTS is reached, after which the
+   * item is marked failed and only retried when requeued manually.
+   */
+  private async processQueue() {
+    if (this.isProcessingQueue || !this.isRunning) {
+      return
+    }
+
+    this.isProcessingQueue = true
+
+    try {
+      const dueItems = await this.dbService.getDueWorkflowQueueItems()
+
+      for (const queueItem of dueItems) {
+        if (!(await this.dbService.claimWorkflowQueueItem(queueItem.id))) {
+          continue
+        }
+
+        try {
+          await this.routeItem({
+            title: queueItem.title,
+            type: queueItem.type,
+            key: queueItem.key,
+            thumb: queueItem.thumb ?? undefined,
+            guids: queueItem.guids,
+            genres: queueItem.genres,
+          })
+          await this.dbService.updateWorkflowQueueItem(queueItem.id, {
+            status: 'done',
+            lastError: null,
+          })
+        } catch (error) {
+          await this.recordQueueFailure(queueItem, error)
+        }
+      }
+    } catch (error) {
+      this.log.error('Error processing workflow queue:', error)
+    } finally {
+      this.isProcessingQueue = false
+    }
+  }
+
+  private async recordQueueFailure(
+    queueItem: WorkflowQueueItem,
+    error: unknown,
+  ) {
+    const attempts = queueItem.attempts + 1
+    const lastError = error instanceof Error ? error.message : String(error)
+
+    if (attempts >= MAX_QUEUE_ATTEMPTS) {
+      this.log.error(
+        `Giving up on ${queueItem.title} after ${attempts} attempts: ${lastError}`,
+      )
+      await this.dbService.updateWorkflowQueueItem(queueItem.id, {
+        status: 'failed',
+        attempts,
+        lastError,
+      })
+      return
+    }
+
+    const delay = Math.min(
+      QUEUE_RETRY_BASE_MS * 2 ** (attempts - 1),
+      QUEUE_RETRY_MAX_MS,
+    )
+    const nextAttemptAt = new Date(Date.now() + delay).toISOString()
+
+    this.log.warn(
+      `Failed to route ${queueItem.title} (attempt ${attempts}), retrying at ${nextAttemptAt}`,
+    )
+    await this.dbService.updateWorkflowQueueItem(queueItem.id, {
+      status: 'pending',
+      attempts,
+      lastError,
+      nextAttemptAt,
+    })
+  }
+
+  async getQueueItems(
+    status?: WorkflowQueueStatus,
+  ): Promise<WorkflowQueueItem[]> {
+    return this.dbService.getWorkflowQueueItems(status)
+  }
+
+  /**
+   * Resets a queue item to pending with a fresh attempt count. Items that are
+   * currently being routed cannot be requeued.
+   */
+  async requeueItem(id: number): Promise<WorkflowQueueItem | null> {
+    const queueItem = await this.dbService.getWorkflowQueueItem(id)
+    if (!queueItem) {
+      return null
+    }
+
+    if (queueItem.status === 'in_progress') {
+      throw new Error('Queue item is currently in progress')
+    }
+
+    await this.dbService.updateWorkflowQueueItem(id, {
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date().toISOString(),
+    })
+    this.log.info(`Requeued ${queueItem.title}`)
+
+    setImmediate(() => this.processQueue())
+
+    return this.dbService.getWorkflowQueueItem(id)
+  }
+
+  private async routeItem(item: TemptRssWatchlistItem) {
+    if (item.type.toLowerCase() === 'show') {
+      this.log.info(`Processing show ${item.title} immediately`)
+      const normalizedItem = {
+        ...item,
+        type: 'show',
+      }
+      await this.processSonarrItem(normalizedItem)
+    } else if (item.type.toLowerCase() === 'movie') {
+      this.log.info(`Processing movie ${item.title} immediately`)
+      const normalizedItem = {
+        ...item,
+        type: 'movie',
+      }
+      await this.processRadarrItem(normalizedItem)
+    }
+  }
+
+  /**
+   * Determines whether any user with can_sync enabled watchlists the item.
+   * The self RSS feed always belongs to the primary token user, while the
+   * friends feed carries no attribution, so an item with no syncing
+   * watchlister in the database yet is 'unknown' until the next refresh.
+   */
+  private async getSyncEligibility(
+    item: TemptRssWatchlistItem,
+    source?: 'self' | 'friends',
+  ): Promise<SyncEligibility> {
+    if (source === 'self') {
+      const primaryUser = await this.dbService.getUser('token1')
+      if (!primaryUser || primaryUser.can_sync) {
+        return 'sync'
+      }
+    }
+
+    const watchlistItems = await this.dbService.getWatchlistItemsByGuids(
+      parseGuids(item.guids),
+    )
+    if (watchlistItems.length === 0) {
+      return 'unknown'
+    }
+
+    const users = await this.dbService.getAllUsers()
+    const syncingUserIds = new Set(
+      users.filter((user) => user.can_sync).map((user) => user.id),
+    )
+
+    if (watchlistItems.some((row) => syncingUserIds.has(row.user_id))) {
+      return 'sync'
+    }
+
+    // A friend who can sync may have added the item since the last refresh
+    return source === 'friends' ? 'unknown' : 'blocked'
+  }
+
+  private deferItem(item: TemptRssWatchlistItem, eligibility: SyncEligibility) {
+    const guids = parseGuids(item.guids)
+    if (guids.length === 0) {
+      return
+    }
+
+    this.deferredItems.set(guids[0], item)
+
+    if (eligibility === 'blocked') {
+      this.log.info(
+        `${item.title} is only watchlisted by users with sync disabled, not routing`,
+      )
+    } else {
+      this.log.info(
+        `Deferring ${item.title} until the next watchlist refresh attributes it to a user`,
+      )
+    }
+  }
+
+  private async processDeferredItems() {
+    if (this.deferredItems.size === 0) {
+      return
+    }
+
+    this.log.info(`Re-evaluating ${this.deferredItems.size} deferred items`)
+
+    for (const [guid, item] of this.deferredItems) {
+      try {
+        const eligibility = await this.getSyncEligibility(item)
+
+        if (eligibility === 'sync') {
+          this.deferredItems.delete(guid)
+          await this.enqueueItem(item, null)
+        } else if (eligibility === 'unknown') {
+          this.deferredItems.delete(guid)
+          this.log.debug(
+            `Dropping deferred item ${item.title} as it is no longer watchlisted`,
+          )
+        }
+      } catch (error) {
+        this.log.error(`Error processing deferred item ${item.title}:`, error)
+      }
     }
   }
 
@@ -386,13 +940,15 @@ export class WatchlistWorkflowService {
 
   private async processRadarrItem(item: TemptRssWatchlistItem) {
     try {
-      const tmdbGuid = Array.isArray(item.guids)
-        ? item.guids.find((guid) => guid.startsWith('tmdb:'))
-        : undefined
-
-      if (!tmdbGuid) {
+      const guids = parseGuids(item.guids)
+      // Radarr resolves the movie from its TMDB ID, or IMDb ID when missing
+      if (
+        !guids.some(
+          (guid) => guid.startsWith('tmdb:') || guid.startsWith('imdb:'),
+        )
+      ) {
         this.log.warn(
-          `Movie ${item.title} has no TMDB ID, skipping Radarr processing`,
+          `Movie ${item.title} has no TMDB or IMDb ID, skipping Radarr processing`,
           {
             guids: item.guids,
           },
@@ -400,19 +956,14 @@ export class WatchlistWorkflowService {
         return
       }
 
-      const tmdbId = Number.parseInt(tmdbGuid.replace('tmdb:', ''), 10)
-      if (Number.isNaN(tmdbId)) {
-        throw new Error('Invalid TMDB ID format')
-      }
-
       const shouldAdd = await this.verifyRadarrItem(item)
       if (!shouldAdd) {
         return
       }
 
       const radarrItem: RadarrItem = {
-        title: `TMDB:${tmdbId}`,
-        guids: [tmdbGuid],
+        title: item.title,
+        guids,
         type: 'movie',
         genres: Array.isArray(item.genres)
           ? item.genres
@@ -439,12 +990,15 @@ export class WatchlistWorkflowService {
 
   private async processSonarrItem(item: TemptRssWatchlistItem) {
     try {
-      const tvdbGuid = Array.isArray(item.guids)
-        ? item.guids.find((guid) => guid.startsWith('tvdb:'))
-        : undefined
-      if (!tvdbGuid) {
+      const guids = parseGuids(item.guids)
+      // Sonarr resolves the show from its TVDB ID, or IMDb ID when missing
+      if (
+        !guids.some(
+          (guid) => guid.startsWith('tvdb:') || guid.startsWith('imdb:'),
+        )
+      ) {
         this.log.warn(
-          `Show ${item.title} has no TVDB ID, skipping Sonarr processing`,
+          `Show ${item.title} has no TVDB or IMDb ID, skipping Sonarr processing`,
           {
             guids: item.guids,
           },
@@ -452,19 +1006,14 @@ export class WatchlistWorkflowService {
         return
       }
 
-      const tvdbId = Number.parseInt(tvdbGuid.replace('tvdb:', ''), 10)
-      if (Number.isNaN(tvdbId)) {
-        throw new Error('Invalid TVDB ID format')
-      }
-
       const shouldAdd = await this.verifySonarrItem(item)
       if (!shouldAdd) {
         return
       }
 
       const sonarrItem: SonarrItem = {
-        title: `TVDB:${tvdbId}`,
-        guids: [tvdbGuid],
+        title: item.title,
+        guids,
         type: 'show',
         ended: false,
         genres: Array.isArray(item.genres)
@@ -494,99 +1043,144 @@ export class WatchlistWorkflowService {
     }
   }
 
+  /**
+   * Reconciles watchlist items against Sonarr/Radarr. The first run, and any
+   * run after routing configuration changed or the checkpoint went stale,
+   * checks every item. Otherwise only items changed since the last
+   * successful sync are reconciled, and the arrs are not queried at all when
+   * nothing changed.
+   */
   private async initialSyncCheck() {
     this.log.info('Performing initial sync check')
 
     try {
-      // Get all shows and movies
-      const [shows, movies] = await Promise.all([
-        this.dbService.getAllShowWatchlistItems(),
-        this.dbService.getAllMovieWatchlistItems(),
-      ])
+      const syncStartedAt = new Date().toISOString()
+      const checkpoint = await this.dbService.getSyncCheckpoint(
+        INITIAL_SYNC_CHECKPOINT,
+      )
+      const isFullSync =
+        !checkpoint ||
+        Date.now() - new Date(checkpoint).getTime() > FULL_SYNC_MAX_AGE_MS ||
+        (await this.dbService.hasRoutingChangesSince(checkpoint))
+
+      let itemsToReconcile: DbWatchlistItem[]
+      if (isFullSync) {
+        const [shows, movies] = await Promise.all([
+          this.dbService.getAllShowWatchlistItems(),
+          this.dbService.getAllMovieWatchlistItems(),
+        ])
+        itemsToReconcile = [...shows, ...movies]
+      } else {
+        itemsToReconcile =
+          await this.dbService.getWatchlistItemsChangedSince(checkpoint)
+        this.log.info(
+          `Incremental sync since ${checkpoint}: ${itemsToReconcile.length} changed items`,
+        )
+      }
 
-      const allWatchlistItems = [...shows, ...movies]
+      if (!isFullSync && itemsToReconcile.length === 0) {
+        await this.dbService.setSyncCheckpoint(
+          INITIAL_SYNC_CHECKPOINT,
+          syncStartedAt,
+        )
+        this.log.info('No watchlist changes since last sync, skipping')
+        return
+      }
 
-      const [existingSeries, existingMovies] = await Promise.all([
+      const [existingSeries, existingMovies, users] = await Promise.all([
         this.sonarrManager.fetchAllSeries(),
         this.radarrManager.fetchAllMovies(),
+        this.dbService.getAllUsers(),
       ])
 
+      const seriesIndex = buildGuidIndex(existingSeries)
+      const movieIndex = buildGuidIndex(existingMovies)
+      const syncingUserIds = new Set(
+        users.filter((user) => user.can_sync).map((user) => user.id),
+      )
+
       let showsAdded = 0
       let moviesAdded = 0
+      let syncDisabledItems = 0
       let unmatchedShows = 0
       let unmatchedMovies = 0
-      const watchlistGuids = new Set(
-        allWatchlistItems.flatMap((item) =>
-          typeof item.guids === 'string'
-            ? JSON.parse(item.guids)
-            : item.guids || [],
-        ),
-      )
 
-      // Check unmatched items in Sonarr/Radarr
-      for (const series of existingSeries) {
-        const hasMatch = series.guids.some((guid) => watchlistGuids.has(guid))
-        if (!hasMatch) {
-          unmatchedShows++
+      // Library items without watchlisters can only be found with the full
+      // watchlist, so they are reported on full syncs only
+      if (isFullSync) {
+        const watchlistGuids = buildWatchlistGuidSet(itemsToReconcile)
+
+        const unmatchedSeries = findUnmatchedItems(
+          existingSeries,
+          watchlistGuids,
+        )
+        for (const series of unmatchedSeries) {
           this.log.debug('Show in Sonarr not in watchlist:', {
             title: series.title,
             guids: series.guids,
           })
         }
-      }
 
-      for (const movie of existingMovies) {
-        const hasMatch = movie.guids.some((guid) => watchlistGuids.has(guid))
-        if (!hasMatch) {
-          unmatchedMovies++
+        const unmatchedMovieItems = findUnmatchedItems(
+          existingMovies,
+          watchlistGuids,
+        )
+        for (const movie of unmatchedMovieItems) {
           this.log.debug('Movie in Radarr not in watchlist:', {
             title: movie.title,
             guids: movie.guids,
           })
         }
+
+        unmatchedShows = unmatchedSeries.length
+        unmatchedMovies = unmatchedMovieItems.length
       }
 
       // Process missing watchlist items
-      for (const item of allWatchlistItems) {
+      for (const item of itemsToReconcile) {
         const tempItem: TemptRssWatchlistItem = {
           title: item.title,
           type: item.type,
           thumb: item.thumb ?? undefined,
-          guids:
-            typeof item.guids === 'string'
-              ? JSON.parse(item.guids)
-              : item.guids,
+          guids: parseGuids(item.guids),
           genres:
             typeof item.genres === 'string'
               ? JSON.parse(item.genres)
               : item.genres,
           key: item.key,
         }
+        const guids = parseGuids(tempItem.guids)
+        const canSync = syncingUserIds.has(item.user_id)
 
         if (item.type === 'show') {
-          const exists = [...existingSeries].some((series) =>
-            series.guids.some((existingGuid) =>
-              tempItem.guids?.includes(existingGuid),
-            ),
-          )
-          if (!exists) {
+          const exists = findByGuids(seriesIndex, guids) !== undefined
+          if (!exists && !canSync) {
+            this.deferItem(tempItem, 'blocked')
+            syncDisabledItems++
+          } else if (!exists) {
             await this.processSonarrItem(tempItem)
             showsAdded++
           }
         } else if (item.type === 'movie') {
-          const exists = [...existingMovies].some((movie) =>
-            movie.guids.some((existingGuid) =>
-              tempItem.guids?.includes(existingGuid),
-            ),
-          )
-          if (!exists) {
+          const exists = findByGuids(movieIndex, guids) !== undefined
+          if (!exists && !canSync) {
+            this.deferItem(tempItem, 'blocked')
+            syncDisabledItems++
+          } else if (!exists) {
             await this.processRadarrItem(tempItem)
             moviesAdded++
           }
         }
       }
 
+      await this.dbService.setSyncCheckpoint(
+        INITIAL_SYNC_CHECKPOINT,
+        syncStartedAt,
+      )
+
       this.log.info('Initial sync completed:', {
+        mode: isFullSync ? 'full' : 'incremental',
+        reconciled: itemsToReconcile.length,
         added: {
           shows: showsAdded,
           movies: moviesAdded,
@@ -595,6 +1189,7 @@ export class WatchlistWorkflowService {
           shows: unmatchedShows,
           movies: unmatchedMovies,
         },
+        syncDisabled: syncDisabledItems,
       })
 
       if (unmatchedShows > 0 || unmatchedMovies > 0) {
@@ -618,17 +1213,25 @@ export class WatchlistWorkflowService {
         return
       }
 
+      // Picks up retries whose backoff has elapsed
+      await this.processQueue()
+
       const timeSinceLastItem = Date.now() - this.lastQueueItemTime
       if (
         timeSinceLastItem >= this.queueProcessDelayMs &&
-        this.changeQueue.size > 0
+        this.hasPendingChanges
       ) {
         this.isRefreshing = true
         try {
           this.log.info('Queue process delay reached, refreshing watchlists')
-          this.changeQueue.clear()
+          this.hasPendingChanges = false
           await this.fetchWatchlists()
           this.log.info('Watchlist refresh completed')
+          await this.processDeferredItems()
+          await this.processQueue()
+          await this.dbService.pruneWorkflowQueue(
+            new Date(Date.now() - QUEUE_RETENTION_MS).toISOString(),
+          )
         } catch (error) {
           this.log.error('Error during watchlist refresh:', error)
         } finally {
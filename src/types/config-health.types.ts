@@ -0,0 +1,27 @@
+export type ConfigReferenceScope =
+  | 'instance'
+  | 'genre-route'
+  | 'user-route'
+  | 'routing-rule'
+
+export type ConfigIssueField = 'connection' | 'rootFolder' | 'qualityProfile'
+
+export interface ConfigIssue {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  instanceName: string
+  scope: ConfigReferenceScope
+  /** ID of the instance, route or rule holding the reference */
+  scopeId: number
+  scopeName: string
+  field: ConfigIssueField
+  value: string | null
+  message: string
+}
+
+export interface ConfigHealthReport {
+  /** Null until the first validation run has finished */
+  checkedAt: string | null
+  blockBrokenRouting: boolean
+  issues: ConfigIssue[]
+}
@@ -11,6 +11,8 @@ export interface User {
   updated_at?: string
 }
 
+export type RemovedItemAction = 'none' | 'unmonitor' | 'delete'
+
 export type LogLevel =
   | 'fatal'
   | 'error'
@@ -66,6 +68,11 @@ export interface Config {
   deleteContinuingShow: boolean
   deleteIntervalDays: number
   deleteFiles: boolean
+  protectionTag: string
+  removedItemAction: RemovedItemAction
+  removedItemGraceDays: number
+  // Routing Config
+  blockBrokenRouting: boolean
   // RSS Config
   selfRss?: string
   friendsRss?: string
@@ -0,0 +1,48 @@
+export type DeleteSyncStatus = 'stopped' | 'running' | 'starting' | 'stopping'
+
+export interface DeleteSyncContentResult {
+  deleted: number
+  skipped: number
+  failed: number
+}
+
+export interface DeleteSyncResult {
+  shows: DeleteSyncContentResult
+  movies: DeleteSyncContentResult
+  startedAt: string
+  completedAt: string
+}
+
+export interface DeleteSyncCandidate {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  instanceName: string
+  title: string
+  guids: string[]
+  reason: string
+  deleteFiles: boolean
+}
+
+export interface DeleteSyncPreview {
+  shows: DeleteSyncCandidate[]
+  movies: DeleteSyncCandidate[]
+  skipped: {
+    shows: number
+    movies: number
+  }
+  protected: {
+    shows: number
+    movies: number
+  }
+  generatedAt: string
+}
+
+export interface PendingDeletion {
+  id: number
+  guid: string
+  title: string
+  type: 'show' | 'movie'
+  guids: string[]
+  deleteAfter: string
+  createdAt: string
+}
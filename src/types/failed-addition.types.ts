@@ -0,0 +1,31 @@
+import type { RoutingTargetAddOptions } from '@root/types/routing-plan.types.js'
+
+export type FailedAdditionStatus = 'retrying' | 'dead'
+
+export interface FailedAddition {
+  id: number
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  guid: string
+  title: string
+  key: string
+  guids: string[]
+  genres: string[]
+  rootFolder: string | null
+  qualityProfile: string | null
+  /** Add options of the planned target, replayed on every retry */
+  addOptions: RoutingTargetAddOptions
+  statusCode: number | null
+  errorMessage: string
+  errorBody: string | null
+  attempts: number
+  status: FailedAdditionStatus
+  nextAttemptAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewFailedAddition = Omit<
+  FailedAddition,
+  'id' | 'attempts' | 'status' | 'createdAt' | 'updatedAt'
+>
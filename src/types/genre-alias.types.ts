@@ -0,0 +1,11 @@
+export interface GenreAlias {
+  id: number
+  /** Genre name as it arrives from Plex metadata or RSS keywords */
+  alias: string
+  /** Genre the alias is stored and routed as */
+  genre: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type GenreAliasInput = Pick<GenreAlias, 'alias' | 'genre'>
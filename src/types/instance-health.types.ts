@@ -0,0 +1,30 @@
+export type InstanceHealthStatus = 'up' | 'down' | 'unknown'
+
+export interface InstanceHealthCheck {
+  healthy: boolean
+  /** Round trip of the system status request, null when it failed */
+  latencyMs: number | null
+  error: string | null
+  checkedAt: string
+}
+
+export interface NewInstanceHealthCheck
+  extends Omit<InstanceHealthCheck, 'checkedAt'> {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+}
+
+export interface InstanceHealth {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  instanceName: string
+  status: InstanceHealthStatus
+  latencyMs: number | null
+  lastError: string | null
+  lastCheckedAt: string | null
+  /** When the instance last went up or down */
+  statusChangedAt: string | null
+  consecutiveFailures: number
+  /** Most recent checks, newest first */
+  history: InstanceHealthCheck[]
+}
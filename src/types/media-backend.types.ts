@@ -0,0 +1,68 @@
+import type { ConnectionTestResult } from '@root/types/sonarr.types.js'
+
+export type MediaBackendContentType = 'show' | 'movie' | 'music' | 'book'
+
+export interface MediaItem {
+  title: string
+  guids: string[]
+  type: string
+  genres?: string[]
+  added?: string
+}
+
+export interface MediaBackendProfile {
+  id: number
+  name: string
+}
+
+export interface MediaBackendRootFolder {
+  path: string
+}
+
+export interface MediaBackendAddOptions {
+  rootFolder?: string
+  qualityProfile?: string | number | null
+  tags?: string[]
+}
+
+/**
+ * Operations every media backend instance supports. Sonarr and Radarr are
+ * adapted onto this.
+ */
+export interface MediaBackend {
+  fetchLibrary(bypassCache?: boolean): Promise<MediaItem[]>
+  addItem(item: MediaItem, options?: MediaBackendAddOptions): Promise<void>
+  deleteItem(item: MediaItem, deleteFiles: boolean): Promise<void>
+  fetchQualityProfiles(): Promise<MediaBackendProfile[]>
+  fetchRootFolders(): Promise<MediaBackendRootFolder[]>
+  setupWebhook(): Promise<void>
+  removeWebhook(): Promise<void>
+}
+
+/** Instance summary every backend type can list */
+export interface MediaBackendInstanceSummary {
+  id: number
+  name: string
+  baseUrl: string
+  isDefault: boolean
+}
+
+/**
+ * A backend type Pulsarr can talk to. Each type keeps its own tables,
+ * managers, routes and pages, and exposes its instances through the
+ * descriptor.
+ */
+export interface MediaBackendDescriptor {
+  type: string
+  displayName: string
+  contentType: MediaBackendContentType
+  testConnection(baseUrl: string, apiKey: string): Promise<ConnectionTestResult>
+  listInstances(): Promise<MediaBackendInstanceSummary[]>
+  getBackend(instanceId: number): MediaBackend | undefined
+}
+
+/** Serializable part of a descriptor, as listed to the client */
+export type MediaBackendInfo = Pick<
+  MediaBackendDescriptor,
+  'type' | 'displayName' | 'contentType'
+>
@@ -70,6 +70,7 @@ export interface Item {
   radarr_instance_id?: number
   last_notified_at?: string
   sync_started_at?: string
+  removed_at?: string | null
   created_at: string
   updated_at: string
 }
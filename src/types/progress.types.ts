@@ -1,6 +1,12 @@
 export interface ProgressEvent {
   operationId: string
-  type: 'self-watchlist' | 'others-watchlist' | 'rss-feed' | 'system'
+  type:
+    | 'self-watchlist'
+    | 'others-watchlist'
+    | 'rss-feed'
+    | 'system'
+    | 'watchlist-removal'
+    | 'workflow-phase'
   phase: string
   progress: number
   message: string
@@ -0,0 +1,16 @@
+export interface ProtectedItem {
+  id: number
+  guid: string
+  title: string | null
+  reason: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface TaggedProtectedItem {
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  instanceName: string
+  title: string
+  guids: string[]
+}
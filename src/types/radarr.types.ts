@@ -1,4 +1,18 @@
+import type { WatchlistInstanceStatus } from '@root/types/watchlist-status.types.js'
+import type { ArrImage } from '@root/types/sonarr.types.js'
+
+/**
+ * When Radarr should consider a movie available and start searching for it.
+ * Earlier stages grab sooner but are more likely to find cam or telesync
+ * releases.
+ */
+export type RadarrMinimumAvailability = 'announced' | 'inCinemas' | 'released'
+
+/** What Radarr monitors when the movie is added */
+export type RadarrMonitorMode = 'movieOnly' | 'movieAndCollection' | 'none'
+
 export interface RadarrAddOptions {
+  monitor: RadarrMonitorMode
   searchForMovie: boolean
 }
 
@@ -10,15 +24,53 @@ export interface RadarrMovie {
   isAvailable?: boolean
   added?: string
   hasFile?: boolean
+  tags?: number[]
+}
+
+export interface RadarrLookupResult {
+  title: string
+  titleSlug?: string
+  tmdbId: number
+  imdbId?: string
+  year?: number
+  images?: ArrImage[]
+  certification?: string
+  originalLanguage?: { id: number; name: string }
+}
+
+export interface RadarrAddOverrides {
+  tags?: string[]
+  /** Names of the watchlisting users, tagged when the instance enables it */
+  requesters?: string[]
+  monitored?: boolean
+  searchOnAdd?: boolean
+  minimumAvailability?: RadarrMinimumAvailability
+  monitor?: RadarrMonitorMode
+}
+
+export interface RadarrAddTarget {
+  rootFolderPath: string
+  qualityProfileId: number | string | null
+  qualityProfileName: string | null
+  tags: string[]
+  monitored: boolean
+  minimumAvailability: RadarrMinimumAvailability
+  addOptions: RadarrAddOptions
 }
 
 export interface RadarrPost {
   title: string
+  titleSlug?: string
   tmdbId: number
+  imdbId?: string
+  year?: number
+  images?: ArrImage[]
   qualityProfileId: number | null | string
   rootFolderPath: string | null
   addOptions: RadarrAddOptions
-  tags: string[]
+  monitored?: boolean
+  minimumAvailability: RadarrMinimumAvailability
+  tags: number[]
 }
 
 export interface RadarrConfiguration {
@@ -26,7 +78,12 @@ export interface RadarrConfiguration {
   radarrBaseUrl: string
   radarrQualityProfileId: number | null | string
   radarrRootFolder: string | null
-  radarrTagIds: string[]
+  /** Tag labels, resolved to Radarr tag IDs when an item is added */
+  radarrTags: string[]
+  radarrUserTags: boolean
+  radarrMinimumAvailability: RadarrMinimumAvailability
+  radarrMonitor: RadarrMonitorMode
+  radarrSearchOnAdd: boolean
 }
 
 export interface RootFolder {
@@ -71,6 +128,9 @@ export interface Item {
   movie_status?: 'available' | 'unavailable'
   genres?: string[]
   radarr_instance_id?: number
+  /** Download state of this copy, as seen by the instance it lives in */
+  instance_status?: WatchlistInstanceStatus
+  tags?: number[]
 }
 
 export interface RadarrInstance {
@@ -81,7 +141,11 @@ export interface RadarrInstance {
   qualityProfile?: string | number | null
   rootFolder?: string | null | undefined
   bypassIgnored: boolean
+  minimumAvailability: RadarrMinimumAvailability
+  monitor: RadarrMonitorMode
+  searchOnAdd: boolean
   tags: string[]
+  userTags: boolean
   isDefault: boolean
   syncedInstances?: number[]
   data?: {
@@ -97,6 +161,10 @@ export interface RadarrGenreRoute {
   genre: string
   rootFolder: string
   qualityProfile: string | number | null
+  /** Per-route add options, null to use the instance setting */
+  minimumAvailability?: RadarrMinimumAvailability | null
+  monitor?: RadarrMonitorMode | null
+  searchOnAdd?: boolean | null
 }
 
 export interface RadarrHealthCheck {
@@ -172,6 +240,11 @@ export interface ConnectionTestResult {
   message: string
 }
 
+export interface Tag {
+  id: number
+  label: string
+}
+
 export interface PingResponse {
   status: string
 }
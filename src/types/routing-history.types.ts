@@ -0,0 +1,36 @@
+import type { RoutingTargetSource } from '@root/types/routing-plan.types.js'
+
+export type RoutingHistorySource = RoutingTargetSource | 'retry'
+
+export interface RoutingHistoryEntry {
+  id: number
+  /** Primary GUID of the item, shared by every route it has taken */
+  guid: string
+  key: string
+  title: string
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  /** Instance name at read time, null if the instance was removed */
+  instanceName: string | null
+  source: RoutingHistorySource
+  /** The rule, user route, genre route or default that selected the instance */
+  routeName: string
+  rootFolder: string | null
+  qualityProfile: string | null
+  status: 'success' | 'failed'
+  errorMessage: string | null
+  createdAt: string
+}
+
+export type NewRoutingHistoryEntry = Omit<
+  RoutingHistoryEntry,
+  'id' | 'instanceName' | 'createdAt'
+>
+
+export interface RoutedItemSummary {
+  guid: string
+  title: string
+  instanceCount: number
+  failureCount: number
+  lastRoutedAt: string
+}
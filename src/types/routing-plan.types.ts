@@ -0,0 +1,81 @@
+import type { SonarrSeriesType } from '@root/types/sonarr.types.js'
+import type {
+  RadarrMinimumAvailability,
+  RadarrMonitorMode,
+} from '@root/types/radarr.types.js'
+
+export type RoutingTargetSource =
+  | 'rule'
+  | 'user-route'
+  | 'genre-route'
+  | 'default'
+
+export interface RoutingTarget {
+  instanceId: number
+  source: RoutingTargetSource
+  /** The rule, user route, genre route or default that selected the target */
+  reason: string
+  rootFolder: string | null
+  qualityProfile: number | string | null
+  tags?: string[]
+  seasonMonitoring?: string | null
+  monitored?: boolean
+  searchOnAdd?: boolean
+  seriesType?: SonarrSeriesType
+  seasonFolder?: boolean
+  minimumAvailability?: RadarrMinimumAvailability
+  movieMonitor?: RadarrMonitorMode
+}
+
+/** Add options a target carries beyond its root folder and quality profile */
+export type RoutingTargetAddOptions = Pick<
+  RoutingTarget,
+  | 'tags'
+  | 'seasonMonitoring'
+  | 'monitored'
+  | 'searchOnAdd'
+  | 'seriesType'
+  | 'seasonFolder'
+  | 'minimumAvailability'
+  | 'movieMonitor'
+>
+
+export interface RoutingPlan {
+  matchedRule: { id: number; name: string } | null
+  userRoutes: Array<{
+    id: number
+    userName: string
+    instanceId: number
+    exclusive: boolean
+  }>
+  genreRoutes: Array<{
+    id: number
+    name: string
+    genre: string
+    instanceId: number
+  }>
+  defaultInstanceId: number | null
+  syncedInstanceIds: number[]
+  /** Names of the watchlisting users, used for per-user tags */
+  requesters: string[]
+  targets: RoutingTarget[]
+}
+
+export interface ResolvedRoutingTarget extends RoutingTarget {
+  instanceName: string
+  /** Values the add request would be sent with, or null if unresolvable */
+  resolved: {
+    rootFolder: string
+    qualityProfileId: number | string | null
+    qualityProfileName: string | null
+    tags: string[]
+    monitored: boolean
+    searchOnAdd: boolean
+    seasonMonitoring?: string
+    seriesType?: SonarrSeriesType
+    seasonFolder?: boolean
+    minimumAvailability?: RadarrMinimumAvailability
+    movieMonitor?: RadarrMonitorMode
+  } | null
+  error: string | null
+}
@@ -0,0 +1,55 @@
+export type RoutingRuleField =
+  | 'genre'
+  | 'user'
+  | 'year'
+  | 'language'
+  | 'certification'
+  | 'contentType'
+
+export type RoutingRuleOperator = 'equals' | 'in' | 'gt' | 'gte' | 'lt' | 'lte'
+
+export type RoutingRuleCondition =
+  | { type: 'and'; conditions: RoutingRuleCondition[] }
+  | { type: 'or'; conditions: RoutingRuleCondition[] }
+  | { type: 'not'; condition: RoutingRuleCondition }
+  | {
+      type: 'match'
+      field: RoutingRuleField
+      operator: RoutingRuleOperator
+      value: string | number | Array<string | number>
+    }
+
+export interface RoutingRule {
+  id: number
+  name: string
+  targetType: 'sonarr' | 'radarr'
+  instanceId: number
+  priority: number
+  enabled: boolean
+  condition: RoutingRuleCondition
+  rootFolder: string | null
+  qualityProfile: number | null
+  tags: string[]
+  seasonMonitoring: string | null
+  monitored: boolean
+  searchOnAdd: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type RoutingRuleInput = Omit<
+  RoutingRule,
+  'id' | 'createdAt' | 'updatedAt'
+>
+
+export interface RoutingMetadata {
+  year: number | null
+  language: string | null
+  certification: string | null
+}
+
+export interface RoutingContext extends Partial<RoutingMetadata> {
+  contentType: 'show' | 'movie'
+  genres: string[]
+  users: string[]
+}
@@ -1,3 +1,20 @@
+import type { WatchlistInstanceStatus } from '@root/types/watchlist-status.types.js'
+
+/**
+ * How Sonarr numbers and parses episodes. Anime uses absolute episode
+ * numbers and daily shows use air dates, so the type must be right when the
+ * series is added for releases to be matched.
+ */
+export type SonarrSeriesType = 'standard' | 'anime' | 'daily'
+
+/** Monitoring strategies a genre route can choose between */
+export type SonarrRouteMonitoring =
+  | 'all'
+  | 'future'
+  | 'pilot'
+  | 'firstSeason'
+  | 'latestSeason'
+
 export interface SonarrAddOptions {
   monitor: string
   searchForCutoffUnmetEpisodes: boolean
@@ -53,15 +70,62 @@ export interface PagedResult<T> {
   records: T[]
 }
 
+export interface ArrImage {
+  coverType: string
+  url?: string
+  remoteUrl?: string
+}
+
+export interface SonarrLookupResult {
+  title: string
+  titleSlug?: string
+  tvdbId: number
+  imdbId?: string
+  year?: number
+  images?: ArrImage[]
+  seasons?: Array<{ seasonNumber: number; monitored: boolean }>
+  certification?: string
+  originalLanguage?: { id: number; name: string }
+}
+
+export interface SonarrAddOverrides {
+  tags?: string[]
+  /** Names of the watchlisting users, tagged when the instance enables it */
+  requesters?: string[]
+  seasonMonitoring?: string | null
+  monitored?: boolean
+  searchOnAdd?: boolean
+  seriesType?: SonarrSeriesType
+  seasonFolder?: boolean
+}
+
+export interface SonarrAddTarget {
+  rootFolderPath: string
+  qualityProfileId: number | string | null
+  qualityProfileName: string | null
+  tags: string[]
+  monitored: boolean
+  seriesType: SonarrSeriesType
+  seasonFolder: boolean
+  addOptions: SonarrAddOptions
+}
+
 export interface SonarrPost {
   title: string
+  titleSlug?: string
   tvdbId: number
+  imdbId?: string
+  year?: number
+  images?: ArrImage[]
+  seasons?: Array<{ seasonNumber: number; monitored: boolean }>
   qualityProfileId?: string | number | null
   rootFolderPath?: string
   addOptions: SonarrAddOptions
   languageProfileId?: number | null
   monitored: boolean
-  tags: string[]
+  seriesType: SonarrSeriesType
+  seasonFolder: boolean
+  tags: number[]
 }
 
 export interface SonarrSeries {
@@ -71,6 +135,7 @@ export interface SonarrSeries {
   id: number
   ended?: boolean
   added?: string
+  tags?: number[]
   seasons?: Array<{
     seasonNumber: number
     monitored: boolean
@@ -111,6 +176,9 @@ export interface Item {
   series_status?: 'continuing' | 'ended'
   genres?: string[]
   sonarr_instance_id?: number
+  /** Download state of this copy, as seen by the instance it lives in */
+  instance_status?: WatchlistInstanceStatus
+  tags?: number[]
 }
 
 export interface SonarrConfiguration {
@@ -119,8 +187,13 @@ export interface SonarrConfiguration {
   sonarrQualityProfileId: string | number | null
   sonarrLanguageProfileId: number
   sonarrRootFolder: string | null
-  sonarrTagIds: string[]
+  /** Tag labels, resolved to Sonarr tag IDs when an item is added */
+  sonarrTags: string[]
+  sonarrUserTags: boolean
   sonarrSeasonMonitoring: string
+  sonarrSeriesType: SonarrSeriesType
+  sonarrSeasonFolder: boolean
+  sonarrSearchOnAdd: boolean
 }
 
 export interface SonarrInstance {
@@ -132,7 +205,11 @@ export interface SonarrInstance {
   rootFolder?: string | null | undefined
   bypassIgnored: boolean
   seasonMonitoring: string
+  seriesType: SonarrSeriesType
+  seasonFolder: boolean
+  searchOnAdd: boolean
   tags: string[]
+  userTags: boolean
   isDefault: boolean
   syncedInstances?: number[]
   data?: {
@@ -148,6 +225,11 @@ export interface SonarrGenreRoute {
   genre: string
   rootFolder: string
   qualityProfile: string | number | null
+  /** Per-route add options, null to use the instance setting */
+  seasonMonitoring?: SonarrRouteMonitoring | null
+  seriesType?: SonarrSeriesType | null
+  seasonFolder?: boolean | null
+  searchOnAdd?: boolean | null
 }
 
 export interface SonarrItem {
@@ -160,6 +242,14 @@ export interface SonarrItem {
   series_status?: 'continuing' | 'ended'
   genres?: string[]
   sonarr_instance_id?: number
+  /** Download state of this copy, as seen by the instance it lives in */
+  instance_status?: WatchlistInstanceStatus
+  tags?: number[]
+}
+
+export interface Tag {
+  id: number
+  label: string
 }
 
 export interface PingResponse {
@@ -0,0 +1,21 @@
+export interface UserRoute {
+  id: number
+  userId: number
+  userName: string
+  targetType: 'sonarr' | 'radarr'
+  instanceId: number
+  rootFolder: string | null
+  qualityProfile: number | null
+  /**
+   * Exclusive routes replace genre and default routing for the user's items.
+   * Non-exclusive routes add the item to this instance as well.
+   */
+  exclusive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type UserRouteInput = Omit<
+  UserRoute,
+  'id' | 'userName' | 'createdAt' | 'updatedAt'
+>
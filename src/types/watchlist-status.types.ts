@@ -16,3 +16,12 @@ export interface DatabaseWatchlistItem {
   created_at?: string
   updated_at?: string
 }
+
+export type WatchlistInstanceStatus = 'requested' | 'grabbed' | 'available'
+
+export interface WatchlistItemInstance {
+  watchlistItemId: number
+  instanceType: 'sonarr' | 'radarr'
+  instanceId: number
+  status: WatchlistInstanceStatus
+}
@@ -0,0 +1,14 @@
+export type WorkflowStatus =
+  | 'stopped'
+  | 'running'
+  | 'starting'
+  | 'stopping'
+  | 'paused'
+
+export type WorkflowPhase = 'refresh' | 'status-sync' | 'initial-sync' | 'rss'
+
+export interface WorkflowPhaseState {
+  phase: WorkflowPhase
+  lastRunAt: string | null
+  running: boolean
+}
@@ -0,0 +1,31 @@
+import type { TemptRssWatchlistItem } from '@root/types/plex.types.js'
+
+export type WorkflowQueueStatus = 'pending' | 'in_progress' | 'done' | 'failed'
+
+export interface WorkflowQueueItem {
+  id: number
+  guid: string
+  title: string
+  type: string
+  key: string
+  thumb: string | null
+  guids: string[]
+  genres: string[]
+  source: 'self' | 'friends' | null
+  status: WorkflowQueueStatus
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewWorkflowQueueItem = Required<
+  Pick<TemptRssWatchlistItem, 'title' | 'type' | 'key'>
+> & {
+  guid: string
+  guids: string[]
+  genres: string[]
+  thumb?: string
+  source: 'self' | 'friends' | null
+}
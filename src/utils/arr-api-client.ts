@@ -0,0 +1,157 @@
+import type { FastifyBaseLogger } from 'fastify'
+import { ArrApiError } from '@utils/arr-api-error.js'
+
+export type ArrQuery = Record<string, string | number | boolean>
+
+type ArrMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export interface ArrApiClientOptions {
+  service: 'Sonarr' | 'Radarr'
+  baseUrl: string
+  apiKey: string
+  log?: FastifyBaseLogger
+  /** Per attempt, so a retried call can take longer in total */
+  timeoutMs?: number
+  retries?: number
+  retryDelayMs?: number
+  /** Minimum spacing between requests to the same instance */
+  minRequestIntervalMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 1000
+const DEFAULT_MIN_REQUEST_INTERVAL_MS = 50
+
+/**
+ * Typed client for the Sonarr and Radarr v3 APIs. Every request is bounded
+ * by a timeout and spaced out per instance. GET, PUT and DELETE are retried
+ * with backoff on network errors, timeouts, 5xx and 429 responses. POST is
+ * never retried, since an add that reached the instance before failing would
+ * be sent twice; failed adds are retried by the failed additions queue.
+ */
+export class ArrApiClient {
+  private readonly timeoutMs: number
+  private readonly retries: number
+  private readonly retryDelayMs: number
+  private readonly minRequestIntervalMs: number
+  private nextRequestAt = 0
+
+  constructor(private readonly options: ArrApiClientOptions) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.retries = options.retries ?? DEFAULT_RETRIES
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+    this.minRequestIntervalMs =
+      options.minRequestIntervalMs ?? DEFAULT_MIN_REQUEST_INTERVAL_MS
+  }
+
+  get<T>(endpoint: string, query?: ArrQuery): Promise<T> {
+    return this.request<T>('GET', this.apiUrl(endpoint, query))
+  }
+
+  post<T>(endpoint: string, payload: unknown, query?: ArrQuery): Promise<T> {
+    return this.request<T>('POST', this.apiUrl(endpoint, query), payload)
+  }
+
+  put<T>(endpoint: string, payload: unknown, query?: ArrQuery): Promise<T> {
+    return this.request<T>('PUT', this.apiUrl(endpoint, query), payload)
+  }
+
+  async delete(endpoint: string, query?: ArrQuery): Promise<void> {
+    await this.request<unknown>('DELETE', this.apiUrl(endpoint, query))
+  }
+
+  /** Calls the /ping health check, which lives outside the v3 API */
+  ping<T>(): Promise<T> {
+    return this.request<T>('GET', new URL(`${this.options.baseUrl}/ping`))
+  }
+
+  private apiUrl(endpoint: string, query: ArrQuery = {}): URL {
+    const url = new URL(`${this.options.baseUrl}/api/v3/${endpoint}`)
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.append(key, String(value))
+    }
+    return url
+  }
+
+  private async request<T>(
+    method: ArrMethod,
+    url: URL,
+    payload?: unknown,
+  ): Promise<T> {
+    const maxAttempts = method === 'POST' ? 1 : this.retries + 1
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send<T>(method, url, payload)
+      } catch (error) {
+        const retryable =
+          error instanceof ArrApiError ? error.isRetryable : true
+        if (!retryable || attempt >= maxAttempts) {
+          throw error
+        }
+
+        const delay = this.retryDelayMs * 2 ** (attempt - 1)
+        this.options.log?.warn(
+          `${this.options.service} ${method} ${url.pathname} failed (attempt ${attempt} of ${maxAttempts}), retrying in ${delay}ms: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        await sleep(delay)
+      }
+    }
+  }
+
+  private async send<T>(
+    method: ArrMethod,
+    url: URL,
+    payload?: unknown,
+  ): Promise<T> {
+    await this.throttle()
+
+    const headers: Record<string, string> = {
+      'X-Api-Key': this.options.apiKey,
+      Accept: 'application/json',
+    }
+    if (payload !== undefined) {
+      headers['Content-Type'] = 'application/json'
+    }
+
+    let response: Response
+    try {
+      response = await fetch(url.toString(), {
+        method,
+        headers,
+        body: payload !== undefined ? JSON.stringify(payload) : undefined,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      })
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(
+          `${this.options.service} ${method} ${url.pathname} timed out after ${this.timeoutMs}ms`,
+        )
+      }
+      throw error
+    }
+
+    if (!response.ok) {
+      throw await ArrApiError.fromResponse(this.options.service, response)
+    }
+
+    // Deletes and some updates answer with an empty body
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+
+  private async throttle(): Promise<void> {
+    const now = Date.now()
+    const wait = this.nextRequestAt - now
+    this.nextRequestAt =
+      Math.max(now, this.nextRequestAt) + this.minRequestIntervalMs
+    if (wait > 0) {
+      await sleep(wait)
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
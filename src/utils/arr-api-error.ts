@@ -0,0 +1,72 @@
+/**
+ * Error thrown when a Sonarr or Radarr API call returns a non-2xx response.
+ * Keeps the HTTP status and response body so failures can be inspected and
+ * retried later. JSON bodies are parsed into `data`, and their validation
+ * messages (such as "This series has already been added") are included in
+ * the error message.
+ */
+export class ArrApiError extends Error {
+  readonly data: unknown
+
+  constructor(
+    readonly service: 'Sonarr' | 'Radarr',
+    readonly status: number,
+    readonly statusText: string,
+    readonly body: string,
+  ) {
+    const data = parseBody(body)
+    const detail = describeBody(data)
+    super(
+      detail
+        ? `${service} API error: ${statusText} - ${detail}`
+        : `${service} API error: ${statusText}`,
+    )
+    this.name = 'ArrApiError'
+    this.data = data
+  }
+
+  /** Server errors and rate limiting are worth retrying, client errors not */
+  get isRetryable(): boolean {
+    return this.status >= 500 || this.status === 429
+  }
+
+  static async fromResponse(
+    service: 'Sonarr' | 'Radarr',
+    response: Response,
+  ): Promise<ArrApiError> {
+    const body = await response.text().catch(() => '')
+    return new ArrApiError(service, response.status, response.statusText, body)
+  }
+}
+
+function parseBody(body: string): unknown {
+  if (!body) return null
+  try {
+    return JSON.parse(body)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Sonarr and Radarr report validation failures as an array of
+ * `{ propertyName, errorMessage }` and other failures as `{ message }`.
+ */
+function describeBody(data: unknown): string | null {
+  if (Array.isArray(data)) {
+    const messages = data
+      .map((entry) =>
+        entry && typeof entry === 'object' && 'errorMessage' in entry
+          ? String(entry.errorMessage)
+          : null,
+      )
+      .filter((message): message is string => Boolean(message))
+    return messages.length > 0 ? messages.join('; ') : null
+  }
+
+  if (data && typeof data === 'object' && 'message' in data) {
+    return String(data.message)
+  }
+
+  return null
+}
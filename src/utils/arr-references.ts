@@ -0,0 +1,35 @@
+interface NamedProfile {
+  id: number
+  name: string
+}
+
+/**
+ * Finds the quality profile a configured value refers to. Numeric values are
+ * matched by ID, anything else by name ignoring case.
+ */
+export function findQualityProfile<T extends NamedProfile>(
+  profiles: T[],
+  value: string | number,
+): T | undefined {
+  const configured = String(value).trim()
+  if (/^\d+$/.test(configured)) {
+    return profiles.find((profile) => profile.id === Number(configured))
+  }
+  return profiles.find(
+    (profile) => profile.name.toLowerCase() === configured.toLowerCase(),
+  )
+}
+
+/**
+ * Checks a root folder path against the instance's root folders. Paths are
+ * compared without trailing slashes since Sonarr and Radarr accept either.
+ */
+export function hasRootFolder(
+  rootFolders: Array<{ path: string }>,
+  path: string,
+): boolean {
+  const trimmed = path.replace(/[\\/]+$/, '')
+  return rootFolders.some(
+    (folder) => folder.path.replace(/[\\/]+$/, '') === trimmed,
+  )
+}
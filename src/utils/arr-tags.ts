@@ -0,0 +1,48 @@
+import type { Tag } from '@root/types/sonarr.types.js'
+
+const USER_TAG_PREFIX = 'pulsarr-user-'
+
+/**
+ * Sonarr and Radarr only accept lowercase letters, digits and dashes in tag
+ * labels, so accents are stripped and anything else is collapsed into a
+ * single dash.
+ */
+export function normalizeTagLabel(label: string): string {
+  return label
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+export function userTagLabel(userName: string): string {
+  return normalizeTagLabel(`${USER_TAG_PREFIX}${userName}`)
+}
+
+/**
+ * Merges configured tags with the per-user tags of the watchlisting users,
+ * dropping duplicates and empty labels.
+ */
+export function buildTagLabels(tags: string[], requesters: string[]): string[] {
+  return [
+    ...new Set([...tags, ...requesters.map(userTagLabel)].filter(Boolean)),
+  ]
+}
+
+/**
+ * Finds the existing tag a configured value refers to. Values are matched
+ * by label first, then as a raw tag ID for instances configured before tags
+ * were stored by label.
+ */
+export function findTag(tags: Tag[], value: string): Tag | undefined {
+  const label = normalizeTagLabel(value)
+  return (
+    tags.find((tag) => normalizeTagLabel(tag.label) === label) ??
+    (/^\d+$/.test(value)
+      ? tags.find((tag) => tag.id === Number(value))
+      : undefined)
+  )
+}
@@ -0,0 +1,48 @@
+import type { GenreAlias } from '@root/types/genre-alias.types.js'
+
+/** Lowercased alias to the genre it stands for */
+export type GenreAliasMap = Map<string, string>
+
+export function buildGenreAliasMap(aliases: GenreAlias[]): GenreAliasMap {
+  return new Map(
+    aliases.map((alias) => [alias.alias.trim().toLowerCase(), alias.genre]),
+  )
+}
+
+export function canonicalGenre(genre: string, aliases: GenreAliasMap): string {
+  return aliases.get(genre.trim().toLowerCase()) ?? genre
+}
+
+/**
+ * Rewrites aliased genres to the genre they stand for, dropping any
+ * duplicates this creates. Used when items are ingested.
+ */
+export function applyGenreAliases(
+  genres: string[],
+  aliases: GenreAliasMap,
+): string[] {
+  return [...new Set(genres.map((genre) => canonicalGenre(genre, aliases)))]
+}
+
+/**
+ * Returns the item's genres together with every alias of them, so a route
+ * or rule written against either side of an alias matches. Items stored
+ * before an alias was added still match too.
+ */
+export function expandGenres(
+  genres: string[],
+  aliases: GenreAliasMap,
+): string[] {
+  const canonical = new Set(
+    genres.map((genre) => canonicalGenre(genre, aliases).toLowerCase()),
+  )
+  const expanded = new Set([...genres, ...applyGenreAliases(genres, aliases)])
+
+  for (const [alias, genre] of aliases) {
+    if (canonical.has(genre.toLowerCase())) {
+      expanded.add(alias)
+    }
+  }
+
+  return [...expanded]
+}
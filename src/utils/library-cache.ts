@@ -0,0 +1,45 @@
+/**
+ * Holds the last fetched copy of an instance's library for a limited time.
+ * Concurrent reads while a fetch is in flight share that fetch, and a fetch
+ * that was started before an invalidation is never stored.
+ */
+export class LibraryCache<T> {
+  private items: T[] | null = null
+  private fetchedAt = 0
+  private pending: Promise<T[]> | null = null
+  private generation = 0
+
+  constructor(private readonly ttlMs: number) {}
+
+  async get(load: () => Promise<T[]>): Promise<T[]> {
+    if (this.items && Date.now() - this.fetchedAt < this.ttlMs) {
+      return this.items
+    }
+
+    if (!this.pending) {
+      const generation = this.generation
+      const request = load()
+        .then((items) => {
+          if (generation === this.generation) {
+            this.items = items
+            this.fetchedAt = Date.now()
+          }
+          return items
+        })
+        .finally(() => {
+          if (this.pending === request) {
+            this.pending = null
+          }
+        })
+      this.pending = request
+    }
+
+    return this.pending
+  }
+
+  invalidate() {
+    this.items = null
+    this.pending = null
+    this.generation++
+  }
+}
@@ -718,12 +718,16 @@ export const getRssFromPlexToken = async (
   }
 }
 
+/**
+ * Returns null when the feed could not be fetched, so a failed fetch is
+ * never mistaken for an empty watchlist.
+ */
 export const fetchWatchlistFromRss = async (
   url: string,
   prefix: 'selfRSS' | 'otherRSS',
   userId: number,
   log: FastifyBaseLogger,
-): Promise<Set<Item>> => {
+): Promise<Set<Item> | null> => {
   const items = new Set<Item>()
 
   try {
@@ -745,10 +749,10 @@ export const fetchWatchlistFromRss = async (
         log.debug(
           'Unable to fetch watchlist from Plex, see https://github.com/nylonee/watchlistarr/issues/161',
         )
-        return items
+        return null
       }
       log.warn(`Unable to fetch watchlist from Plex: ${response.statusText}`)
-      return items
+      return null
     }
 
     const json = (await response.json()) as RssResponse
@@ -788,6 +792,7 @@ export const fetchWatchlistFromRss = async (
     }
   } catch (err) {
     log.warn(`Unable to fetch watchlist from Plex: ${err}`)
+    return null
   }
 
   log.debug(`Successfully processed ${items.size} items from RSS feed`)
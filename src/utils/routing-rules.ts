@@ -0,0 +1,124 @@
+import type {
+  RoutingContext,
+  RoutingRule,
+  RoutingRuleCondition,
+  RoutingRuleField,
+} from '@root/types/routing-rule.types.js'
+
+const METADATA_FIELDS: RoutingRuleField[] = [
+  'year',
+  'language',
+  'certification',
+]
+
+function normalize(value: string | number): string {
+  return String(value).trim().toLowerCase()
+}
+
+function contextValues(
+  context: RoutingContext,
+  field: RoutingRuleField,
+): Array<string | number> {
+  switch (field) {
+    case 'genre':
+      return context.genres
+    case 'user':
+      return context.users
+    case 'contentType':
+      return [context.contentType]
+    case 'year':
+      return context.year != null ? [context.year] : []
+    case 'language':
+      return context.language ? [context.language] : []
+    case 'certification':
+      return context.certification ? [context.certification] : []
+  }
+}
+
+function matches(
+  condition: Extract<RoutingRuleCondition, { type: 'match' }>,
+  context: RoutingContext,
+): boolean {
+  const values = contextValues(context, condition.field)
+  const expected = Array.isArray(condition.value)
+    ? condition.value
+    : [condition.value]
+
+  switch (condition.operator) {
+    case 'equals':
+    case 'in': {
+      // Multi-valued fields (genres, users) match when any value matches
+      const wanted = new Set(expected.map(normalize))
+      return values.some((value) => wanted.has(normalize(value)))
+    }
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const threshold = Number(expected[0])
+      if (Number.isNaN(threshold)) {
+        return false
+      }
+      return values.some((value) => {
+        const numeric = Number(value)
+        if (Number.isNaN(numeric)) return false
+        if (condition.operator === 'gt') return numeric > threshold
+        if (condition.operator === 'gte') return numeric >= threshold
+        if (condition.operator === 'lt') return numeric < threshold
+        return numeric <= threshold
+      })
+    }
+  }
+}
+
+export function evaluateCondition(
+  condition: RoutingRuleCondition,
+  context: RoutingContext,
+): boolean {
+  switch (condition.type) {
+    case 'and':
+      return condition.conditions.every((child) =>
+        evaluateCondition(child, context),
+      )
+    case 'or':
+      return condition.conditions.some((child) =>
+        evaluateCondition(child, context),
+      )
+    case 'not':
+      return !evaluateCondition(condition.condition, context)
+    case 'match':
+      return matches(condition, context)
+  }
+}
+
+/**
+ * Whether evaluating the condition needs metadata that watchlist items do
+ * not carry (year, language, certification) and must be looked up.
+ */
+export function conditionUsesMetadata(
+  condition: RoutingRuleCondition,
+): boolean {
+  switch (condition.type) {
+    case 'and':
+    case 'or':
+      return condition.conditions.some(conditionUsesMetadata)
+    case 'not':
+      return conditionUsesMetadata(condition.condition)
+    case 'match':
+      return METADATA_FIELDS.includes(condition.field)
+  }
+}
+
+/**
+ * Returns the enabled rule with the lowest priority number whose condition
+ * matches, or undefined when no rule applies.
+ */
+export function findMatchingRule(
+  rules: RoutingRule[],
+  context: RoutingContext,
+): RoutingRule | undefined {
+  return [...rules]
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.priority - b.priority || a.id - b.id)
+    .find((rule) => evaluateCondition(rule.condition, context))
+}
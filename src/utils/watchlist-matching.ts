@@ -0,0 +1,58 @@
+interface GuidCarrier {
+  guids?: string[] | string
+}
+
+export function parseGuids(guids: string[] | string | undefined): string[] {
+  if (typeof guids === 'string') {
+    return JSON.parse(guids)
+  }
+  return guids || []
+}
+
+export function buildWatchlistGuidSet(items: GuidCarrier[]): Set<string> {
+  return new Set(items.flatMap((item) => parseGuids(item.guids)))
+}
+
+export function findUnmatchedItems<T extends { guids: string[] }>(
+  items: Iterable<T>,
+  watchlistGuids: Set<string>,
+): T[] {
+  const unmatched: T[] = []
+  for (const item of items) {
+    if (!item.guids.some((guid) => watchlistGuids.has(guid))) {
+      unmatched.push(item)
+    }
+  }
+  return unmatched
+}
+
+/**
+ * Indexes items by every GUID they carry so lookups are constant time per
+ * GUID instead of a scan over the whole library.
+ */
+export function buildGuidIndex<T extends { guids: string[] }>(
+  items: Iterable<T>,
+): Map<string, T> {
+  const index = new Map<string, T>()
+  for (const item of items) {
+    for (const guid of item.guids) {
+      if (!index.has(guid)) {
+        index.set(guid, item)
+      }
+    }
+  }
+  return index
+}
+
+export function findByGuids<T>(
+  index: Map<string, T>,
+  guids: string[],
+): T | undefined {
+  for (const guid of guids) {
+    const match = index.get(guid)
+    if (match) {
+      return match
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,79 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+
+export type WebhookInstanceType = 'sonarr' | 'radarr'
+
+export interface WebhookCredentials {
+  username: string
+  password: string
+}
+
+export interface WebhookSender {
+  instanceType: WebhookInstanceType
+  instanceId: number
+  secret: string
+}
+
+const USERNAME_PATTERN = /^(sonarr|radarr)-(\d+)-[0-9a-f]{8}$/
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Basic-auth credentials for the Pulsarr webhook of an instance. The
+ * username names the instance, so each call can be traced to its sender,
+ * and the password is the instance's secret. The arrs mask passwords when
+ * listing notifications, so the username also carries a short fingerprint
+ * of the secret to tell a webhook holding a stale secret apart.
+ */
+export function buildWebhookCredentials(
+  instanceType: WebhookInstanceType,
+  instanceId: number,
+  secret: string,
+): WebhookCredentials {
+  const fingerprint = createHash('sha256')
+    .update(secret)
+    .digest('hex')
+    .slice(0, 8)
+  return {
+    username: `${instanceType}-${instanceId}-${fingerprint}`,
+    password: secret,
+  }
+}
+
+/** Reads the claimed sender from a basic-auth header, without verifying it */
+export function parseWebhookAuthorization(
+  header: string | undefined,
+): WebhookSender | null {
+  if (!header?.startsWith('Basic ')) {
+    return null
+  }
+
+  const decoded = Buffer.from(header.slice('Basic '.length), 'base64').toString(
+    'utf8',
+  )
+  const separator = decoded.indexOf(':')
+  if (separator === -1) {
+    return null
+  }
+
+  const match = USERNAME_PATTERN.exec(decoded.slice(0, separator))
+  if (!match) {
+    return null
+  }
+
+  return {
+    instanceType: match[1] as WebhookInstanceType,
+    instanceId: Number(match[2]),
+    secret: decoded.slice(separator + 1),
+  }
+}
+
+export function webhookSecretsMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected)
+  const actualBuffer = Buffer.from(actual)
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  )
+}